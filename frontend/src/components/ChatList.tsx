@@ -2,7 +2,8 @@
 
 import { useState, useEffect, useRef, useCallback } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
-import { getChats, searchMessages, type Chat, type SearchResult } from "@/lib/api";
+import { getAccounts, getChats, getLabels, searchMessages, type Account, type Chat, type ChatLabel, type Label, type SearchResult } from "@/lib/api";
+import StatusPanel from "@/components/StatusPanel";
 
 function formatTime(dateStr: string | null): string {
   if (!dateStr) return "";
@@ -21,7 +22,46 @@ function formatTime(dateStr: string | null): string {
   }
 }
 
-function ChatAvatar({ name, chatType }: { name: string | null; chatType: string }) {
+// WhatsApp Business label colours, indexed by the colour id the label carries
+const LABEL_COLORS = [
+  "#ff9485", "#64c4ff", "#ffd429", "#dfaef0", "#99b6c1",
+  "#55ccb3", "#ff9dff", "#d3a91d", "#6d7cce", "#d7e752",
+  "#00d0e2", "#ffc5c7", "#93ceac", "#f74848", "#00a0f2",
+  "#83e422", "#ffaf04", "#b5ebff", "#9ba6ff", "#9368cf",
+];
+
+function labelColor(label: ChatLabel): string {
+  return label.color !== null ? LABEL_COLORS[label.color % LABEL_COLORS.length] : "#8696a0";
+}
+
+function LabelChip({ label }: { label: ChatLabel }) {
+  return (
+    <span
+      className="inline-flex items-center text-[10px] leading-4 px-1.5 rounded-full text-white font-medium truncate max-w-[96px]"
+      style={{ backgroundColor: labelColor(label) }}
+      title={label.name || undefined}
+    >
+      {label.name || "Label"}
+    </span>
+  );
+}
+
+function ChatAvatar({
+  name,
+  chatType,
+  avatarUrl,
+}: {
+  name: string | null;
+  chatType: string;
+  avatarUrl: string | null;
+}) {
+  if (avatarUrl) {
+    return (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img src={avatarUrl} alt={name || ""} className="w-12 h-12 rounded-full object-cover shrink-0" />
+    );
+  }
+
   const initial = (name || "?").charAt(0).toUpperCase();
   const bgColors: Record<string, string> = {
     A: "#e17076", B: "#7bc862", C: "#e5ca77", D: "#65aadd", E: "#ee7aae",
@@ -38,7 +78,11 @@ function ChatAvatar({ name, chatType }: { name: string | null; chatType: string
       className="w-12 h-12 rounded-full flex items-center justify-center text-white text-lg font-semibold shrink-0"
       style={{ backgroundColor: bg }}
     >
-      {chatType === "group" ? (
+      {chatType === "newsletter" ? (
+        <svg width="24" height="24" viewBox="0 0 24 24" fill="currentColor">
+          <path d="M18 11v2h4v-2h-4zm-2 6.61c.96.71 2.21 1.65 3.2 2.39.4-.53.8-1.07 1.2-1.6-.99-.74-2.24-1.68-3.2-2.4-.4.54-.8 1.08-1.2 1.61zM20.4 5.6c-.4-.53-.8-1.07-1.2-1.6-.99.74-2.24 1.68-3.2 2.4.4.53.8 1.07 1.2 1.6.96-.72 2.21-1.65 3.2-2.4zM4 9c-1.1 0-2 .9-2 2v2c0 1.1.9 2 2 2h1v4h2v-4h1l5 3V6L8 9H4zm11.5 3c0-1.33-.58-2.53-1.5-3.35v6.69c.92-.81 1.5-2.01 1.5-3.34z"/>
+        </svg>
+      ) : chatType === "group" ? (
         <svg width="24" height="24" viewBox="0 0 24 24" fill="currentColor">
           <path d="M16 11c1.66 0 2.99-1.34 2.99-3S17.66 5 16 5c-1.66 0-3 1.34-3 3s1.34 3 3 3zm-8 0c1.66 0 2.99-1.34 2.99-3S9.66 5 8 5C6.34 5 5 6.34 5 8s1.34 3 3 3zm0 2c-2.33 0-7 1.17-7 3.5V19h14v-2.5c0-2.33-4.67-3.5-7-3.5zm8 0c-.29 0-.62.02-.97.05 1.16.84 1.97 1.97 1.97 3.45V19h6v-2.5c0-2.33-4.67-3.5-7-3.5z"/>
         </svg>
@@ -72,7 +116,7 @@ function ChatItem({
       }}
       onClick={onClick}
     >
-      <ChatAvatar name={chat.name} chatType={chat.chat_type} />
+      <ChatAvatar name={chat.name} chatType={chat.chat_type} avatarUrl={chat.avatar_url} />
       <div className="flex-1 min-w-0 border-b py-1" style={{ borderColor: "var(--border-color)" }}>
         <div className="flex justify-between items-center">
           <span className="font-medium truncate text-[15px]" style={{ color: "var(--text-primary)" }}>
@@ -102,6 +146,13 @@ function ChatItem({
             )}
           </div>
         </div>
+        {chat.labels && chat.labels.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-1">
+            {chat.labels.map((label) => (
+              <LabelChip key={label.id} label={label} />
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -153,7 +204,10 @@ function SearchResultItem({
           {result.sender_name && (
             <span style={{ color: "var(--text-primary)" }}>{result.sender_name}: </span>
           )}
-          {highlightText(result.body, query)}
+          {result.found_in_image && (
+            <span className="mr-1 text-[10px] uppercase font-semibold">[Found in image]</span>
+          )}
+          {highlightText(result.body || result.transcript || result.ocr_text || "", query)}
         </div>
       </div>
     </div>
@@ -164,6 +218,8 @@ export default function ChatList() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const activeChatId = searchParams.get("chatId");
+  const accountParam = searchParams.get("account");
+  const accountId = accountParam ? parseInt(accountParam) : null;
 
   const [chats, setChats] = useState<Chat[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
@@ -173,27 +229,53 @@ export default function ChatList() {
   const [page, setPage] = useState(1);
   const [hasMore, setHasMore] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false);
+  const [tab, setTab] = useState<"chats" | "channels" | "status">("chats");
+  const [labels, setLabels] = useState<Label[]>([]);
+  const [labelFilter, setLabelFilter] = useState<number | null>(null);
+  const [accounts, setAccounts] = useState<Account[]>([]);
 
   const listRef = useRef<HTMLDivElement>(null);
   const debounceRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Load chats
+  // Load the linked WhatsApp accounts; open the first one when none is picked
   useEffect(() => {
+    getAccounts()
+      .then((data) => {
+        setAccounts(data);
+        if (!accountParam && data.length > 0) {
+          router.replace(`?account=${data[0].id}`);
+        }
+      })
+      .catch(() => setAccounts([]));
+  }, [accountParam, router]);
+
+  // Load labels per account; only business accounts have any
+  useEffect(() => {
+    if (!accountId) return;
+    getLabels(accountId)
+      .then(setLabels)
+      .catch(() => setLabels([]));
+  }, [accountId]);
+
+  // Load chats, or channels on the channels tab
+  useEffect(() => {
+    if (tab === "status" || !accountId) return;
     setLoading(true);
-    getChats(1, 50)
+    getChats(accountId, 1, 50, false, tab === "channels" ? "newsletter" : undefined, labelFilter ?? undefined)
       .then((res) => {
         setChats(res.data);
+        setPage(1);
         setHasMore(res.pagination.page < res.pagination.totalPages);
         setLoading(false);
       })
       .catch(() => setLoading(false));
-  }, []);
+  }, [accountId, tab, labelFilter]);
 
   // Debounced search
   useEffect(() => {
     if (debounceRef.current) clearTimeout(debounceRef.current);
 
-    if (!searchQuery.trim()) {
+    if (!searchQuery.trim() || !accountId) {
       setSearchResults([]);
       setIsSearching(false);
       return;
@@ -201,7 +283,7 @@ export default function ChatList() {
 
     setIsSearching(true);
     debounceRef.current = setTimeout(() => {
-      searchMessages(searchQuery)
+      searchMessages(accountId, searchQuery)
         .then((res) => {
           setSearchResults(res.data);
           setIsSearching(false);
@@ -212,17 +294,17 @@ export default function ChatList() {
     return () => {
       if (debounceRef.current) clearTimeout(debounceRef.current);
     };
-  }, [searchQuery]);
+  }, [accountId, searchQuery]);
 
   // Infinite scroll
   const handleScroll = useCallback(() => {
     const el = listRef.current;
-    if (!el || loadingMore || !hasMore || searchQuery) return;
+    if (!el || !accountId || loadingMore || !hasMore || tab === "status" || (tab === "chats" && searchQuery)) return;
 
     if (el.scrollTop + el.clientHeight >= el.scrollHeight - 100) {
       setLoadingMore(true);
       const nextPage = page + 1;
-      getChats(nextPage, 50)
+      getChats(accountId, nextPage, 50, false, tab === "channels" ? "newsletter" : undefined, labelFilter ?? undefined)
         .then((res) => {
           setChats((prev) => [...prev, ...res.data]);
           setPage(nextPage);
@@ -231,7 +313,7 @@ export default function ChatList() {
         })
         .catch(() => setLoadingMore(false));
     }
-  }, [page, hasMore, loadingMore, searchQuery]);
+  }, [accountId, page, hasMore, loadingMore, searchQuery, tab, labelFilter]);
 
   const selectChat = (chatId: number) => {
     const params = new URLSearchParams(searchParams.toString());
@@ -239,6 +321,12 @@ export default function ChatList() {
     router.push(`?${params.toString()}`);
   };
 
+  // Switching accounts closes the open chat, which belongs to the previous one
+  const selectAccount = (id: number) => {
+    setLabelFilter(null);
+    router.push(`?account=${id}`);
+  };
+
   // Sort chats: pinned first, then by last_message_at
   const sortedChats = [...chats].sort((a, b) => {
     if (a.is_pinned && !b.is_pinned) return -1;
@@ -248,7 +336,7 @@ export default function ChatList() {
     return bTime - aTime;
   });
 
-  const showSearch = searchQuery.trim().length > 0;
+  const showSearch = tab === "chats" && searchQuery.trim().length > 0;
 
   return (
     <>
@@ -258,11 +346,49 @@ export default function ChatList() {
           WhatsApp Mail
         </h1>
         <span className="text-xs px-2 py-1 rounded-full" style={{ background: "var(--bg-secondary)", color: "var(--text-secondary)" }}>
-          {chats.length} chats
+          {chats.length} {tab === "channels" ? "channels" : "chats"}
         </span>
       </div>
 
+      {/* Account switcher, when more than one number is linked */}
+      {accounts.length > 1 && (
+        <div className="px-3 pb-2" style={{ background: "var(--bg-primary)" }}>
+          <select
+            value={accountId ?? ""}
+            onChange={(e) => selectAccount(parseInt(e.target.value))}
+            className="w-full rounded-lg px-3 py-1.5 text-sm outline-none"
+            style={{ background: "var(--bg-secondary)", color: "var(--text-primary)" }}
+          >
+            {accounts.map((account) => (
+              <option key={account.id} value={account.id}>
+                {account.display_name || account.name}
+                {account.phone_jid ? ` · +${account.phone_jid.split("@")[0]}` : ""}
+                {account.status !== "open" ? ` (${account.status.replace("_", " ")})` : ""}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* Chats / Channels / Status tabs */}
+      <div className="flex gap-1 px-3 pb-1" style={{ background: "var(--bg-primary)" }}>
+        {(["chats", "channels", "status"] as const).map((value) => (
+          <button
+            key={value}
+            onClick={() => setTab(value)}
+            className="px-3 py-1 text-xs rounded-full transition-colors font-medium capitalize"
+            style={{
+              backgroundColor: tab === value ? "var(--accent)" : "var(--bg-secondary)",
+              color: tab === value ? "#ffffff" : "var(--text-secondary)",
+            }}
+          >
+            {value}
+          </button>
+        ))}
+      </div>
+
       {/* Search input */}
+      {tab === "chats" && (
       <div className="px-3 py-2" style={{ background: "var(--bg-primary)" }}>
         <div className="flex items-center rounded-lg px-3 py-1.5" style={{ background: "var(--bg-secondary)" }}>
           <svg width="18" height="18" viewBox="0 0 24 24" fill="var(--text-secondary)" className="shrink-0">
@@ -289,14 +415,41 @@ export default function ChatList() {
           )}
         </div>
       </div>
+      )}
+
+      {/* Label filter (WhatsApp Business) */}
+      {tab === "chats" && labels.length > 0 && (
+        <div className="flex gap-1 px-3 pb-2 overflow-x-auto" style={{ background: "var(--bg-primary)" }}>
+          {labels.map((label) => {
+            const active = labelFilter === label.id;
+            return (
+              <button
+                key={label.id}
+                onClick={() => setLabelFilter(active ? null : label.id)}
+                className="flex items-center gap-1 px-2 py-0.5 text-xs rounded-full shrink-0 transition-colors"
+                style={{
+                  backgroundColor: active ? labelColor(label) : "var(--bg-secondary)",
+                  color: active ? "#ffffff" : "var(--text-secondary)",
+                }}
+              >
+                {!active && <span className="w-2 h-2 rounded-full" style={{ backgroundColor: labelColor(label) }} />}
+                {label.name || "Label"}
+                <span className="opacity-70">{label.chat_count}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
 
-      {/* Chat list / Search results */}
+      {/* Chat list / Search results / Status updates */}
       <div
         ref={listRef}
         className="flex-1 overflow-y-auto"
         onScroll={handleScroll}
       >
-        {loading ? (
+        {tab === "status" ? (
+          accountId && <StatusPanel key={accountId} accountId={accountId} />
+        ) : loading ? (
           <div className="flex items-center justify-center py-12">
             <div className="w-8 h-8 border-2 rounded-full animate-spin" style={{ borderColor: "var(--border-color)", borderTopColor: "var(--accent)" }} />
           </div>
@@ -329,7 +482,9 @@ export default function ChatList() {
           </>
         ) : sortedChats.length === 0 ? (
           <div className="text-center py-12">
-            <p className="text-sm" style={{ color: "var(--text-secondary)" }}>No chats found</p>
+            <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+              {tab === "channels" ? "No channels found" : "No chats found"}
+            </p>
           </div>
         ) : (
           <>
@@ -1,8 +1,20 @@
 "use client";
 
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { useSearchParams } from "next/navigation";
-import { getChat, getChatMessages, type Chat, type Message } from "@/lib/api";
+import {
+  getChat,
+  getChatCalls,
+  getChatEvents,
+  getChatMessages,
+  getMessageHistory,
+  type Call,
+  type Chat,
+  type DeletedMode,
+  type GroupEvent,
+  type Message,
+  type MessageEdit,
+} from "@/lib/api";
 import MediaGallery from "@/components/MediaGallery";
 
 function formatMessageTime(dateStr: string): string {
@@ -21,21 +33,217 @@ function formatDateSeparator(dateStr: string): string {
   return date.toLocaleDateString([], { year: "numeric", month: "long", day: "numeric" });
 }
 
-function shouldShowDateSeparator(current: Message, previous: Message | null): boolean {
+function shouldShowDateSeparator(current: { timestamp: string }, previous: { timestamp: string } | null): boolean {
   if (!previous) return true;
   const currentDate = new Date(current.timestamp).toDateString();
   const previousDate = new Date(previous.timestamp).toDateString();
   return currentDate !== previousDate;
 }
 
+function formatCallDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const mmss = `${String(m).padStart(h > 0 ? 2 : 1, "0")}:${String(s).padStart(2, "0")}`;
+  return h > 0 ? `${h}:${mmss}` : mmss;
+}
+
+function describeCall(call: Call): string {
+  const kind = call.media_type === "video" ? "video call" : "voice call";
+  const group = call.is_group ? "group " : "";
+  switch (call.status) {
+    case "missed":
+      return call.direction === "incoming" ? `Missed ${group}${kind}` : `Unanswered ${group}${kind}`;
+    case "rejected":
+      return `Declined ${group}${kind}`;
+    case "ended":
+      return `${call.direction === "incoming" ? "Incoming" : "Outgoing"} ${group}${kind}` +
+        (call.duration_seconds !== null ? ` · ${formatCallDuration(call.duration_seconds)}` : "");
+    default:
+      return `${call.direction === "incoming" ? "Incoming" : "Outgoing"} ${group}${kind}`;
+  }
+}
+
+function displayJid(jid: string | null, pn: string | null, name: string | null): string {
+  return name || (pn || jid || "Someone").split("@")[0];
+}
+
+function describeSetting(setting: unknown, value: unknown): string {
+  switch (setting) {
+    case "announce":
+      return value ? "only admins can send messages" : "all members can send messages";
+    case "restrict_mode":
+      return value ? "only admins can edit group info" : "all members can edit group info";
+    case "join_approval_mode":
+      return value ? "admins must approve new members" : "new members no longer need approval";
+    case "member_add_mode":
+      return value ? "all members can add others" : "only admins can add others";
+    case "ephemeral_duration":
+      return value ? "disappearing messages turned on" : "disappearing messages turned off";
+    default:
+      return `${String(setting)} changed`;
+  }
+}
+
+function describeGroupEvent(event: GroupEvent): string {
+  const actor = event.actor_jid || event.actor_pn ? displayJid(event.actor_jid, event.actor_pn, event.actor_name) : null;
+  const member = displayJid(event.participant_jid, event.participant_pn, event.participant_name);
+  const details = event.details || {};
+
+  switch (event.event_type) {
+    case "add":
+      return actor ? `${actor} added ${member}` : `${member} was added`;
+    case "join":
+      return `${member} joined using the invite link`;
+    case "remove":
+      return actor ? `${actor} removed ${member}` : `${member} was removed`;
+    case "leave":
+      return `${member} left`;
+    case "promote":
+      return actor ? `${actor} made ${member} an admin` : `${member} is now an admin`;
+    case "demote":
+      return actor ? `${actor} dismissed ${member} as admin` : `${member} is no longer an admin`;
+    case "modify":
+      return `${member} changed their phone number`;
+    case "subject":
+      return actor ? `${actor} changed the group name to "${String(details.to)}"` : `Group name changed to "${String(details.to)}"`;
+    case "description":
+      return actor ? `${actor} changed the group description` : "Group description changed";
+    case "invite_link":
+      return actor ? `${actor} reset the invite link` : "Invite link reset";
+    case "settings": {
+      const change = describeSetting(details.setting, details.to);
+      return actor ? `${actor}: ${change}` : change.charAt(0).toUpperCase() + change.slice(1);
+    }
+    case "join_request":
+      if (details.action === "revoked") return `${member} withdrew their request to join`;
+      if (details.action === "rejected") {
+        return actor ? `${actor} declined ${member}'s request to join` : `${member}'s request to join was declined`;
+      }
+      return `${member} asked to join`;
+    default:
+      return event.event_type;
+  }
+}
+
+// Messages, calls and group events shown in one timeline, each ordered by its timestamp
+type TimelineItem =
+  | { kind: "message"; timestamp: string; message: Message }
+  | { kind: "call"; timestamp: string; call: Call }
+  | { kind: "event"; timestamp: string; event: GroupEvent };
+
+/**
+ * Slots calls and group events in between the messages they happened between,
+ * leaving the message order as loaded.
+ */
+function buildTimeline(messages: Message[], calls: Call[], events: GroupEvent[]): TimelineItem[] {
+  const pending: TimelineItem[] = [
+    ...calls.map((call): TimelineItem => ({ kind: "call", timestamp: call.started_at, call })),
+    ...events.map((event): TimelineItem => ({ kind: "event", timestamp: event.occurred_at, event })),
+  ].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const items: TimelineItem[] = [];
+  let next = 0;
+
+  for (const message of messages) {
+    const time = new Date(message.timestamp).getTime();
+    while (next < pending.length && new Date(pending[next].timestamp).getTime() <= time) {
+      items.push(pending[next]);
+      next++;
+    }
+    items.push({ kind: "message", timestamp: message.timestamp, message });
+  }
+  items.push(...pending.slice(next));
+
+  return items;
+}
+
+function timelineKey(item: TimelineItem): string | number {
+  if (item.kind === "call") return `call-${item.call.id}`;
+  if (item.kind === "event") return `event-${item.event.id}`;
+  return item.message.id;
+}
+
+function earliestTimestamp(messages: Message[]): string | undefined {
+  let earliest: string | undefined;
+  for (const message of messages) {
+    if (!earliest || new Date(message.timestamp) < new Date(earliest)) earliest = message.timestamp;
+  }
+  return earliest;
+}
+
+function CallEntry({ call }: { call: Call }) {
+  const isMissed = call.status === "missed" && call.direction === "incoming";
+
+  return (
+    <div className="flex justify-center my-1.5 px-[7%]">
+      <span
+        className="inline-flex items-center gap-1.5 text-xs px-3 py-1 rounded-lg"
+        style={{
+          backgroundColor: "var(--bg-chat-received)",
+          color: isMissed ? "#ea0038" : "var(--text-secondary)",
+          boxShadow: "0 1px 0.5px rgba(0, 0, 0, 0.13)",
+        }}
+        title={call.participants.length > 0 ? call.participants.join(", ") : undefined}
+      >
+        {call.media_type === "video" ? (
+          <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M17 10.5V7c0-.55-.45-1-1-1H4c-.55 0-1 .45-1 1v10c0 .55.45 1 1 1h12c.55 0 1-.45 1-1v-3.5l4 4v-11l-4 4z"/>
+          </svg>
+        ) : (
+          <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M20.01 15.38c-1.23 0-2.42-.2-3.53-.56a.977.977 0 00-1.01.24l-1.57 1.97c-2.83-1.35-5.48-3.9-6.89-6.83l1.95-1.66c.27-.28.35-.67.24-1.02-.37-1.11-.56-2.3-.56-3.53 0-.54-.45-.99-.99-.99H4.19C3.65 3 3 3.24 3 3.99 3 13.28 10.73 21 20.01 21c.71 0 .99-.63.99-1.18v-3.45c0-.54-.45-.99-.99-.99z"/>
+          </svg>
+        )}
+        <span>{describeCall(call)}</span>
+        <span className="text-[11px]">{formatMessageTime(call.started_at)}</span>
+      </span>
+    </div>
+  );
+}
+
+function GroupEventEntry({ event }: { event: GroupEvent }) {
+  return (
+    <div className="flex justify-center my-1.5 px-[7%]">
+      <span
+        className="inline-flex items-center gap-1.5 text-xs px-3 py-1 rounded-lg text-center"
+        style={{
+          backgroundColor: "var(--bg-chat-received)",
+          color: "var(--text-secondary)",
+          boxShadow: "0 1px 0.5px rgba(0, 0, 0, 0.13)",
+        }}
+        title={new Date(event.occurred_at).toLocaleString()}
+      >
+        <span>{describeGroupEvent(event)}</span>
+        <span className="text-[11px]">{formatMessageTime(event.occurred_at)}</span>
+      </span>
+    </div>
+  );
+}
+
 function MessageBubble({
+  accountId,
   message,
   isGroup,
+  showDeletedOriginal,
 }: {
+  accountId: number;
   message: Message;
   isGroup: boolean;
+  showDeletedOriginal: boolean;
 }) {
   const isFromMe = message.is_from_me;
+  const isDeletedPlaceholder = message.is_deleted && !showDeletedOriginal;
+  const [edits, setEdits] = useState<MessageEdit[] | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const toggleHistory = () => {
+    if (!showHistory && edits === null) {
+      getMessageHistory(accountId, message.id)
+        .then((res) => setEdits(res.edits))
+        .catch(() => setEdits([]));
+    }
+    setShowHistory(!showHistory);
+  };
 
   return (
     <div className={`flex ${isFromMe ? "justify-end" : "justify-start"} mb-1 px-[7%]`}>
@@ -63,8 +271,18 @@ function MessageBubble({
           </div>
         )}
 
+        {/* Deleted placeholder */}
+        {isDeletedPlaceholder && (
+          <div className="flex items-center gap-1 text-[14.2px] italic" style={{ color: "var(--text-secondary)" }}>
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
+              <path d="M12 2C6.47 2 2 6.47 2 12s4.47 10 10 10 10-4.47 10-10S17.53 2 12 2zm0 18c-4.42 0-8-3.58-8-8 0-1.85.63-3.55 1.69-4.9L16.9 18.31C15.55 19.37 13.85 20 12 20zm6.31-3.1L7.1 5.69C8.45 4.63 10.15 4 12 4c4.42 0 8 3.58 8 8 0 1.85-.63 3.55-1.69 4.9z"/>
+            </svg>
+            <span>{message.deleted_reason === "revoke" ? "This message was deleted" : "You deleted this message"}</span>
+          </div>
+        )}
+
         {/* Quoted message */}
-        {message.quotedMessage && (
+        {!isDeletedPlaceholder && message.quotedMessage && (
           <div
             className="rounded px-2.5 py-1.5 mb-1 border-l-4 cursor-pointer"
             style={{
@@ -84,7 +302,7 @@ function MessageBubble({
         )}
 
         {/* Media indicator */}
-        {message.has_media && (
+        {!isDeletedPlaceholder && message.has_media && (
           <div className="mb-1">
             {message.media_url ? (
               message.media_mimetype?.startsWith("image/") ? (
@@ -97,6 +315,8 @@ function MessageBubble({
                     style={{ maxHeight: "300px", objectFit: "cover" }}
                   />
                 </div>
+              ) : message.media_mimetype?.startsWith("audio/") ? (
+                <audio controls preload="none" src={message.media_url} className="w-[260px] max-w-full" />
               ) : (
                 <a
                   href={message.media_url}
@@ -129,27 +349,117 @@ function MessageBubble({
           </div>
         )}
 
+        {/* Voice note transcript */}
+        {!isDeletedPlaceholder && message.transcript?.text && (
+          <div
+            className="text-[13px] leading-[18px] italic whitespace-pre-wrap break-words mb-0.5"
+            style={{ color: "var(--text-secondary)" }}
+            title={message.transcript.language ? `Transcript (${message.transcript.language})` : "Transcript"}
+          >
+            {message.transcript.text}
+          </div>
+        )}
+
         {/* Message body */}
-        {(message.body || message.media_caption) && (
+        {!isDeletedPlaceholder && (message.body || message.media_caption) && (
           <div className="text-[14.2px] leading-[19px] whitespace-pre-wrap break-words">
             {message.body || message.media_caption}
           </div>
         )}
 
+        {/* Poll options with the current tally */}
+        {!isDeletedPlaceholder && message.poll_data && (
+          <div className="mt-1 space-y-1.5 min-w-[220px]">
+            {(message.poll_data.tally ?? message.poll_data.options.map((o) => ({ name: o.optionName, voters: [] }))).map(
+              (option) => {
+                const total = message.poll_data?.total_voters || 0;
+                const percent = total > 0 ? Math.round((option.voters.length / total) * 100) : 0;
+                return (
+                  <div key={option.name} title={option.voters.join(", ")}>
+                    <div className="flex items-center justify-between text-[13px]">
+                      <span className="break-words">{option.name}</span>
+                      <span className="ml-2 text-xs" style={{ color: "var(--text-secondary)" }}>
+                        {option.voters.length}
+                      </span>
+                    </div>
+                    <div className="h-1 rounded-full mt-0.5" style={{ backgroundColor: "rgba(0,0,0,0.08)" }}>
+                      <div
+                        className="h-1 rounded-full"
+                        style={{ width: `${percent}%`, backgroundColor: "var(--accent)" }}
+                      />
+                    </div>
+                  </div>
+                );
+              }
+            )}
+            <div className="text-[11px]" style={{ color: "var(--text-secondary)" }}>
+              {message.poll_data.total_voters || 0} voted
+            </div>
+          </div>
+        )}
+
+        {/* Previous versions of an edited message */}
+        {showHistory && edits && edits.length > 0 && (
+          <div className="mt-1 pt-1 border-t" style={{ borderColor: "rgba(0,0,0,0.08)" }}>
+            {edits.map((edit) => (
+              <div key={edit.id} className="text-xs mb-0.5" style={{ color: "var(--text-secondary)" }}>
+                <span className="line-through whitespace-pre-wrap break-words">{edit.previous_body || "[empty]"}</span>
+                <span className="ml-1 text-[10px]">{formatMessageTime(edit.edited_at)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Timestamp + starred */}
         <div className="flex items-center justify-end gap-1 mt-0.5 -mb-0.5">
+          {message.is_deleted && showDeletedOriginal && (
+            <span
+              className="text-[11px] italic"
+              style={{ color: "var(--text-secondary)" }}
+              title={message.deleted_at ? `Deleted ${new Date(message.deleted_at).toLocaleString()}` : "Deleted"}
+            >
+              deleted
+            </span>
+          )}
+          {message.is_edited && (
+            <button
+              onClick={toggleHistory}
+              className="text-[11px] italic"
+              style={{ color: "var(--text-secondary)" }}
+              title={message.edited_at ? `Edited ${new Date(message.edited_at).toLocaleString()}` : "Edited"}
+            >
+              edited
+            </button>
+          )}
           {message.is_starred && (
             <svg width="12" height="12" viewBox="0 0 24 24" fill="var(--text-secondary)">
               <path d="M12 17.27L18.18 21l-1.64-7.03L22 9.24l-7.19-.61L12 2 9.19 8.63 2 9.24l5.46 4.73L5.82 21z"/>
             </svg>
           )}
+          {message.newsletterPost?.view_count != null && (
+            <span
+              className="text-[11px]"
+              style={{ color: "var(--text-secondary)" }}
+              title={`${message.newsletterPost.view_count.toLocaleString()} views`}
+            >
+              {message.newsletterPost.view_count.toLocaleString()} views ·
+            </span>
+          )}
           <span className="text-[11px]" style={{ color: "var(--text-secondary)" }}>
             {formatMessageTime(message.timestamp)}
           </span>
           {isFromMe && (
-            <svg width="16" height="11" viewBox="0 0 16 11" fill="var(--text-secondary)">
+            <svg
+              width="16"
+              height="11"
+              viewBox="0 0 16 11"
+              fill={message.status === "read" || message.status === "played" ? "#53bdeb" : "var(--text-secondary)"}
+            >
+              <title>{message.status || "sent"}</title>
               <path d="M11.071.653a.457.457 0 00-.304-.102.493.493 0 00-.381.178l-6.19 7.636-2.011-2.095a.463.463 0 00-.659.003.467.467 0 00-.003.653l2.344 2.442a.469.469 0 00.681-.003l6.523-8.056a.438.438 0 000-.656z"/>
-              <path d="M14.757.653a.457.457 0 00-.305-.102.493.493 0 00-.38.178l-6.19 7.636-.672-.697-.006.007-.353-.367a.457.457 0 00-.66.003.467.467 0 00-.003.653l1.03 1.073a.469.469 0 00.68-.003l6.86-8.475a.438.438 0 000-.656z"/>
+              {message.status !== "sent" && message.status !== "pending" && (
+                <path d="M14.757.653a.457.457 0 00-.305-.102.493.493 0 00-.38.178l-6.19 7.636-.672-.697-.006.007-.353-.367a.457.457 0 00-.66.003.467.467 0 00-.003.653l1.03 1.073a.469.469 0 00.68-.003l6.86-8.475a.438.438 0 000-.656z"/>
+              )}
             </svg>
           )}
         </div>
@@ -162,12 +472,30 @@ function MessageBubble({
                 key={emoji}
                 className="inline-flex items-center gap-0.5 rounded-full px-1.5 py-0.5 text-xs"
                 style={{ backgroundColor: "rgba(0,0,0,0.06)" }}
+                title={users.map((u) => (u.sender_id === "me" ? "You" : u.sender_name || u.sender_id)).join(", ")}
               >
                 {emoji} {users.length > 1 && users.length}
               </span>
             ))}
           </div>
         )}
+
+        {/* Channel post reactions (counts only; channels do not say who reacted) */}
+        {message.newsletterPost && Object.keys(message.newsletterPost.reaction_counts).length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-1">
+            {Object.entries(message.newsletterPost.reaction_counts)
+              .sort(([, a], [, b]) => b - a)
+              .map(([emoji, count]) => (
+                <span
+                  key={emoji}
+                  className="inline-flex items-center gap-0.5 rounded-full px-1.5 py-0.5 text-xs"
+                  style={{ backgroundColor: "rgba(0,0,0,0.06)" }}
+                >
+                  {emoji} {count.toLocaleString()}
+                </span>
+              ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -177,14 +505,20 @@ export default function ChatView() {
   const searchParams = useSearchParams();
   const chatIdParam = searchParams.get("chatId");
   const chatId = chatIdParam ? parseInt(chatIdParam) : null;
+  const accountParam = searchParams.get("account");
+  const accountId = accountParam ? parseInt(accountParam) : null;
 
   const [chat, setChat] = useState<Chat | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
+  const [calls, setCalls] = useState<Call[]>([]);
+  const [groupEvents, setGroupEvents] = useState<GroupEvent[]>([]);
   const [loading, setLoading] = useState(false);
   const [loadingMore, setLoadingMore] = useState(false);
   const [page, setPage] = useState(1);
   const [hasMore, setHasMore] = useState(true);
   const [showMedia, setShowMedia] = useState(false);
+  const [showDeletedOriginal, setShowDeletedOriginal] = useState(false);
+  const deletedMode: DeletedMode = showDeletedOriginal ? "original" : "placeholder";
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
@@ -192,9 +526,11 @@ export default function ChatView() {
 
   // Load chat and messages when chatId changes
   useEffect(() => {
-    if (!chatId) {
+    if (!chatId || !accountId) {
       setChat(null);
       setMessages([]);
+      setCalls([]);
+      setGroupEvents([]);
       return;
     }
 
@@ -203,15 +539,30 @@ export default function ChatView() {
     setHasMore(true);
     initialScrollDone.current = false;
 
-    Promise.all([getChat(chatId), getChatMessages(chatId, 1, 100)])
+    Promise.all([getChat(accountId, chatId), getChatMessages(accountId, chatId, 1, 100, deletedMode)])
       .then(([chatData, messagesData]) => {
+        const more = messagesData.pagination.page < messagesData.pagination.totalPages;
         setChat(chatData);
         setMessages(messagesData.data.reverse());
-        setHasMore(messagesData.pagination.page < messagesData.pagination.totalPages);
+        setHasMore(more);
         setLoading(false);
+
+        // Calls older than the loaded messages come in with the pages that reach back to them
+        setCalls([]);
+        getChatCalls(accountId, chatId, more ? earliestTimestamp(messagesData.data) : undefined)
+          .then((res) => setCalls(res.data))
+          .catch(() => setCalls([]));
+
+        // Group membership and settings changes show up as system messages
+        setGroupEvents([]);
+        if (chatData.chat_type === "group") {
+          getChatEvents(accountId, chatId, more ? earliestTimestamp(messagesData.data) : undefined)
+            .then((res) => setGroupEvents(res.data))
+            .catch(() => setGroupEvents([]));
+        }
       })
       .catch(() => setLoading(false));
-  }, [chatId]);
+  }, [accountId, chatId, deletedMode]);
 
   // Auto-scroll to bottom on initial load
   useEffect(() => {
@@ -224,20 +575,36 @@ export default function ChatView() {
   // Load older messages when scrolling to top
   const handleScroll = useCallback(() => {
     const el = messagesContainerRef.current;
-    if (!el || loadingMore || !hasMore || !chatId) return;
+    if (!el || loadingMore || !hasMore || !chatId || !accountId) return;
 
     if (el.scrollTop < 100) {
       const prevHeight = el.scrollHeight;
       setLoadingMore(true);
       const nextPage = page + 1;
-      getChatMessages(chatId, nextPage, 100)
+      const loadedFrom = earliestTimestamp(messages);
+      getChatMessages(accountId, chatId, nextPage, 100, deletedMode)
         .then((res) => {
           const olderMessages = res.data.reverse();
+          const more = res.pagination.page < res.pagination.totalPages;
           setMessages((prev) => [...olderMessages, ...prev]);
           setPage(nextPage);
-          setHasMore(res.pagination.page < res.pagination.totalPages);
+          setHasMore(more);
           setLoadingMore(false);
 
+          getChatCalls(accountId, chatId, more ? earliestTimestamp(olderMessages) : undefined, loadedFrom)
+            .then((callsRes) =>
+              setCalls((prev) => [...callsRes.data.filter((c) => !prev.some((p) => p.id === c.id)), ...prev])
+            )
+            .catch(() => {});
+
+          if (chat?.chat_type === "group") {
+            getChatEvents(accountId, chatId, more ? earliestTimestamp(olderMessages) : undefined, loadedFrom)
+              .then((eventsRes) =>
+                setGroupEvents((prev) => [...eventsRes.data.filter((e) => !prev.some((p) => p.id === e.id)), ...prev])
+              )
+              .catch(() => {});
+          }
+
           // Maintain scroll position
           requestAnimationFrame(() => {
             if (el) {
@@ -247,10 +614,12 @@ export default function ChatView() {
         })
         .catch(() => setLoadingMore(false));
     }
-  }, [chatId, page, hasMore, loadingMore]);
+  }, [accountId, chatId, chat, page, hasMore, loadingMore, deletedMode, messages]);
+
+  const timeline = useMemo(() => buildTimeline(messages, calls, groupEvents), [messages, calls, groupEvents]);
 
   // No chat selected
-  if (!chatId) {
+  if (!chatId || !accountId) {
     return (
       <div className="flex-1 flex items-center justify-center">
         <div className="text-center">
@@ -317,6 +686,16 @@ export default function ChatView() {
             )}
           </div>
         </div>
+        <button
+          onClick={() => setShowDeletedOriginal(!showDeletedOriginal)}
+          className="p-2 rounded-full transition-colors"
+          style={{ color: showDeletedOriginal ? "var(--accent)" : "var(--text-secondary)" }}
+          title={showDeletedOriginal ? "Hide deleted message contents" : "Show deleted message contents"}
+        >
+          <svg width="24" height="24" viewBox="0 0 24 24" fill="currentColor">
+            <path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z"/>
+          </svg>
+        </button>
         <button
           onClick={() => setShowMedia(!showMedia)}
           className="p-2 rounded-full transition-colors"
@@ -332,7 +711,7 @@ export default function ChatView() {
       {/* Media gallery panel */}
       {showMedia && chatId && (
         <div className="border-b" style={{ borderColor: "var(--border-color)" }}>
-          <MediaGallery chatId={chatId} />
+          <MediaGallery accountId={accountId} chatId={chatId} />
         </div>
       )}
 
@@ -352,17 +731,17 @@ export default function ChatView() {
           </div>
         )}
 
-        {messages.length === 0 ? (
+        {timeline.length === 0 ? (
           <div className="flex items-center justify-center h-full">
             <p className="text-sm" style={{ color: "var(--text-secondary)" }}>No messages in this chat</p>
           </div>
         ) : (
-          messages.map((message, index) => {
-            const prevMessage = index > 0 ? messages[index - 1] : null;
-            const showDate = shouldShowDateSeparator(message, prevMessage);
+          timeline.map((item, index) => {
+            const prevItem = index > 0 ? timeline[index - 1] : null;
+            const showDate = shouldShowDateSeparator(item, prevItem);
 
             return (
-              <div key={message.id}>
+              <div key={timelineKey(item)}>
                 {showDate && (
                   <div className="flex justify-center my-3">
                     <span
@@ -373,14 +752,22 @@ export default function ChatView() {
                         boxShadow: "0 1px 0.5px rgba(0, 0, 0, 0.13)",
                       }}
                     >
-                      {formatDateSeparator(message.timestamp)}
+                      {formatDateSeparator(item.timestamp)}
                     </span>
                   </div>
                 )}
-                <MessageBubble
-                  message={message}
-                  isGroup={chat?.chat_type === "group"}
-                />
+                {item.kind === "call" ? (
+                  <CallEntry call={item.call} />
+                ) : item.kind === "event" ? (
+                  <GroupEventEntry event={item.event} />
+                ) : (
+                  <MessageBubble
+                    accountId={accountId}
+                    message={item.message}
+                    isGroup={chat?.chat_type === "group"}
+                    showDeletedOriginal={showDeletedOriginal}
+                  />
+                )}
               </div>
             );
           })
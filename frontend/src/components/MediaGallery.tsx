@@ -67,7 +67,7 @@ function LightboxModal({
   );
 }
 
-export default function MediaGallery({ chatId }: { chatId: number }) {
+export default function MediaGallery({ accountId, chatId }: { accountId: number; chatId: number }) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<MediaFilter>("all");
@@ -80,7 +80,7 @@ export default function MediaGallery({ chatId }: { chatId: number }) {
     setMessages([]);
     setPage(1);
 
-    getChatMessages(chatId, 1, 50)
+    getChatMessages(accountId, chatId, 1, 50)
       .then((res) => {
         const mediaMessages = res.data.filter((m) => m.has_media);
         setMessages(mediaMessages);
@@ -88,12 +88,12 @@ export default function MediaGallery({ chatId }: { chatId: number }) {
         setLoading(false);
       })
       .catch(() => setLoading(false));
-  }, [chatId]);
+  }, [accountId, chatId]);
 
   const loadMore = () => {
     if (!hasMore) return;
     const nextPage = page + 1;
-    getChatMessages(chatId, nextPage, 50)
+    getChatMessages(accountId, chatId, nextPage, 50)
       .then((res) => {
         const mediaMessages = res.data.filter((m) => m.has_media);
         setMessages((prev) => [...prev, ...mediaMessages]);
@@ -158,13 +158,29 @@ export default function MediaGallery({ chatId }: { chatId: number }) {
                   {isImage && message.media_url ? (
                     // eslint-disable-next-line @next/next/no-img-element
                     <img
-                      src={message.media_url}
+                      src={message.thumbnail_url || message.media_url}
                       alt={message.media_filename || "Image"}
+                      loading="lazy"
                       className="w-full h-full object-cover"
                     />
                   ) : isVideo && message.media_url ? (
-                    <div className="w-full h-full flex items-center justify-center">
-                      <svg width="32" height="32" viewBox="0 0 24 24" fill="var(--text-secondary)">
+                    <div className="relative w-full h-full flex items-center justify-center">
+                      {message.thumbnail_url && (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img
+                          src={message.thumbnail_url}
+                          alt={message.media_filename || "Video"}
+                          loading="lazy"
+                          className="absolute inset-0 w-full h-full object-cover"
+                        />
+                      )}
+                      <svg
+                        width="32"
+                        height="32"
+                        viewBox="0 0 24 24"
+                        fill={message.thumbnail_url ? "#ffffff" : "var(--text-secondary)"}
+                        className="relative"
+                      >
                         <path d="M8 5v14l11-7z"/>
                       </svg>
                     </div>
@@ -115,12 +115,23 @@ export default function SearchPanel({ results, query, loading }: SearchPanelProp
                 <span className="text-xs font-medium" style={{ color: "var(--accent)" }}>
                   {result.sender_name || "Unknown"}
                 </span>
-                <span className="text-[11px]" style={{ color: "var(--text-secondary)" }}>
+                <span className="flex items-center gap-1.5 text-[11px]" style={{ color: "var(--text-secondary)" }}>
+                  {result.found_in_image && (
+                    <span className="px-1.5 py-0.5 rounded text-[10px] uppercase font-semibold" style={{ background: "var(--bg-secondary)" }}>
+                      Found in image
+                    </span>
+                  )}
                   {formatTime(result.timestamp)}
                 </span>
               </div>
               <div className="text-sm leading-5" style={{ color: "var(--text-secondary)" }}>
-                {highlightText(result.body, query)}
+                {!result.body && result.transcript && (
+                  <svg width="12" height="12" viewBox="0 0 24 24" fill="currentColor" className="inline mr-1 -mt-0.5">
+                    <title>Voice note transcript</title>
+                    <path d="M12 14c1.66 0 3-1.34 3-3V5c0-1.66-1.34-3-3-3S9 3.34 9 5v6c0 1.66 1.34 3 3 3zm5.3-3c0 3-2.54 5.1-5.3 5.1S6.7 14 6.7 11H5c0 3.41 2.72 6.23 6 6.72V21h2v-3.28c3.28-.48 6-3.3 6-6.72h-1.7z"/>
+                  </svg>
+                )}
+                {highlightText(result.body || result.transcript || result.ocr_text || "", query)}
               </div>
             </div>
           ))}
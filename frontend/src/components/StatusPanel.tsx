@@ -0,0 +1,214 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { getStatusAuthors, getStatuses, type StatusAuthor, type StatusUpdate } from "@/lib/api";
+
+function formatPostedAt(dateStr: string): string {
+  const date = new Date(dateStr);
+  const now = new Date();
+  const diffDays = Math.floor((now.getTime() - date.getTime()) / (1000 * 60 * 60 * 24));
+  const time = date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+  if (diffDays === 0) return `Today ${time}`;
+  if (diffDays === 1) return `Yesterday ${time}`;
+  return `${date.toLocaleDateString([], { year: "numeric", month: "short", day: "numeric" })} ${time}`;
+}
+
+function hasExpired(status: StatusUpdate): boolean {
+  return new Date(status.expires_at).getTime() < new Date().getTime();
+}
+
+function authorLabel(author: Pick<StatusAuthor, "author_jid" | "author_name" | "is_from_me">): string {
+  if (author.is_from_me) return "My status";
+  return author.author_name || author.author_jid.split("@")[0];
+}
+
+function AuthorItem({ author, onClick }: { author: StatusAuthor; onClick: () => void }) {
+  const hasUnviewed = author.unviewed_count > 0;
+
+  return (
+    <div
+      className="flex items-center gap-3 px-4 py-3 cursor-pointer transition-colors"
+      onMouseEnter={(e) => (e.currentTarget.style.backgroundColor = "var(--bg-secondary)")}
+      onMouseLeave={(e) => (e.currentTarget.style.backgroundColor = "transparent")}
+      onClick={onClick}
+    >
+      <div
+        className="w-12 h-12 rounded-full flex items-center justify-center text-white text-lg font-semibold shrink-0"
+        style={{
+          backgroundColor: "#8696a0",
+          boxShadow: `0 0 0 2px var(--bg-primary), 0 0 0 4px ${hasUnviewed ? "var(--accent)" : "var(--border-color)"}`,
+        }}
+      >
+        {authorLabel(author).charAt(0).toUpperCase()}
+      </div>
+      <div className="flex-1 min-w-0 border-b py-1" style={{ borderColor: "var(--border-color)" }}>
+        <div className="flex justify-between items-center">
+          <span className="font-medium truncate text-[15px]" style={{ color: "var(--text-primary)" }}>
+            {authorLabel(author)}
+          </span>
+          {hasUnviewed && (
+            <span
+              className="text-xs text-white rounded-full min-w-[20px] h-5 flex items-center justify-center px-1.5 ml-2 shrink-0"
+              style={{ backgroundColor: "var(--accent)" }}
+            >
+              {author.unviewed_count}
+            </span>
+          )}
+        </div>
+        <div className="text-sm truncate mt-0.5" style={{ color: "var(--text-secondary)" }}>
+          {author.status_count} update{author.status_count !== 1 ? "s" : ""} · {formatPostedAt(author.last_posted_at)}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function StatusCard({ status }: { status: StatusUpdate }) {
+  const message = status.message;
+  const mediaUrl = message?.media_url || message?.thumbnail_url || null;
+  const mimetype = message?.media_mimetype || "";
+  const isExpired = hasExpired(status);
+
+  return (
+    <div className="px-4 py-3 border-b" style={{ borderColor: "var(--border-color)" }}>
+      {message?.is_deleted ? (
+        <div className="text-sm italic" style={{ color: "var(--text-secondary)" }}>This status was deleted</div>
+      ) : message?.media_url && mimetype.startsWith("video/") ? (
+        <video src={message.media_url} controls preload="none" className="w-full max-h-[320px] rounded" />
+      ) : mediaUrl && mimetype.startsWith("audio/") ? (
+        <audio controls preload="none" src={mediaUrl} className="w-full" />
+      ) : mediaUrl ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={mediaUrl} alt={status.caption || "Status"} className="w-full max-h-[320px] object-contain rounded" />
+      ) : !status.caption ? (
+        <div className="text-xs" style={{ color: "var(--text-secondary)" }}>[{status.status_type}]</div>
+      ) : null}
+
+      {status.caption && !message?.is_deleted && (
+        <div className="text-[14.2px] leading-[19px] whitespace-pre-wrap break-words mt-1" style={{ color: "var(--text-primary)" }}>
+          {status.caption}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 mt-1 text-[11px]" style={{ color: "var(--text-secondary)" }}>
+        <span>{formatPostedAt(status.posted_at)}</span>
+        {isExpired && <span>· expired</span>}
+        {!status.is_from_me && (
+          <span title={status.viewed_at ? `Viewed ${new Date(status.viewed_at).toLocaleString()}` : undefined}>
+            · {status.is_viewed ? "viewed" : "not viewed"}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function StatusPanel({ accountId }: { accountId: number }) {
+  const [authors, setAuthors] = useState<StatusAuthor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<StatusAuthor | null>(null);
+  const [statuses, setStatuses] = useState<StatusUpdate[]>([]);
+  const [loadingStatuses, setLoadingStatuses] = useState(false);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+
+  useEffect(() => {
+    getStatusAuthors(accountId)
+      .then((data) => {
+        setAuthors(data);
+        setLoading(false);
+      })
+      .catch(() => setLoading(false));
+  }, [accountId]);
+
+  const openAuthor = (author: StatusAuthor) => {
+    setSelected(author);
+    setStatuses([]);
+    setLoadingStatuses(true);
+    getStatuses(accountId, author.author_jid, 1)
+      .then((res) => {
+        setStatuses(res.data);
+        setPage(1);
+        setHasMore(res.pagination.page < res.pagination.totalPages);
+        setLoadingStatuses(false);
+      })
+      .catch(() => setLoadingStatuses(false));
+  };
+
+  const loadMore = () => {
+    if (!selected || !hasMore) return;
+    const nextPage = page + 1;
+    getStatuses(accountId, selected.author_jid, nextPage).then((res) => {
+      setStatuses((prev) => [...prev, ...res.data]);
+      setPage(nextPage);
+      setHasMore(res.pagination.page < res.pagination.totalPages);
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="w-8 h-8 border-2 rounded-full animate-spin" style={{ borderColor: "var(--border-color)", borderTopColor: "var(--accent)" }} />
+      </div>
+    );
+  }
+
+  if (selected) {
+    return (
+      <>
+        <div className="flex items-center gap-2 px-3 py-2 border-b" style={{ borderColor: "var(--border-color)" }}>
+          <button
+            onClick={() => setSelected(null)}
+            className="p-1 rounded-full"
+            style={{ color: "var(--text-secondary)" }}
+            title="Back"
+          >
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+              <path d="M20 11H7.83l5.59-5.59L12 4l-8 8 8 8 1.41-1.41L7.83 13H20v-2z"/>
+            </svg>
+          </button>
+          <span className="font-medium text-[15px] truncate" style={{ color: "var(--text-primary)" }}>
+            {authorLabel(selected)}
+          </span>
+        </div>
+        {loadingStatuses ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-6 h-6 border-2 rounded-full animate-spin" style={{ borderColor: "var(--border-color)", borderTopColor: "var(--accent)" }} />
+          </div>
+        ) : (
+          <>
+            {statuses.map((status) => (
+              <StatusCard key={status.id} status={status} />
+            ))}
+            {hasMore && (
+              <button
+                onClick={loadMore}
+                className="w-full py-3 text-sm"
+                style={{ color: "var(--accent)" }}
+              >
+                Load older updates
+              </button>
+            )}
+          </>
+        )}
+      </>
+    );
+  }
+
+  if (authors.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-sm" style={{ color: "var(--text-secondary)" }}>No status updates archived yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {authors.map((author) => (
+        <AuthorItem key={author.author_jid} author={author} onClick={() => openAuthor(author)} />
+      ))}
+    </>
+  );
+}
@@ -1,9 +1,25 @@
 const API_BASE = process.env.NEXT_PUBLIC_API_URL || '';
 
+export interface ChatLabel {
+  id: number;
+  label_id: string;
+  name: string | null;
+  // One of WhatsApp's 20 label colours (0-19)
+  color: number | null;
+}
+
+export interface Label extends ChatLabel {
+  predefined_id: string | null;
+  is_deleted: boolean;
+  deleted_at: string | null;
+  chat_count: number;
+  message_count: number;
+}
+
 export interface Chat {
   id: number;
   chat_id: string;
-  chat_type: 'private' | 'group' | 'broadcast';
+  chat_type: 'private' | 'group' | 'broadcast' | 'status' | 'newsletter';
   name: string | null;
   avatar_url: string | null;
   last_message_at: string | null;
@@ -13,6 +29,40 @@ export interface Chat {
   is_pinned: boolean;
   is_archived: boolean;
   participant_count: number | null;
+  labels?: ChatLabel[];
+}
+
+export interface MessageReaction {
+  sender_id: string;
+  sender_name: string | null;
+  timestamp: string;
+}
+
+export interface PollOptionTally {
+  name: string;
+  voters: string[];
+}
+
+export interface PollData {
+  name: string | null;
+  options: { optionName: string }[];
+  selectableOptionsCount: number | null;
+  tally?: PollOptionTally[];
+  total_voters?: number;
+  tallied_at?: string;
+}
+
+export interface MessageTranscript {
+  text: string | null;
+  language: string | null;
+}
+
+export interface NewsletterPost {
+  id: number;
+  server_id: string;
+  view_count: number | null;
+  reaction_counts: Record<string, number>;
+  stats_updated_at: string | null;
 }
 
 export interface Message {
@@ -29,11 +79,22 @@ export interface Message {
   media_filename: string | null;
   media_mimetype: string | null;
   media_caption: string | null;
+  thumbnail_url: string | null;
   timestamp: string;
   is_forwarded: boolean;
   is_starred: boolean;
+  status: "error" | "pending" | "sent" | "delivered" | "read" | "played" | null;
+  is_edited: boolean;
+  edited_at: string | null;
+  is_deleted: boolean;
+  deleted_at: string | null;
+  deleted_by: string | null;
+  deleted_reason: "revoke" | "delete_for_me" | "clear" | null;
   mentions: string[] | null;
-  reactions: Record<string, string[]> | null;
+  reactions: Record<string, MessageReaction[]> | null;
+  poll_data: PollData | null;
+  transcript?: MessageTranscript | null;
+  newsletterPost?: NewsletterPost | null;
   quotedMessage?: {
     id: number;
     body: string | null;
@@ -42,9 +103,29 @@ export interface Message {
   } | null;
 }
 
+// How the chat messages route returns deleted messages
+export type DeletedMode = "hide" | "placeholder" | "original";
+
+export interface MessageEdit {
+  id: number;
+  message_id: number;
+  previous_body: string | null;
+  new_body: string | null;
+  edited_at: string;
+}
+
+export interface MessageHistory {
+  message: Pick<Message, "id" | "body" | "is_edited" | "edited_at">;
+  edits: MessageEdit[];
+}
+
 export interface SearchResult {
   id: number;
-  body: string;
+  body: string | null;
+  transcript: string | null;
+  transcript_language: string | null;
+  ocr_text: string | null;
+  found_in_image: boolean;
   timestamp: string;
   chat_name: string;
   chat_type: string;
@@ -53,6 +134,63 @@ export interface SearchResult {
   chat_id: number;
 }
 
+export interface Call {
+  id: number;
+  call_id: string;
+  chat_id: number | null;
+  caller_jid: string | null;
+  group_jid: string | null;
+  is_group: boolean;
+  participants: string[];
+  direction: "incoming" | "outgoing";
+  media_type: "voice" | "video";
+  status: "ringing" | "ongoing" | "ended" | "missed" | "rejected";
+  started_at: string;
+  answered_at: string | null;
+  ended_at: string | null;
+  duration_seconds: number | null;
+}
+
+export interface StatusUpdate {
+  id: number;
+  message_id: number;
+  author_jid: string;
+  author_name: string | null;
+  is_from_me: boolean;
+  status_type: string;
+  caption: string | null;
+  posted_at: string;
+  expires_at: string;
+  is_viewed: boolean;
+  viewed_at: string | null;
+  message?: Pick<
+    Message,
+    "id" | "message_id" | "message_type" | "body" | "media_url" | "media_mimetype" |
+    "media_filename" | "thumbnail_url" | "is_deleted" | "deleted_at"
+  >;
+}
+
+export interface StatusAuthor {
+  author_jid: string;
+  author_name: string | null;
+  contact_id: number | null;
+  is_from_me: boolean;
+  status_count: number;
+  unviewed_count: number;
+  last_posted_at: string;
+}
+
+export interface Account {
+  id: number;
+  name: string;
+  display_name: string | null;
+  phone_jid: string | null;
+  lid_jid: string | null;
+  status: "disconnected" | "connecting" | "qr" | "open" | "logged_out";
+  is_enabled: boolean;
+  last_connected_at: string | null;
+}
+
 export interface PaginatedResponse<T> {
   data: T[];
   pagination: {
@@ -63,28 +201,114 @@ export interface PaginatedResponse<T> {
   };
 }
 
+export type GroupEventType =
+  | "add" | "join" | "remove" | "leave" | "promote" | "demote" | "modify"
+  | "subject" | "description" | "settings" | "invite_link" | "join_request";
+
+export interface GroupEvent {
+  id: number;
+  chat_id: number;
+  event_type: GroupEventType;
+  actor_jid: string | null;
+  actor_pn: string | null;
+  actor_name: string | null;
+  participant_jid: string | null;
+  participant_pn: string | null;
+  participant_name: string | null;
+  details: Record<string, unknown> | null;
+  occurred_at: string;
+}
+
 async function fetchApi<T>(path: string): Promise<T> {
   const res = await fetch(`${API_BASE}${path}`, { cache: 'no-store' });
   if (!res.ok) throw new Error(`API error: ${res.status}`);
   return res.json();
 }
 
-export async function getChats(page = 1, limit = 50, archived = false): Promise<PaginatedResponse<Chat>> {
-  return fetchApi(`/api/chats?page=${page}&limit=${limit}&archived=${archived}`);
+// Data routes are confined to one WhatsApp account
+function accountPath(accountId: number, path: string): string {
+  return `/api/accounts/${accountId}${path}`;
+}
+
+export async function getAccounts(): Promise<Account[]> {
+  const res = await fetchApi<{ data: Account[] }>(`/api/accounts`);
+  return res.data;
+}
+
+export async function getChats(
+  accountId: number,
+  page = 1,
+  limit = 50,
+  archived = false,
+  type?: Chat["chat_type"],
+  labelId?: number
+): Promise<PaginatedResponse<Chat>> {
+  const typeParam = type ? `&type=${type}` : "";
+  const labelParam = labelId ? `&label=${labelId}` : "";
+  return fetchApi(accountPath(accountId, `/chats?page=${page}&limit=${limit}&archived=${archived}${typeParam}${labelParam}`));
+}
+
+export async function getChat(accountId: number, id: number): Promise<Chat> {
+  return fetchApi(accountPath(accountId, `/chats/${id}`));
+}
+
+export async function getChatMessages(
+  accountId: number,
+  chatId: number,
+  page = 1,
+  limit = 100,
+  deleted: DeletedMode = "hide"
+): Promise<PaginatedResponse<Message>> {
+  return fetchApi(accountPath(accountId, `/chats/${chatId}/messages?page=${page}&limit=${limit}&deleted=${deleted}`));
+}
+
+export async function searchMessages(accountId: number, query: string, page = 1): Promise<PaginatedResponse<SearchResult>> {
+  return fetchApi(accountPath(accountId, `/search?q=${encodeURIComponent(query)}&page=${page}`));
+}
+
+export async function getMediaMessages(accountId: number, chatId: number, page = 1): Promise<PaginatedResponse<Message>> {
+  return fetchApi(accountPath(accountId, `/chats/${chatId}/messages?page=${page}&limit=50`));
+}
+
+export async function getChatEvents(
+  accountId: number,
+  chatId: number,
+  dateFrom?: string,
+  dateTo?: string
+): Promise<PaginatedResponse<GroupEvent>> {
+  const params = new URLSearchParams({ limit: "200" });
+  if (dateFrom) params.set("dateFrom", dateFrom);
+  if (dateTo) params.set("dateTo", dateTo);
+  return fetchApi(accountPath(accountId, `/chats/${chatId}/events?${params}`));
+}
+
+export async function getChatCalls(
+  accountId: number,
+  chatId: number,
+  dateFrom?: string,
+  dateTo?: string
+): Promise<PaginatedResponse<Call>> {
+  const params = new URLSearchParams({ chatId: String(chatId), limit: "100" });
+  if (dateFrom) params.set("dateFrom", dateFrom);
+  if (dateTo) params.set("dateTo", dateTo);
+  return fetchApi(accountPath(accountId, `/calls?${params}`));
 }
 
-export async function getChat(id: number): Promise<Chat> {
-  return fetchApi(`/api/chats/${id}`);
+export async function getLabels(accountId: number): Promise<Label[]> {
+  const res = await fetchApi<{ data: Label[] }>(accountPath(accountId, `/labels`));
+  return res.data;
 }
 
-export async function getChatMessages(chatId: number, page = 1, limit = 100): Promise<PaginatedResponse<Message>> {
-  return fetchApi(`/api/chats/${chatId}/messages?page=${page}&limit=${limit}`);
+export async function getStatusAuthors(accountId: number): Promise<StatusAuthor[]> {
+  const res = await fetchApi<{ data: StatusAuthor[] }>(accountPath(accountId, `/statuses/authors`));
+  return res.data;
 }
 
-export async function searchMessages(query: string, page = 1): Promise<PaginatedResponse<SearchResult>> {
-  return fetchApi(`/api/search?q=${encodeURIComponent(query)}&page=${page}`);
+export async function getStatuses(accountId: number, author: string, page = 1): Promise<PaginatedResponse<StatusUpdate>> {
+  return fetchApi(accountPath(accountId, `/statuses?author=${encodeURIComponent(author)}&page=${page}&limit=50`));
 }
 
-export async function getMediaMessages(chatId: number, page = 1): Promise<PaginatedResponse<Message>> {
-  return fetchApi(`/api/chats/${chatId}/messages?page=${page}&limit=50`);
+export async function getMessageHistory(accountId: number, messageId: number): Promise<MessageHistory> {
+  const res = await fetchApi<{ data: MessageHistory }>(accountPath(accountId, `/messages/${messageId}/history`));
+  return res.data;
 }
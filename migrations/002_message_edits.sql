@@ -0,0 +1,27 @@
+-- WhatsApp Logger Schema
+-- Version: 002_message_edits
+
+-- ============================================
+-- MESSAGE EDIT TRACKING
+-- ============================================
+ALTER TABLE messages ADD COLUMN is_edited BOOLEAN DEFAULT FALSE;
+ALTER TABLE messages ADD COLUMN edited_at TIMESTAMPTZ;
+
+-- ============================================
+-- MESSAGE EDITS TABLE (every prior version of an edited message)
+-- ============================================
+CREATE TABLE message_edits (
+  id BIGSERIAL PRIMARY KEY,
+  message_id BIGINT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  previous_body TEXT,
+  new_body TEXT,
+  edited_at TIMESTAMPTZ NOT NULL,
+  raw_data JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_message_edits_message ON message_edits(message_id, edited_at);
+
+CREATE TRIGGER trg_message_edits_updated_at BEFORE UPDATE ON message_edits
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,20 @@
+-- WhatsApp Logger Schema
+-- Version: 003_message_deletions
+
+-- ============================================
+-- MESSAGE DELETION TRACKING
+-- ============================================
+-- deleted_reason: 'revoke' (deleted for everyone), 'delete_for_me', 'clear' (chat cleared)
+ALTER TABLE messages ADD COLUMN deleted_at TIMESTAMPTZ;
+ALTER TABLE messages ADD COLUMN deleted_by VARCHAR(100);
+ALTER TABLE messages ADD COLUMN deleted_reason VARCHAR(20);
+ALTER TABLE messages ADD CONSTRAINT valid_deleted_reason
+  CHECK (deleted_reason IS NULL OR deleted_reason IN ('revoke', 'delete_for_me', 'clear'));
+
+CREATE INDEX idx_messages_deleted ON messages(chat_id, deleted_at) WHERE is_deleted = TRUE;
+
+-- ============================================
+-- CHAT DELETION TRACKING
+-- ============================================
+ALTER TABLE chats ADD COLUMN is_deleted BOOLEAN DEFAULT FALSE;
+ALTER TABLE chats ADD COLUMN deleted_at TIMESTAMPTZ;
@@ -0,0 +1,29 @@
+-- WhatsApp Logger Schema
+-- Version: 004_message_receipts
+
+-- ============================================
+-- MESSAGE RECEIPTS TABLE (per-recipient delivery/read receipts)
+-- ============================================
+CREATE TABLE message_receipts (
+  id BIGSERIAL PRIMARY KEY,
+  message_id BIGINT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  recipient_jid VARCHAR(100) NOT NULL,
+  delivered_at TIMESTAMPTZ,
+  read_at TIMESTAMPTZ,
+  played_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT unique_receipt_recipient UNIQUE (message_id, recipient_jid)
+);
+
+CREATE INDEX idx_message_receipts_message ON message_receipts(message_id);
+CREATE INDEX idx_message_receipts_recipient ON message_receipts(recipient_jid, read_at);
+
+CREATE TRIGGER trg_message_receipts_updated_at BEFORE UPDATE ON message_receipts
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- MESSAGE STATUS VALUES
+-- ============================================
+ALTER TABLE messages ADD CONSTRAINT valid_message_status
+  CHECK (status IS NULL OR status IN ('error', 'pending', 'sent', 'delivered', 'read', 'played'));
@@ -0,0 +1,23 @@
+-- WhatsApp Logger Schema
+-- Version: 005_poll_votes
+
+-- ============================================
+-- POLL VOTES TABLE (every decrypted vote, including changes of mind)
+-- ============================================
+CREATE TABLE poll_votes (
+  id BIGSERIAL PRIMARY KEY,
+  poll_message_id BIGINT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  vote_message_id VARCHAR(255) NOT NULL,
+  voter_jid VARCHAR(100) NOT NULL,
+  selected_options JSONB NOT NULL DEFAULT '[]',
+  selected_hashes JSONB NOT NULL DEFAULT '[]',
+  voted_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT unique_poll_vote_message UNIQUE (vote_message_id)
+);
+
+CREATE INDEX idx_poll_votes_poll_voter ON poll_votes(poll_message_id, voter_jid, voted_at DESC);
+
+CREATE TRIGGER trg_poll_votes_updated_at BEFORE UPDATE ON poll_votes
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
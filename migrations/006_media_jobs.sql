@@ -0,0 +1,27 @@
+-- WhatsApp Logger Schema
+-- Version: 006_media_jobs
+
+-- ============================================
+-- MEDIA JOBS TABLE (download/upload queue for message media)
+-- ============================================
+CREATE TABLE media_jobs (
+  id BIGSERIAL PRIMARY KEY,
+  message_id BIGINT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  attempts INT NOT NULL DEFAULT 0,
+  max_attempts INT NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT unique_media_job_message UNIQUE (message_id),
+  CONSTRAINT valid_media_job_status CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'skipped'))
+);
+
+CREATE INDEX idx_media_jobs_due ON media_jobs(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX idx_media_jobs_status ON media_jobs(status, updated_at DESC);
+
+CREATE TRIGGER trg_media_jobs_updated_at BEFORE UPDATE ON media_jobs
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,30 @@
+-- WhatsApp Logger Schema
+-- Version: 007_media_blobs
+
+-- ============================================
+-- MEDIA BLOBS TABLE (one stored object per unique file, keyed by SHA-256)
+-- ============================================
+CREATE TABLE media_blobs (
+  id BIGSERIAL PRIMARY KEY,
+  sha256 CHAR(64) NOT NULL,
+  storage_provider VARCHAR(50) NOT NULL,
+  storage_key TEXT NOT NULL,
+  storage_url TEXT,
+  mimetype VARCHAR(100),
+  size_bytes BIGINT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT unique_media_blob_sha256 UNIQUE (sha256)
+);
+
+CREATE INDEX idx_media_blobs_provider ON media_blobs(storage_provider);
+
+CREATE TRIGGER trg_media_blobs_updated_at BEFORE UPDATE ON media_blobs
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- MESSAGE MEDIA → BLOB
+-- ============================================
+ALTER TABLE message_media ADD COLUMN blob_id BIGINT REFERENCES media_blobs(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_media_blob ON message_media(blob_id);
@@ -0,0 +1,24 @@
+-- WhatsApp Logger Schema
+-- Version: 008_media_recoveries
+
+-- ============================================
+-- MEDIA RECOVERIES TABLE (re-upload requests for expired media)
+-- ============================================
+CREATE TABLE media_recoveries (
+  id BIGSERIAL PRIMARY KEY,
+  message_id BIGINT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL,
+  attempts INT NOT NULL DEFAULT 0,
+  last_error TEXT,
+  last_attempt_at TIMESTAMPTZ,
+  recovered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT unique_media_recovery_message UNIQUE (message_id),
+  CONSTRAINT valid_media_recovery_status CHECK (status IN ('recovered', 'gone', 'too_large', 'no_response', 'failed'))
+);
+
+CREATE INDEX idx_media_recoveries_status ON media_recoveries(status, updated_at DESC);
+
+CREATE TRIGGER trg_media_recoveries_updated_at BEFORE UPDATE ON media_recoveries
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,26 @@
+-- WhatsApp Logger Schema
+-- Version: 009_message_transcripts
+
+-- ============================================
+-- MESSAGE TRANSCRIPTS TABLE (speech-to-text for voice notes and audio)
+-- ============================================
+CREATE TABLE message_transcripts (
+  id BIGSERIAL PRIMARY KEY,
+  message_id BIGINT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  media_id BIGINT REFERENCES message_media(id) ON DELETE SET NULL,
+  status VARCHAR(20) NOT NULL,
+  provider VARCHAR(50) NOT NULL,
+  language VARCHAR(20),
+  text TEXT,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT unique_message_transcript UNIQUE (message_id),
+  CONSTRAINT valid_transcript_status CHECK (status IN ('completed', 'failed'))
+);
+
+CREATE INDEX idx_message_transcripts_status ON message_transcripts(status);
+CREATE INDEX idx_message_transcripts_fts ON message_transcripts USING GIN(to_tsvector('english', COALESCE(text, '')));
+
+CREATE TRIGGER trg_message_transcripts_updated_at BEFORE UPDATE ON message_transcripts
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,16 @@
+-- WhatsApp Logger Schema
+-- Version: 010_media_ocr
+
+-- ============================================
+-- MESSAGE MEDIA OCR (text extracted from images and scanned PDFs)
+-- ============================================
+ALTER TABLE message_media ADD COLUMN ocr_status VARCHAR(20);
+ALTER TABLE message_media ADD COLUMN ocr_engine VARCHAR(50);
+ALTER TABLE message_media ADD COLUMN ocr_text TEXT;
+ALTER TABLE message_media ADD COLUMN ocr_error TEXT;
+ALTER TABLE message_media ADD COLUMN ocr_at TIMESTAMPTZ;
+
+ALTER TABLE message_media ADD CONSTRAINT valid_media_ocr_status
+  CHECK (ocr_status IS NULL OR ocr_status IN ('completed', 'failed', 'skipped'));
+
+CREATE INDEX idx_media_ocr_fts ON message_media USING GIN(to_tsvector('english', COALESCE(ocr_text, '')));
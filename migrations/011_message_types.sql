@@ -0,0 +1,18 @@
+-- WhatsApp Logger Schema
+-- Version: 011_message_types
+
+-- ============================================
+-- EXTENDED MESSAGE TYPES
+-- ============================================
+-- Voice notes (ptt) and video notes (ptv) are told apart from other audio/video,
+-- and events, pins, interactive replies, payments etc. no longer fall through to 'unknown'.
+-- Existing rows keep their old type until `pnpm reclassify-messages` is run.
+ALTER TABLE messages DROP CONSTRAINT valid_message_type;
+
+ALTER TABLE messages ADD CONSTRAINT valid_message_type CHECK (message_type IN (
+  'chat', 'image', 'video', 'ptv', 'audio', 'ptt', 'document', 'sticker',
+  'location', 'contact', 'poll', 'event', 'pin', 'keep', 'call', 'group_invite',
+  'buttons', 'buttons_response', 'list', 'list_response', 'template', 'template_response',
+  'interactive', 'interactive_response', 'product', 'order', 'payment', 'comment',
+  'system', 'reaction', 'protocol', 'revoke', 'unknown'
+));
@@ -0,0 +1,35 @@
+-- WhatsApp Logger Schema
+-- Version: 012_calls
+
+-- ============================================
+-- CALLS TABLE (voice and video calls, folded from Baileys call events)
+-- ============================================
+CREATE TABLE calls (
+  id BIGSERIAL PRIMARY KEY,
+  call_id VARCHAR(255) NOT NULL,
+  chat_id BIGINT REFERENCES chats(id) ON DELETE SET NULL,
+  caller_jid VARCHAR(255),
+  group_jid VARCHAR(255),
+  is_group BOOLEAN NOT NULL DEFAULT FALSE,
+  participants JSONB NOT NULL DEFAULT '[]',
+  direction VARCHAR(10) NOT NULL,
+  media_type VARCHAR(10) NOT NULL DEFAULT 'voice',
+  status VARCHAR(20) NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL,
+  answered_at TIMESTAMPTZ,
+  ended_at TIMESTAMPTZ,
+  duration_seconds INT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT unique_call_id UNIQUE (call_id),
+  CONSTRAINT valid_call_direction CHECK (direction IN ('incoming', 'outgoing')),
+  CONSTRAINT valid_call_media_type CHECK (media_type IN ('voice', 'video')),
+  CONSTRAINT valid_call_status CHECK (status IN ('ringing', 'ongoing', 'ended', 'missed', 'rejected'))
+);
+
+CREATE INDEX idx_calls_chat ON calls(chat_id, started_at DESC);
+CREATE INDEX idx_calls_caller ON calls(caller_jid, started_at DESC);
+CREATE INDEX idx_calls_status ON calls(status, started_at DESC);
+
+CREATE TRIGGER trg_calls_updated_at BEFORE UPDATE ON calls
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
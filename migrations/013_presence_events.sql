@@ -0,0 +1,19 @@
+-- WhatsApp Logger Schema
+-- Version: 013_presence_events
+
+-- ============================================
+-- PRESENCE EVENTS TABLE (online/typing transitions for tracked chats)
+-- Rows are append-only and only written when a contact's presence changes,
+-- so there are no created_at/updated_at columns.
+-- ============================================
+CREATE TABLE presence_events (
+  id BIGSERIAL PRIMARY KEY,
+  jid VARCHAR(255) NOT NULL,
+  chat_jid VARCHAR(255) NOT NULL,
+  presence VARCHAR(12) NOT NULL,
+  observed_at TIMESTAMPTZ NOT NULL,
+  CONSTRAINT valid_presence CHECK (presence IN ('available', 'unavailable', 'composing', 'recording', 'paused'))
+);
+
+CREATE INDEX idx_presence_events_jid ON presence_events(jid, observed_at);
+CREATE INDEX idx_presence_events_observed ON presence_events(observed_at);
@@ -0,0 +1,55 @@
+-- WhatsApp Logger Schema
+-- Version: 014_statuses
+
+-- ============================================
+-- STATUS CHAT TYPE
+-- status@broadcast holds every contact's status updates; it is not a conversation
+-- and is kept out of the chat list.
+-- ============================================
+ALTER TABLE chats DROP CONSTRAINT valid_chat_type;
+ALTER TABLE chats ADD CONSTRAINT valid_chat_type CHECK (chat_type IN ('private', 'group', 'broadcast', 'status'));
+
+UPDATE chats SET chat_type = 'status' WHERE chat_id = 'status@broadcast';
+
+-- ============================================
+-- STATUSES TABLE (WhatsApp Status updates, one per status message)
+-- Media stays on the backing message and goes through the normal media pipeline.
+-- ============================================
+CREATE TABLE statuses (
+  id BIGSERIAL PRIMARY KEY,
+  message_id BIGINT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  author_jid VARCHAR(255) NOT NULL,
+  author_name VARCHAR(255),
+  is_from_me BOOLEAN NOT NULL DEFAULT FALSE,
+  status_type VARCHAR(30) NOT NULL,
+  caption TEXT,
+  posted_at TIMESTAMPTZ NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  is_viewed BOOLEAN NOT NULL DEFAULT FALSE,
+  viewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT unique_status_message UNIQUE (message_id)
+);
+
+CREATE INDEX idx_statuses_author ON statuses(author_jid, posted_at DESC);
+CREATE INDEX idx_statuses_posted ON statuses(posted_at DESC);
+
+CREATE TRIGGER trg_statuses_updated_at BEFORE UPDATE ON statuses
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Status messages already archived as chat messages
+INSERT INTO statuses (message_id, author_jid, author_name, is_from_me, status_type, caption, posted_at, expires_at)
+SELECT
+  m.id,
+  CASE WHEN m.is_from_me THEN 'me' ELSE m.sender_id END,
+  m.sender_name,
+  m.is_from_me,
+  m.message_type,
+  m.body,
+  m.timestamp,
+  m.timestamp + INTERVAL '24 hours'
+FROM messages m
+JOIN chats c ON c.id = m.chat_id
+WHERE c.chat_id = 'status@broadcast'
+ON CONFLICT (message_id) DO NOTHING;
@@ -0,0 +1,44 @@
+-- WhatsApp Logger Schema
+-- Version: 015_newsletters
+
+-- ============================================
+-- NEWSLETTER CHAT TYPE (WhatsApp Channels, JIDs ending in @newsletter)
+-- ============================================
+ALTER TABLE chats DROP CONSTRAINT valid_chat_type;
+ALTER TABLE chats ADD CONSTRAINT valid_chat_type CHECK (chat_type IN ('private', 'group', 'broadcast', 'status', 'newsletter'));
+
+UPDATE chats SET chat_type = 'newsletter' WHERE chat_id LIKE '%@newsletter';
+
+-- ============================================
+-- NEWSLETTER POSTS TABLE (channel posts with their server id and current counts)
+-- ============================================
+CREATE TABLE newsletter_posts (
+  id BIGSERIAL PRIMARY KEY,
+  chat_id BIGINT NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  message_id BIGINT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  server_id VARCHAR(64) NOT NULL,
+  view_count INT,
+  reaction_counts JSONB NOT NULL DEFAULT '{}',
+  stats_updated_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT unique_newsletter_post_message UNIQUE (message_id),
+  CONSTRAINT unique_newsletter_post_server_id UNIQUE (chat_id, server_id)
+);
+
+CREATE TRIGGER trg_newsletter_posts_updated_at BEFORE UPDATE ON newsletter_posts
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- NEWSLETTER POST STATS TABLE (view and reaction counts over time)
+-- Append-only: a row is written each time a post's counts change.
+-- ============================================
+CREATE TABLE newsletter_post_stats (
+  id BIGSERIAL PRIMARY KEY,
+  post_id BIGINT NOT NULL REFERENCES newsletter_posts(id) ON DELETE CASCADE,
+  view_count INT,
+  reaction_counts JSONB NOT NULL DEFAULT '{}',
+  recorded_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX idx_newsletter_post_stats_post ON newsletter_post_stats(post_id, recorded_at);
@@ -0,0 +1,57 @@
+-- WhatsApp Logger Schema
+-- Version: 016_labels
+
+-- ============================================
+-- LABELS TABLE (WhatsApp Business labels, synced through app state)
+-- ============================================
+CREATE TABLE labels (
+  id BIGSERIAL PRIMARY KEY,
+  label_id VARCHAR(64) UNIQUE NOT NULL,
+  name VARCHAR(255),
+  color INT,
+  predefined_id VARCHAR(16),
+  is_deleted BOOLEAN DEFAULT FALSE,
+  deleted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TRIGGER trg_labels_updated_at BEFORE UPDATE ON labels
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- CHAT LABELS TABLE (labels applied to chats)
+-- ============================================
+CREATE TABLE chat_labels (
+  id BIGSERIAL PRIMARY KEY,
+  chat_id BIGINT NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  label_id BIGINT NOT NULL REFERENCES labels(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT unique_chat_label UNIQUE (chat_id, label_id)
+);
+
+CREATE INDEX idx_chat_labels_label ON chat_labels(label_id);
+
+CREATE TRIGGER trg_chat_labels_updated_at BEFORE UPDATE ON chat_labels
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- MESSAGE LABELS TABLE (labels applied to single messages)
+-- Keyed by the WhatsApp message id: associations are synced with app state and
+-- often arrive before the message itself.
+-- ============================================
+CREATE TABLE message_labels (
+  id BIGSERIAL PRIMARY KEY,
+  label_id BIGINT NOT NULL REFERENCES labels(id) ON DELETE CASCADE,
+  chat_jid VARCHAR(255) NOT NULL,
+  message_key VARCHAR(255) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT unique_message_label UNIQUE (label_id, chat_jid, message_key)
+);
+
+CREATE INDEX idx_message_labels_message ON message_labels(message_key);
+
+CREATE TRIGGER trg_message_labels_updated_at BEFORE UPDATE ON message_labels
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,26 @@
+-- WhatsApp Logger Schema
+-- Version: 017_group_events
+
+-- ============================================
+-- GROUP EVENTS TABLE (membership and settings changes, with who made them)
+-- Append-only audit log: rows are never updated, so there are no
+-- created_at/updated_at columns.
+-- ============================================
+CREATE TABLE group_events (
+  id BIGSERIAL PRIMARY KEY,
+  chat_id BIGINT NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  event_type VARCHAR(20) NOT NULL,
+  actor_jid VARCHAR(255),
+  actor_pn VARCHAR(255),
+  participant_jid VARCHAR(255),
+  participant_pn VARCHAR(255),
+  details JSONB,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  CONSTRAINT valid_group_event_type CHECK (event_type IN (
+    'add', 'join', 'remove', 'leave', 'promote', 'demote', 'modify',
+    'subject', 'description', 'settings', 'invite_link', 'join_request'
+  ))
+);
+
+CREATE INDEX idx_group_events_chat ON group_events(chat_id, occurred_at);
+CREATE INDEX idx_group_events_participant ON group_events(participant_jid) WHERE participant_jid IS NOT NULL;
@@ -0,0 +1,48 @@
+-- WhatsApp Logger Schema
+-- Version: 018_contact_identities
+
+-- ============================================
+-- CONTACT IDENTITIES TABLE (every JID a person is known by)
+-- WhatsApp addresses the same user by phone number (@s.whatsapp.net) or by LID (@lid).
+-- Each contact is one person; all of their JIDs, normalized without device suffix,
+-- point at it. contacts.contact_id holds the canonical JID (the phone number when known).
+-- ============================================
+CREATE TABLE contact_identities (
+  id BIGSERIAL PRIMARY KEY,
+  contact_id BIGINT NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  jid VARCHAR(100) UNIQUE NOT NULL,
+  kind VARCHAR(10) NOT NULL,
+  source VARCHAR(30),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT valid_identity_kind CHECK (kind IN ('pn', 'lid'))
+);
+
+CREATE INDEX idx_contact_identities_contact ON contact_identities(contact_id);
+
+CREATE TRIGGER trg_contact_identities_updated_at BEFORE UPDATE ON contact_identities
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- BACKFILL
+-- Each existing contact becomes the owner of its own JID. Where device variants of one JID
+-- exist as separate contacts, the one stored without a device suffix wins; the rest are
+-- folded in by `pnpm merge-contacts`.
+-- ============================================
+INSERT INTO contact_identities (contact_id, jid, kind, source)
+SELECT DISTINCT ON (jid) id, jid, kind, 'contact'
+FROM (
+  SELECT
+    id,
+    contact_id,
+    regexp_replace(contact_id, '(_[0-9]+)?(:[0-9]+)?@', '@') AS jid,
+    CASE WHEN contact_id LIKE '%@lid' THEN 'lid' ELSE 'pn' END AS kind
+  FROM contacts
+  WHERE contact_id LIKE '%@s.whatsapp.net' OR contact_id LIKE '%@lid'
+) AS normalized
+ORDER BY jid, (contact_id = jid) DESC, id
+ON CONFLICT (jid) DO NOTHING;
+
+UPDATE contacts
+SET phone_number = split_part(regexp_replace(contact_id, '(_[0-9]+)?(:[0-9]+)?@', '@'), '@', 1)
+WHERE contact_id LIKE '%@s.whatsapp.net' AND phone_number IS NULL;
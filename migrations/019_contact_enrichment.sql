@@ -0,0 +1,24 @@
+-- WhatsApp Logger Schema
+-- Version: 019_contact_enrichment
+
+-- ============================================
+-- CONTACT ENRICHMENT (when each profile field was last fetched from WhatsApp)
+-- A refresh that finds nothing (no about text, no visible picture, not a business) still
+-- counts, so the field is not asked for again until it is due.
+-- ============================================
+ALTER TABLE contacts
+  ADD COLUMN about_set_at TIMESTAMPTZ,
+  ADD COLUMN about_refreshed_at TIMESTAMPTZ,
+  ADD COLUMN avatar_refreshed_at TIMESTAMPTZ,
+  ADD COLUMN business_profile_refreshed_at TIMESTAMPTZ;
+
+CREATE INDEX idx_contacts_enrichment ON contacts (
+  LEAST(
+    COALESCE(about_refreshed_at, 'epoch'),
+    COALESCE(avatar_refreshed_at, 'epoch'),
+    COALESCE(business_profile_refreshed_at, 'epoch')
+  )
+);
+
+-- Phone numbers are stored in E.164 form, with the leading +
+UPDATE contacts SET phone_number = '+' || phone_number WHERE phone_number ~ '^[0-9]+$';
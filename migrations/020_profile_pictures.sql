@@ -0,0 +1,42 @@
+-- WhatsApp Logger Schema
+-- Version: 020_profile_pictures
+
+-- ============================================
+-- PROFILE PICTURES TABLE (every picture a contact or group has had)
+-- The file is stored as a media blob; first_seen_at is when we first saw the picture and
+-- replaced_at when it was changed or removed. At most one picture per owner is current.
+-- ============================================
+CREATE TABLE profile_pictures (
+  id BIGSERIAL PRIMARY KEY,
+  contact_id BIGINT REFERENCES contacts(id) ON DELETE CASCADE,
+  chat_id BIGINT REFERENCES chats(id) ON DELETE CASCADE,
+  jid VARCHAR(255) NOT NULL,
+  blob_id BIGINT NOT NULL REFERENCES media_blobs(id),
+  is_current BOOLEAN NOT NULL DEFAULT TRUE,
+  first_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  replaced_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT profile_picture_owner CHECK ((contact_id IS NULL) <> (chat_id IS NULL))
+);
+
+CREATE INDEX idx_profile_pictures_contact ON profile_pictures(contact_id, first_seen_at DESC) WHERE contact_id IS NOT NULL;
+CREATE INDEX idx_profile_pictures_chat ON profile_pictures(chat_id, first_seen_at DESC) WHERE chat_id IS NOT NULL;
+CREATE UNIQUE INDEX unique_current_contact_picture ON profile_pictures(contact_id) WHERE is_current AND contact_id IS NOT NULL;
+CREATE UNIQUE INDEX unique_current_chat_picture ON profile_pictures(chat_id) WHERE is_current AND chat_id IS NOT NULL;
+
+CREATE TRIGGER trg_profile_pictures_updated_at BEFORE UPDATE ON profile_pictures
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- AVATAR URLS
+-- avatar_url now points at our stored copy. WhatsApp URLs saved before (and the 'changed'
+-- markers contacts.update used to leave there) are dropped so the pictures are fetched again.
+-- ============================================
+ALTER TABLE chats ADD COLUMN avatar_refreshed_at TIMESTAMPTZ;
+
+UPDATE contacts SET avatar_url = NULL, avatar_refreshed_at = NULL
+WHERE avatar_url IS NOT NULL AND avatar_url NOT LIKE '/api/%';
+
+UPDATE chats SET avatar_url = NULL
+WHERE avatar_url IS NOT NULL AND avatar_url NOT LIKE '/api/%';
@@ -0,0 +1,98 @@
+-- WhatsApp Logger Schema
+-- Version: 021_accounts
+
+-- ============================================
+-- ACCOUNTS TABLE (each linked WhatsApp number)
+-- One server can archive several numbers. Each has its own session and connection, and
+-- everything archived from it carries its account_id. name is a short slug used in API paths.
+-- ============================================
+CREATE TABLE accounts (
+  id BIGSERIAL PRIMARY KEY,
+  name VARCHAR(64) UNIQUE NOT NULL,
+  display_name VARCHAR(255),
+  phone_jid VARCHAR(100),
+  lid_jid VARCHAR(100),
+  status VARCHAR(20) NOT NULL DEFAULT 'disconnected',
+  is_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  last_connected_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT valid_account_name CHECK (name ~ '^[a-z0-9][a-z0-9_-]{0,63}$'),
+  CONSTRAINT valid_account_status CHECK (status IN ('disconnected', 'connecting', 'qr', 'open', 'logged_out'))
+);
+
+CREATE TRIGGER trg_accounts_updated_at BEFORE UPDATE ON accounts
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- The number archived so far keeps its session directory (WHATSAPP_SESSION_DIR)
+INSERT INTO accounts (name, display_name) VALUES ('default', 'Default');
+
+-- ============================================
+-- ACCOUNT_ID COLUMNS
+-- Added to the tables rows are looked up in by WhatsApp ID; the rest hang off one of them.
+-- Existing rows belong to the default account.
+-- ============================================
+ALTER TABLE chats ADD COLUMN account_id BIGINT REFERENCES accounts(id) ON DELETE CASCADE;
+ALTER TABLE contacts ADD COLUMN account_id BIGINT REFERENCES accounts(id) ON DELETE CASCADE;
+ALTER TABLE contact_identities ADD COLUMN account_id BIGINT REFERENCES accounts(id) ON DELETE CASCADE;
+ALTER TABLE messages ADD COLUMN account_id BIGINT REFERENCES accounts(id) ON DELETE CASCADE;
+ALTER TABLE message_media ADD COLUMN account_id BIGINT REFERENCES accounts(id) ON DELETE CASCADE;
+ALTER TABLE media_jobs ADD COLUMN account_id BIGINT REFERENCES accounts(id) ON DELETE CASCADE;
+ALTER TABLE calls ADD COLUMN account_id BIGINT REFERENCES accounts(id) ON DELETE CASCADE;
+ALTER TABLE labels ADD COLUMN account_id BIGINT REFERENCES accounts(id) ON DELETE CASCADE;
+ALTER TABLE presence_events ADD COLUMN account_id BIGINT REFERENCES accounts(id) ON DELETE CASCADE;
+ALTER TABLE statuses ADD COLUMN account_id BIGINT REFERENCES accounts(id) ON DELETE CASCADE;
+
+UPDATE chats SET account_id = (SELECT id FROM accounts WHERE name = 'default');
+UPDATE contacts SET account_id = (SELECT id FROM accounts WHERE name = 'default');
+UPDATE contact_identities SET account_id = (SELECT id FROM accounts WHERE name = 'default');
+UPDATE messages SET account_id = (SELECT id FROM accounts WHERE name = 'default');
+UPDATE message_media SET account_id = (SELECT id FROM accounts WHERE name = 'default');
+UPDATE media_jobs SET account_id = (SELECT id FROM accounts WHERE name = 'default');
+UPDATE calls SET account_id = (SELECT id FROM accounts WHERE name = 'default');
+UPDATE labels SET account_id = (SELECT id FROM accounts WHERE name = 'default');
+UPDATE presence_events SET account_id = (SELECT id FROM accounts WHERE name = 'default');
+UPDATE statuses SET account_id = (SELECT id FROM accounts WHERE name = 'default');
+
+ALTER TABLE chats ALTER COLUMN account_id SET NOT NULL;
+ALTER TABLE contacts ALTER COLUMN account_id SET NOT NULL;
+ALTER TABLE contact_identities ALTER COLUMN account_id SET NOT NULL;
+ALTER TABLE messages ALTER COLUMN account_id SET NOT NULL;
+ALTER TABLE message_media ALTER COLUMN account_id SET NOT NULL;
+ALTER TABLE media_jobs ALTER COLUMN account_id SET NOT NULL;
+ALTER TABLE calls ALTER COLUMN account_id SET NOT NULL;
+ALTER TABLE labels ALTER COLUMN account_id SET NOT NULL;
+ALTER TABLE presence_events ALTER COLUMN account_id SET NOT NULL;
+ALTER TABLE statuses ALTER COLUMN account_id SET NOT NULL;
+
+-- ============================================
+-- UNIQUE KEYS
+-- WhatsApp IDs are unique within an account only: two of our numbers in the same group
+-- both receive its messages, and both have a contact for each other member.
+-- ============================================
+ALTER TABLE chats DROP CONSTRAINT chats_chat_id_key;
+ALTER TABLE chats ADD CONSTRAINT unique_chat_account UNIQUE (account_id, chat_id);
+
+ALTER TABLE contacts DROP CONSTRAINT contacts_contact_id_key;
+ALTER TABLE contacts ADD CONSTRAINT unique_contact_account UNIQUE (account_id, contact_id);
+
+ALTER TABLE contact_identities DROP CONSTRAINT contact_identities_jid_key;
+ALTER TABLE contact_identities ADD CONSTRAINT unique_identity_account UNIQUE (account_id, jid);
+
+ALTER TABLE messages DROP CONSTRAINT messages_message_id_key;
+ALTER TABLE messages ADD CONSTRAINT unique_message_account UNIQUE (account_id, message_id);
+
+ALTER TABLE calls DROP CONSTRAINT unique_call_id;
+ALTER TABLE calls ADD CONSTRAINT unique_call_account UNIQUE (account_id, call_id);
+
+ALTER TABLE labels DROP CONSTRAINT labels_label_id_key;
+ALTER TABLE labels ADD CONSTRAINT unique_label_account UNIQUE (account_id, label_id);
+
+-- A vote is stored once per poll, and each account has its own copy of the poll
+ALTER TABLE poll_votes DROP CONSTRAINT unique_poll_vote_message;
+ALTER TABLE poll_votes ADD CONSTRAINT unique_poll_vote_message UNIQUE (poll_message_id, vote_message_id);
+
+CREATE INDEX idx_message_media_account ON message_media(account_id);
+CREATE INDEX idx_media_jobs_account ON media_jobs(account_id, status);
+CREATE INDEX idx_presence_events_account ON presence_events(account_id, jid, observed_at);
+CREATE INDEX idx_statuses_account ON statuses(account_id, posted_at DESC);
@@ -0,0 +1,23 @@
+-- WhatsApp Logger Schema
+-- Version: 022_auth_keys
+
+-- ============================================
+-- AUTH KEYS TABLE (Baileys session of each account)
+-- The credentials (category 'creds') and every signal key Baileys stores: pre-keys, sessions,
+-- sender keys, app state sync keys and so on. data is the key serialized as JSON, or its
+-- AES-256-GCM ciphertext when is_encrypted. Losing these rows means linking the number again.
+-- ============================================
+CREATE TABLE auth_keys (
+  id BIGSERIAL PRIMARY KEY,
+  account_id BIGINT NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  category VARCHAR(64) NOT NULL,
+  key_id VARCHAR(512) NOT NULL,
+  data TEXT NOT NULL,
+  is_encrypted BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT unique_auth_key UNIQUE (account_id, category, key_id)
+);
+
+CREATE TRIGGER trg_auth_keys_updated_at BEFORE UPDATE ON auth_keys
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -15,9 +15,11 @@ else
   echo "Database created."
 fi
 
-# Run migration
-echo "Running migration..."
-psql -U "$DB_USER" -d "$DB_NAME" -f "$(dirname "$0")/../migrations/001_initial_schema.sql"
+# Run migrations in order
+for migration in "$(dirname "$0")"/../migrations/*.sql; do
+  echo "Running migration $(basename "$migration")..."
+  psql -U "$DB_USER" -d "$DB_NAME" -f "$migration"
+done
 
 echo ""
 echo "Verifying tables..."
@@ -0,0 +1,175 @@
+import express from 'express';
+import type { Request, Response, Router as RouterType } from 'express';
+import QRCode from 'qrcode';
+import { Account } from '../../models/index.js';
+import { ACCOUNT_NAME_PATTERN } from '../../models/Account.js';
+import whatsappService from '../../services/whatsapp.service.js';
+
+const router: RouterType = express.Router();
+
+/**
+ * An account with its live connection state in place of the last one recorded.
+ */
+function withState(account: Account) {
+  const { status, own_jids } = whatsappService.getState(account.id);
+  return { ...account.toJSON(), status, own_jids };
+}
+
+// GET / — list accounts with their connection state
+router.get('/', async (_req: Request, res: Response) => {
+  try {
+    const accounts = await Account.findAll({ order: [['id', 'ASC']] });
+    res.json({ data: accounts.map(withState) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch accounts', message: String(error) });
+  }
+});
+
+// POST / — add an account ({ name, display_name }) and start linking it; scan GET /:id/qr to finish
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+    const displayName = typeof req.body?.display_name === 'string' ? req.body.display_name.trim() || null : null;
+
+    if (!ACCOUNT_NAME_PATTERN.test(name)) {
+      res.status(400).json({
+        error: 'name must be 1-64 lowercase letters, digits, - or _, starting with a letter or digit',
+      });
+      return;
+    }
+
+    if (await Account.findOne({ where: { name } })) {
+      res.status(409).json({ error: 'An account with this name already exists' });
+      return;
+    }
+
+    const account = await Account.create({ name, display_name: displayName });
+    await whatsappService.connect(account);
+
+    res.status(201).json({ data: withState(account) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to create account', message: String(error) });
+  }
+});
+
+// GET /:id — get a single account by id or name
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const account = await whatsappService.findAccount(id);
+
+    if (!account) {
+      res.status(404).json({ error: 'Account not found' });
+      return;
+    }
+
+    res.json({ data: withState(account) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch account', message: String(error) });
+  }
+});
+
+// PATCH /:id — rename an account ({ display_name }) or enable / disable it ({ is_enabled }).
+// Disabling disconnects it and keeps it offline across restarts; enabling connects it again.
+router.patch('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const account = await whatsappService.findAccount(id);
+
+    if (!account) {
+      res.status(404).json({ error: 'Account not found' });
+      return;
+    }
+
+    const fields: { display_name?: string | null; is_enabled?: boolean } = {};
+    if (req.body?.display_name !== undefined) {
+      fields.display_name = req.body.display_name ? String(req.body.display_name).trim() : null;
+    }
+    if (req.body?.is_enabled !== undefined) {
+      if (typeof req.body.is_enabled !== 'boolean') {
+        res.status(400).json({ error: 'is_enabled must be a boolean' });
+        return;
+      }
+      fields.is_enabled = req.body.is_enabled;
+    }
+
+    const wasEnabled = account.is_enabled;
+    await account.update(fields);
+
+    if (wasEnabled && !account.is_enabled) {
+      await whatsappService.disconnect(account.id);
+    } else if (!wasEnabled && account.is_enabled) {
+      await whatsappService.connect(account);
+    }
+
+    res.json({ data: withState(account) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update account', message: String(error) });
+  }
+});
+
+// POST /:id/connect — connect an enabled account
+router.post('/:id/connect', async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const account = await whatsappService.findAccount(id);
+
+    if (!account) {
+      res.status(404).json({ error: 'Account not found' });
+      return;
+    }
+
+    if (!account.is_enabled) {
+      res.status(409).json({ error: 'Account is disabled' });
+      return;
+    }
+
+    await whatsappService.connect(account);
+    res.status(202).json({ data: withState(account) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to connect account', message: String(error) });
+  }
+});
+
+// POST /:id/disconnect — close the account's connection until it is connected again or the server restarts
+router.post('/:id/disconnect', async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const account = await whatsappService.findAccount(id);
+
+    if (!account) {
+      res.status(404).json({ error: 'Account not found' });
+      return;
+    }
+
+    await whatsappService.disconnect(account.id);
+    res.json({ data: withState(account) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to disconnect account', message: String(error) });
+  }
+});
+
+// GET /:id/qr — the QR code to scan with WhatsApp > Linked devices, as text and as a PNG data URL
+router.get('/:id/qr', async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const account = await whatsappService.findAccount(id);
+
+    if (!account) {
+      res.status(404).json({ error: 'Account not found' });
+      return;
+    }
+
+    const { qr } = whatsappService.getState(account.id);
+    if (!qr) {
+      res.status(404).json({ error: 'No QR code pending for this account' });
+      return;
+    }
+
+    res.json({ data: { qr, image: await QRCode.toDataURL(qr, { width: 600 }) } });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch QR code', message: String(error) });
+  }
+});
+
+export default router;
@@ -0,0 +1,119 @@
+import express from 'express';
+import type { NextFunction, Request, Response, Router as RouterType } from 'express';
+import { QueryTypes } from 'sequelize';
+import { sequelize } from '../../models/index.js';
+import groupSync from '../../services/group-sync.service.js';
+import contactEnrichment from '../../services/contact-enrichment.service.js';
+import { currentAccountId } from '../../utils/account-context.js';
+
+const router: RouterType = express.Router();
+
+// Group syncs and enrichment passes run on one account's connection
+function requireAccount(_req: Request, res: Response, next: NextFunction): void {
+  if (currentAccountId() === null) {
+    res.status(400).json({ error: 'Use /api/accounts/:accountId/admin/... to pick an account' });
+    return;
+  }
+  next();
+}
+
+interface MediaStatsRow {
+  blobs: string;
+  stored_bytes: string;
+  reference_count: string;
+  referenced_bytes: string;
+  legacy_files: string;
+  legacy_bytes: string;
+}
+
+// GET /stats — storage usage and how much content-addressed deduplication saves. Stored files
+// are shared between accounts; references only count the account's own messages
+router.get('/stats', async (_req: Request, res: Response) => {
+  try {
+    const [row] = await sequelize.query<MediaStatsRow>(
+      `
+        SELECT
+          (SELECT COUNT(*) FROM media_blobs) AS blobs,
+          (SELECT COALESCE(SUM(size_bytes), 0) FROM media_blobs) AS stored_bytes,
+          COUNT(*) FILTER (WHERE blob_id IS NOT NULL) AS reference_count,
+          COALESCE(SUM(size_bytes) FILTER (WHERE blob_id IS NOT NULL), 0) AS referenced_bytes,
+          COUNT(*) FILTER (WHERE blob_id IS NULL) AS legacy_files,
+          COALESCE(SUM(size_bytes) FILTER (WHERE blob_id IS NULL), 0) AS legacy_bytes
+        FROM message_media
+        WHERE :accountId::bigint IS NULL OR account_id = :accountId
+      `,
+      { replacements: { accountId: currentAccountId() }, type: QueryTypes.SELECT }
+    );
+
+    const blobs = parseInt(row.blobs, 10);
+    const storedBytes = parseInt(row.stored_bytes, 10);
+    const references = parseInt(row.reference_count, 10);
+    const referencedBytes = parseInt(row.referenced_bytes, 10);
+
+    res.json({
+      data: {
+        media: {
+          unique_files: blobs,
+          stored_bytes: storedBytes,
+          references,
+          referenced_bytes: referencedBytes,
+          deduplicated_references: Math.max(0, references - blobs),
+          saved_bytes: Math.max(0, referencedBytes - storedBytes),
+          dedup_ratio: storedBytes > 0 ? Number((referencedBytes / storedBytes).toFixed(2)) : null,
+          // Files stored before deduplication, one object per message
+          legacy_files: parseInt(row.legacy_files, 10),
+          legacy_bytes: parseInt(row.legacy_bytes, 10),
+        },
+      },
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch stats', message: String(error) });
+  }
+});
+
+// GET /groups/sync — the current or most recent group reconciliation and what it changed
+router.get('/groups/sync', requireAccount, (_req: Request, res: Response) => {
+  res.json({ data: groupSync.getLastReport() });
+});
+
+// POST /groups/sync — reconcile every group we participate in now (also runs on each connect)
+router.post('/groups/sync', requireAccount, async (_req: Request, res: Response) => {
+  try {
+    const report = await groupSync.syncAll();
+    if (!report) {
+      res.status(409).json({ error: 'A group sync is already in progress' });
+      return;
+    }
+
+    res.json({ data: report });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to sync groups', message: String(error) });
+  }
+});
+
+// GET /contacts/enrichment — the current or most recent contact enrichment pass
+router.get('/contacts/enrichment', requireAccount, (_req: Request, res: Response) => {
+  res.json({ data: contactEnrichment.getLastReport() });
+});
+
+// POST /contacts/enrichment — run an enrichment pass now instead of waiting for the schedule
+router.post('/contacts/enrichment', requireAccount, async (_req: Request, res: Response) => {
+  try {
+    if (contactEnrichment.isActive()) {
+      res.status(409).json({ error: 'A contact enrichment pass is already in progress' });
+      return;
+    }
+
+    const report = await contactEnrichment.runPass();
+    if (!report) {
+      res.status(503).json({ error: 'WhatsApp is not connected' });
+      return;
+    }
+
+    res.json({ data: report });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to enrich contacts', message: String(error) });
+  }
+});
+
+export default router;
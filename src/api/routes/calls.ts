@@ -0,0 +1,122 @@
+import express from 'express';
+import type { Request, Response, Router as RouterType } from 'express';
+import { Op } from 'sequelize';
+import { Call, Chat } from '../../models/index.js';
+
+const router: RouterType = express.Router();
+
+const CALL_STATUSES = ['ringing', 'ongoing', 'ended', 'missed', 'rejected'];
+const CALL_DIRECTIONS = ['incoming', 'outgoing'];
+const CALL_MEDIA_TYPES = ['voice', 'video'];
+
+// GET / — list calls, newest first. Filters: ?chatId=, ?contact= (caller or participant JID),
+// ?status=, ?direction=, ?mediaType=, ?dateFrom=, ?dateTo=, and ?missed=true for incoming missed calls
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const page = Math.max(1, parseInt(String(req.query.page), 10) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt(String(req.query.limit), 10) || 50));
+    const chatId = req.query.chatId ? parseInt(String(req.query.chatId), 10) : undefined;
+    const contact = req.query.contact ? String(req.query.contact) : undefined;
+    const status = req.query.status ? String(req.query.status) : undefined;
+    const direction = req.query.direction ? String(req.query.direction) : undefined;
+    const mediaType = req.query.mediaType ? String(req.query.mediaType) : undefined;
+    const dateFrom = req.query.dateFrom ? String(req.query.dateFrom) : undefined;
+    const dateTo = req.query.dateTo ? String(req.query.dateTo) : undefined;
+    const missed = req.query.missed === 'true';
+    const offset = (page - 1) * limit;
+
+    if (status && !CALL_STATUSES.includes(status)) {
+      res.status(400).json({ error: `status must be one of: ${CALL_STATUSES.join(', ')}` });
+      return;
+    }
+
+    if (direction && !CALL_DIRECTIONS.includes(direction)) {
+      res.status(400).json({ error: `direction must be one of: ${CALL_DIRECTIONS.join(', ')}` });
+      return;
+    }
+
+    if (mediaType && !CALL_MEDIA_TYPES.includes(mediaType)) {
+      res.status(400).json({ error: `mediaType must be one of: ${CALL_MEDIA_TYPES.join(', ')}` });
+      return;
+    }
+
+    const where: Record<string, unknown> = {};
+
+    if (missed) {
+      where.status = 'missed';
+      where.direction = 'incoming';
+    }
+    if (status) where.status = status;
+    if (direction) where.direction = direction;
+    if (mediaType) where.media_type = mediaType;
+    if (chatId) where.chat_id = chatId;
+
+    if (contact) {
+      where[Op.or as unknown as string] = [
+        { caller_jid: contact },
+        { participants: { [Op.contains]: [contact] } },
+      ];
+    }
+
+    if (dateFrom) {
+      where.started_at = { ...((where.started_at as Record<string, unknown>) || {}), [Op.gte]: new Date(dateFrom) };
+    }
+
+    if (dateTo) {
+      where.started_at = { ...((where.started_at as Record<string, unknown>) || {}), [Op.lte]: new Date(dateTo) };
+    }
+
+    const { rows: data, count: total } = await Call.findAndCountAll({
+      where,
+      include: [
+        {
+          model: Chat,
+          as: 'chat',
+          attributes: ['id', 'chat_id', 'name', 'chat_type'],
+        },
+      ],
+      order: [['started_at', 'DESC']],
+      limit,
+      offset,
+    });
+
+    res.json({
+      data,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch calls', message: String(error) });
+  }
+});
+
+// GET /:id — get single call
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const call = await Call.findByPk(id, {
+      include: [
+        {
+          model: Chat,
+          as: 'chat',
+          attributes: ['id', 'chat_id', 'name', 'chat_type'],
+        },
+      ],
+    });
+
+    if (!call) {
+      res.status(404).json({ error: 'Call not found' });
+      return;
+    }
+
+    res.json({ data: call });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch call', message: String(error) });
+  }
+});
+
+export default router;
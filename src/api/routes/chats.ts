@@ -1,29 +1,115 @@
 import express from 'express';
 import type { Request, Response, Router as RouterType } from 'express';
 import { Op } from 'sequelize';
-import { Chat, Message, GroupMetadata, GroupParticipant } from '../../models/index.js';
+import { GROUP_EVENT_TYPES } from '../../models/GroupEvent.js';
+import {
+  Chat,
+  ChatLabel,
+  Contact,
+  ContactIdentity,
+  GroupEvent,
+  Message,
+  MessageLabel,
+  MessageTranscript,
+  NewsletterPost,
+  GroupMetadata,
+  GroupParticipant,
+  Label,
+} from '../../models/index.js';
+import identityService from '../../services/identity.service.js';
+import profilePictures from '../../services/profile-picture.service.js';
+import { runWithAccount } from '../../utils/account-context.js';
 
 const router: RouterType = express.Router();
 
-// GET / — list chats
+const CHAT_LIST_TYPES = ['private', 'group', 'broadcast', 'newsletter'];
+
+// Labels shown with each chat (deleted labels are kept for the archive but not shown)
+const LABEL_INCLUDE = {
+  model: Label,
+  as: 'labels',
+  attributes: ['id', 'label_id', 'name', 'color'],
+  where: { is_deleted: false },
+  through: { attributes: [] },
+  required: false,
+};
+
+type DeletedMode = 'hide' | 'placeholder' | 'original';
+
+/**
+ * Strips the archived content of a deleted message so only a placeholder remains.
+ */
+function redactDeleted(message: Message): Record<string, unknown> {
+  const json = message.toJSON() as Record<string, unknown>;
+
+  if (message.quotedMessage?.is_deleted) {
+    json.quotedMessage = {
+      ...(json.quotedMessage as Record<string, unknown>),
+      body: null,
+      media_caption: null,
+    };
+  }
+
+  if (!message.is_deleted) return json;
+
+  return {
+    ...json,
+    body: null,
+    media_url: null,
+    media_filename: null,
+    media_caption: null,
+    thumbnail_url: null,
+    poll_data: null,
+    transcript: null,
+    location_data: null,
+    contact_data: null,
+    raw_data: null,
+  };
+}
+
+// GET / — list chats. Channels are listed apart: ?type=newsletter lists them, and the default list leaves them out.
+// ?label= (label id) lists only chats carrying that label
 router.get('/', async (req: Request, res: Response) => {
   try {
     const page = Math.max(1, parseInt(String(req.query.page), 10) || 1);
     const limit = Math.min(100, Math.max(1, parseInt(String(req.query.limit), 10) || 50));
     const archived = req.query.archived === 'true';
+    const deleted = req.query.deleted === 'true';
     const search = req.query.search ? String(req.query.search) : undefined;
+    const type = req.query.type ? String(req.query.type) : undefined;
+    const label = req.query.label ? parseInt(String(req.query.label), 10) : undefined;
     const offset = (page - 1) * limit;
 
+    if (type && !CHAT_LIST_TYPES.includes(type)) {
+      res.status(400).json({ error: `type must be one of: ${CHAT_LIST_TYPES.join(', ')}` });
+      return;
+    }
+
+    if (label !== undefined && Number.isNaN(label)) {
+      res.status(400).json({ error: 'label must be a label id' });
+      return;
+    }
+
+    // Status updates live under /api/statuses, not in the chat list
     const where: Record<string, unknown> = {
       is_archived: archived,
+      is_deleted: deleted,
+      chat_type: type || { [Op.notIn]: ['status', 'newsletter'] },
     };
 
     if (search) {
       where.name = { [Op.iLike]: `%${search}%` };
     }
 
+    if (label !== undefined) {
+      const labelled = await ChatLabel.findAll({ where: { label_id: label }, attributes: ['chat_id'] });
+      where.id = { [Op.in]: labelled.map((row) => row.chat_id) };
+    }
+
     const { rows: data, count: total } = await Chat.findAndCountAll({
       where,
+      include: [LABEL_INCLUDE],
+      distinct: true,
       order: [
         ['is_pinned', 'DESC'],
         ['last_message_at', 'DESC NULLS LAST'],
@@ -62,6 +148,7 @@ router.get('/:id', async (req: Request, res: Response) => {
             },
           ],
         },
+        LABEL_INCLUDE,
       ],
     });
 
@@ -76,7 +163,30 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
-// GET /:id/messages — get messages for a chat
+// GET /:id/pictures — every picture the group has had (the contact's for a direct chat), newest first
+router.get('/:id/pictures', async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const chat = await Chat.findByPk(id);
+
+    if (!chat) {
+      res.status(404).json({ error: 'Chat not found' });
+      return;
+    }
+
+    if (chat.chat_type === 'private') {
+      const contact = await runWithAccount(chat.account_id, () => identityService.resolve(chat.chat_id));
+      res.json({ data: contact ? await profilePictures.getHistory({ contact_id: contact.id }) : [] });
+      return;
+    }
+
+    res.json({ data: await profilePictures.getHistory({ chat_id: chat.id }) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch chat pictures', message: String(error) });
+  }
+});
+
+// GET /:id/messages — get messages for a chat (?label= for messages carrying that label)
 router.get('/:id/messages', async (req: Request, res: Response) => {
   try {
     const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
@@ -85,13 +195,27 @@ router.get('/:id/messages', async (req: Request, res: Response) => {
     const limit = Math.min(200, Math.max(1, parseInt(String(req.query.limit), 10) || 100));
     const before = req.query.before ? String(req.query.before) : undefined;
     const after = req.query.after ? String(req.query.after) : undefined;
+    const label = req.query.label ? parseInt(String(req.query.label), 10) : undefined;
+    // deleted=hide (default) omits deleted messages, placeholder returns them without content,
+    // original returns the archived content as it was before deletion
+    const deletedParam = String(req.query.deleted);
+    const deletedMode: DeletedMode =
+      deletedParam === 'placeholder' || deletedParam === 'original' ? deletedParam : 'hide';
     const offset = (page - 1) * limit;
 
+    if (label !== undefined && Number.isNaN(label)) {
+      res.status(400).json({ error: 'label must be a label id' });
+      return;
+    }
+
     const where: Record<string, unknown> = {
       chat_id: chatId,
-      is_deleted: false,
     };
 
+    if (deletedMode === 'hide') {
+      where.is_deleted = false;
+    }
+
     if (before) {
       where.timestamp = { ...((where.timestamp as Record<string, unknown>) || {}), [Op.lt]: new Date(before) };
     }
@@ -100,6 +224,11 @@ router.get('/:id/messages', async (req: Request, res: Response) => {
       where.timestamp = { ...((where.timestamp as Record<string, unknown>) || {}), [Op.gt]: new Date(after) };
     }
 
+    if (label !== undefined) {
+      const labelled = await MessageLabel.findAll({ where: { label_id: label }, attributes: ['message_key'] });
+      where.message_id = { [Op.in]: labelled.map((row) => row.message_key) };
+    }
+
     const { rows: data, count: total } = await Message.findAndCountAll({
       where,
       order: [['timestamp', 'ASC']],
@@ -111,11 +240,24 @@ router.get('/:id/messages', async (req: Request, res: Response) => {
           as: 'quotedMessage',
           required: false,
         },
+        {
+          model: MessageTranscript,
+          as: 'transcript',
+          attributes: ['text', 'language'],
+          where: { status: 'completed' },
+          required: false,
+        },
+        {
+          model: NewsletterPost,
+          as: 'newsletterPost',
+          attributes: ['id', 'server_id', 'view_count', 'reaction_counts', 'stats_updated_at'],
+          required: false,
+        },
       ],
     });
 
     res.json({
-      data,
+      data: deletedMode === 'placeholder' ? data.map(redactDeleted) : data,
       pagination: {
         page,
         limit,
@@ -128,4 +270,89 @@ router.get('/:id/messages', async (req: Request, res: Response) => {
   }
 });
 
+// GET /:id/events — a group's membership and settings log with who made each change, newest first.
+// Filters: ?type=, ?participant= (JID), ?dateFrom=, ?dateTo=
+router.get('/:id/events', async (req: Request, res: Response) => {
+  try {
+    const idParam = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const page = Math.max(1, parseInt(String(req.query.page), 10) || 1);
+    const limit = Math.min(200, Math.max(1, parseInt(String(req.query.limit), 10) || 100));
+    const type = req.query.type ? String(req.query.type) : undefined;
+    const participant = req.query.participant ? String(req.query.participant) : undefined;
+    const dateFrom = req.query.dateFrom ? String(req.query.dateFrom) : undefined;
+    const dateTo = req.query.dateTo ? String(req.query.dateTo) : undefined;
+    const offset = (page - 1) * limit;
+
+    if (type && !(GROUP_EVENT_TYPES as readonly string[]).includes(type)) {
+      res.status(400).json({ error: `type must be one of: ${GROUP_EVENT_TYPES.join(', ')}` });
+      return;
+    }
+
+    const chat = await Chat.findByPk(idParam, { attributes: ['id'] });
+    if (!chat) {
+      res.status(404).json({ error: 'Chat not found' });
+      return;
+    }
+
+    const where: Record<string, unknown> = { chat_id: chat.id };
+
+    if (type) where.event_type = type;
+
+    if (participant) {
+      where[Op.or as unknown as string] = [{ participant_jid: participant }, { participant_pn: participant }];
+    }
+
+    if (dateFrom) {
+      where.occurred_at = { ...((where.occurred_at as Record<string, unknown>) || {}), [Op.gte]: new Date(dateFrom) };
+    }
+
+    if (dateTo) {
+      where.occurred_at = { ...((where.occurred_at as Record<string, unknown>) || {}), [Op.lte]: new Date(dateTo) };
+    }
+
+    const { rows, count: total } = await GroupEvent.findAndCountAll({
+      where,
+      order: [['occurred_at', 'DESC'], ['id', 'DESC']],
+      limit,
+      offset,
+    });
+
+    // Names for the JIDs involved, from the contacts we know
+    const jids = new Set<string>();
+    for (const event of rows) {
+      for (const jid of [event.actor_jid, event.actor_pn, event.participant_jid, event.participant_pn]) {
+        if (jid) jids.add(jid);
+      }
+    }
+    const identities = jids.size > 0
+      ? await ContactIdentity.findAll({
+          where: { jid: [...jids] },
+          attributes: ['jid'],
+          include: [{ model: Contact, as: 'contact', attributes: ['name', 'nickname'] }],
+        })
+      : [];
+    const names = new Map(identities.map((i) => [i.jid, i.contact?.name || i.contact?.nickname || null]));
+    const nameOf = (...candidates: (string | null)[]) =>
+      candidates.map((jid) => (jid ? names.get(jid) : null)).find((name) => !!name) || null;
+
+    const data = rows.map((event) => ({
+      ...event.toJSON(),
+      actor_name: nameOf(event.actor_jid, event.actor_pn),
+      participant_name: nameOf(event.participant_jid, event.participant_pn),
+    }));
+
+    res.json({
+      data,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch group events', message: String(error) });
+  }
+});
+
 export default router;
@@ -1,10 +1,24 @@
 import express from 'express';
 import type { Request, Response, Router as RouterType } from 'express';
 import { Op } from 'sequelize';
-import { Contact } from '../../models/index.js';
+import { Chat, Contact, ContactIdentity, Message, PresenceEvent } from '../../models/index.js';
+import presenceTracker, { isValidTimeZone } from '../../services/presence-tracker.service.js';
+import identityService from '../../services/identity.service.js';
+import contactEnrichment from '../../services/contact-enrichment.service.js';
+import profilePictures from '../../services/profile-picture.service.js';
+import { isRateLimited } from '../../utils/wa-errors.js';
+import { runWithAccount } from '../../utils/account-context.js';
 
 const router: RouterType = express.Router();
 
+/**
+ * Contacts can be addressed by database id or by any JID the person is known by:
+ * phone number or LID, with or without a device suffix.
+ */
+async function findContact(id: string): Promise<Contact | null> {
+  return /^\d+$/.test(id) ? Contact.findByPk(id) : identityService.resolve(id);
+}
+
 // GET / — list contacts
 router.get('/', async (req: Request, res: Response) => {
   try {
@@ -43,21 +57,193 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
-// GET /:id — get single contact
+// GET /:id — get single contact, with every JID it is known by (id may be a JID)
 router.get('/:id', async (req: Request, res: Response) => {
   try {
     const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
-    const contact = await Contact.findByPk(id);
+    const found = await findContact(id);
 
-    if (!contact) {
+    if (!found) {
       res.status(404).json({ error: 'Contact not found' });
       return;
     }
 
+    const contact = await Contact.findByPk(found.id, {
+      include: [{ model: ContactIdentity, as: 'identities', attributes: ['jid', 'kind', 'source', 'created_at'] }],
+    });
+
     res.json({ data: contact });
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch contact', message: String(error) });
   }
 });
 
+// POST /:id/refresh — fetch the contact's about text, profile picture and business profile now
+router.post('/:id/refresh', async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const contact = await findContact(id);
+    if (!contact) {
+      res.status(404).json({ error: 'Contact not found' });
+      return;
+    }
+
+    // Looked up over the contact's own connection, also when reached through the unscoped routes
+    const result = await runWithAccount(contact.account_id, () => contactEnrichment.refresh(contact, { force: true }));
+    res.json({ data: contact, ...result });
+  } catch (error) {
+    if (isRateLimited(error)) {
+      res.status(429).json({ error: 'WhatsApp is rate-limiting lookups, try again later' });
+      return;
+    }
+    res.status(500).json({ error: 'Failed to refresh contact', message: String(error) });
+  }
+});
+
+// GET /:id/pictures — every profile picture the contact has had, newest first
+router.get('/:id/pictures', async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const contact = await findContact(id);
+    if (!contact) {
+      res.status(404).json({ error: 'Contact not found' });
+      return;
+    }
+
+    res.json({ data: await profilePictures.getHistory({ contact_id: contact.id }) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch contact pictures', message: String(error) });
+  }
+});
+
+// GET /:id/messages — messages the contact sent, in every chat and under every JID, newest first
+router.get('/:id/messages', async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const page = Math.max(1, parseInt(String(req.query.page), 10) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt(String(req.query.limit), 10) || 50));
+    const dateFrom = req.query.dateFrom ? String(req.query.dateFrom) : undefined;
+    const dateTo = req.query.dateTo ? String(req.query.dateTo) : undefined;
+    const offset = (page - 1) * limit;
+
+    const contact = await findContact(id);
+    if (!contact) {
+      res.status(404).json({ error: 'Contact not found' });
+      return;
+    }
+
+    const where: Record<string, unknown> = {
+      sender_id: await identityService.getJids(contact),
+      is_from_me: false,
+    };
+
+    if (dateFrom) {
+      where.timestamp = { ...((where.timestamp as Record<string, unknown>) || {}), [Op.gte]: new Date(dateFrom) };
+    }
+
+    if (dateTo) {
+      where.timestamp = { ...((where.timestamp as Record<string, unknown>) || {}), [Op.lte]: new Date(dateTo) };
+    }
+
+    const { rows: data, count: total } = await Message.findAndCountAll({
+      where,
+      include: [{ model: Chat, as: 'chat', attributes: ['id', 'chat_id', 'chat_type', 'name'] }],
+      order: [['timestamp', 'DESC'], ['id', 'DESC']],
+      limit,
+      offset,
+    });
+
+    res.json({
+      data,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch contact messages', message: String(error) });
+  }
+});
+
+// GET /:id/presence — the contact's recorded presence transitions, newest first (?dateFrom=, ?dateTo=)
+router.get('/:id/presence', async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const page = Math.max(1, parseInt(String(req.query.page), 10) || 1);
+    const limit = Math.min(500, Math.max(1, parseInt(String(req.query.limit), 10) || 100));
+    const dateFrom = req.query.dateFrom ? String(req.query.dateFrom) : undefined;
+    const dateTo = req.query.dateTo ? String(req.query.dateTo) : undefined;
+    const offset = (page - 1) * limit;
+
+    const contact = await findContact(id);
+    if (!contact) {
+      res.status(404).json({ error: 'Contact not found' });
+      return;
+    }
+
+    const where: Record<string, unknown> = { jid: await identityService.getJids(contact) };
+
+    if (dateFrom) {
+      where.observed_at = { ...((where.observed_at as Record<string, unknown>) || {}), [Op.gte]: new Date(dateFrom) };
+    }
+
+    if (dateTo) {
+      where.observed_at = { ...((where.observed_at as Record<string, unknown>) || {}), [Op.lte]: new Date(dateTo) };
+    }
+
+    const { rows: data, count: total } = await PresenceEvent.findAndCountAll({
+      where,
+      order: [['observed_at', 'DESC'], ['id', 'DESC']],
+      limit,
+      offset,
+    });
+
+    res.json({
+      data,
+      last_seen_at: contact.last_seen_at,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch presence', message: String(error) });
+  }
+});
+
+// GET /:id/presence/heatmap — minutes online and typing starts per weekday and hour (?days=, ?tz=)
+router.get('/:id/presence/heatmap', async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const days = req.query.days ? parseInt(String(req.query.days), 10) : undefined;
+    const timeZone = req.query.tz ? String(req.query.tz) : 'UTC';
+
+    if (days !== undefined && (!Number.isFinite(days) || days < 1)) {
+      res.status(400).json({ error: 'days must be a positive integer' });
+      return;
+    }
+
+    if (!isValidTimeZone(timeZone)) {
+      res.status(400).json({ error: `Unknown time zone: ${timeZone}` });
+      return;
+    }
+
+    const contact = await findContact(id);
+    if (!contact) {
+      res.status(404).json({ error: 'Contact not found' });
+      return;
+    }
+
+    const [jid, ...aliases] = await identityService.getJids(contact);
+    const data = await presenceTracker.getHeatmap(jid, { days, timeZone, aliases });
+    res.json({ data });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to build presence heatmap', message: String(error) });
+  }
+});
+
 export default router;
@@ -0,0 +1,33 @@
+import express from 'express';
+import type { Request, Response, Router as RouterType } from 'express';
+import { QueryTypes } from 'sequelize';
+import { sequelize } from '../../models/index.js';
+import { currentAccountId } from '../../utils/account-context.js';
+
+const router: RouterType = express.Router();
+
+// GET / — list labels with how many chats and messages carry each (?includeDeleted=true)
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const includeDeleted = req.query.includeDeleted === 'true';
+
+    const data = await sequelize.query(
+      `
+        SELECT l.id, l.label_id, l.name, l.color, l.predefined_id, l.is_deleted, l.deleted_at,
+               (SELECT COUNT(*)::int FROM chat_labels cl WHERE cl.label_id = l.id) AS chat_count,
+               (SELECT COUNT(*)::int FROM message_labels ml WHERE ml.label_id = l.id) AS message_count
+        FROM labels l
+        WHERE (:accountId::bigint IS NULL OR l.account_id = :accountId)
+        ${includeDeleted ? '' : 'AND NOT l.is_deleted'}
+        ORDER BY l.name ASC NULLS LAST, l.id ASC
+      `,
+      { replacements: { accountId: currentAccountId() }, type: QueryTypes.SELECT }
+    );
+
+    res.json({ data });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch labels', message: String(error) });
+  }
+});
+
+export default router;
@@ -0,0 +1,324 @@
+import express from 'express';
+import type { Request, Response, Router as RouterType } from 'express';
+import { MediaBlob, MediaJob, MediaRecovery, Message, MessageMedia, ProfilePicture, sequelize } from '../../models/index.js';
+import mediaQueue from '../../services/media-queue.service.js';
+import mediaRecovery from '../../services/media-recovery.service.js';
+import StorageService from '../../services/storage.service.js';
+import { getStorageDriver } from '../../storage/index.js';
+
+const router: RouterType = express.Router();
+
+const JOB_STATUSES = ['pending', 'processing', 'completed', 'failed', 'skipped'];
+const RECOVERY_STATUSES = ['recovered', 'gone', 'too_large', 'no_response', 'failed'];
+
+// GET /jobs — list media jobs, optionally filtered by ?status= (most recently updated first)
+router.get('/jobs', async (req: Request, res: Response) => {
+  try {
+    const page = Math.max(1, parseInt(String(req.query.page), 10) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt(String(req.query.limit), 10) || 50));
+    const status = req.query.status ? String(req.query.status) : undefined;
+    const offset = (page - 1) * limit;
+
+    if (status && !JOB_STATUSES.includes(status)) {
+      res.status(400).json({ error: `status must be one of: ${JOB_STATUSES.join(', ')}` });
+      return;
+    }
+
+    const { rows: data, count: total } = await MediaJob.findAndCountAll({
+      where: status ? { status } : {},
+      include: [
+        {
+          model: Message,
+          as: 'message',
+          attributes: ['id', 'message_id', 'chat_id', 'message_type', 'media_mimetype', 'media_filename', 'timestamp'],
+        },
+      ],
+      order: [['updated_at', 'DESC']],
+      limit,
+      offset,
+    });
+
+    res.json({
+      data,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch media jobs', message: String(error) });
+  }
+});
+
+// GET /jobs/stats — job counts per status
+router.get('/jobs/stats', async (_req: Request, res: Response) => {
+  try {
+    const rows = (await MediaJob.findAll({
+      attributes: ['status', [sequelize.fn('COUNT', sequelize.col('id')), 'count']],
+      group: ['status'],
+      raw: true,
+    })) as unknown as { status: string; count: string }[];
+
+    const data: Record<string, number> = Object.fromEntries(JOB_STATUSES.map((s) => [s, 0]));
+    for (const row of rows) {
+      data[row.status] = parseInt(row.count, 10);
+    }
+
+    res.json({ data });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch media job stats', message: String(error) });
+  }
+});
+
+// POST /jobs/retry-failed — requeue every permanently failed job
+router.post('/jobs/retry-failed', async (_req: Request, res: Response) => {
+  try {
+    const requeued = await mediaQueue.retryFailed();
+    res.json({ data: { requeued } });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to retry media jobs', message: String(error) });
+  }
+});
+
+// GET /jobs/:id — get a single media job
+router.get('/jobs/:id', async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const job = await MediaJob.findByPk(id, {
+      include: [{ model: Message, as: 'message' }],
+    });
+
+    if (!job) {
+      res.status(404).json({ error: 'Media job not found' });
+      return;
+    }
+
+    res.json({ data: job });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch media job', message: String(error) });
+  }
+});
+
+// POST /jobs/:id/retry — requeue a failed or skipped job
+router.post('/jobs/:id/retry', async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const job = await mediaQueue.retry(parseInt(id, 10));
+
+    if (job === null) {
+      res.status(404).json({ error: 'Media job not found' });
+      return;
+    }
+
+    if (job === false) {
+      res.status(409).json({ error: 'Only failed or skipped media jobs can be retried' });
+      return;
+    }
+
+    res.json({ data: job });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to retry media job', message: String(error) });
+  }
+});
+
+// GET /recovery — the current (or last) recovery run and outcome counts across all runs
+router.get('/recovery', async (_req: Request, res: Response) => {
+  try {
+    const rows = (await MediaRecovery.findAll({
+      attributes: ['status', [sequelize.fn('COUNT', sequelize.col('id')), 'count']],
+      group: ['status'],
+      raw: true,
+    })) as unknown as { status: string; count: string }[];
+
+    const totals: Record<string, number> = Object.fromEntries(RECOVERY_STATUSES.map((s) => [s, 0]));
+    for (const row of rows) {
+      totals[row.status] = parseInt(row.count, 10);
+    }
+
+    res.json({ data: { run: mediaRecovery.getStatus(), totals } });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch media recovery status', message: String(error) });
+  }
+});
+
+// POST /recovery/start — start recovering expired media; body: { limit?, chat_id? }
+router.post('/recovery/start', async (req: Request, res: Response) => {
+  try {
+    const limit = req.body?.limit !== undefined ? parseInt(String(req.body.limit), 10) : undefined;
+    const chatId = req.body?.chat_id !== undefined ? parseInt(String(req.body.chat_id), 10) : undefined;
+
+    if ((limit !== undefined && !(limit > 0)) || (chatId !== undefined && !(chatId > 0))) {
+      res.status(400).json({ error: 'limit and chat_id must be positive integers' });
+      return;
+    }
+
+    if (!mediaRecovery.start({ limit, chatId })) {
+      res.status(409).json({ error: 'A media recovery run is already in progress' });
+      return;
+    }
+
+    res.status(202).json({ data: mediaRecovery.getStatus() });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to start media recovery', message: String(error) });
+  }
+});
+
+// POST /recovery/stop — stop the running recovery after its current message
+router.post('/recovery/stop', async (_req: Request, res: Response) => {
+  try {
+    if (!mediaRecovery.stop()) {
+      res.status(409).json({ error: 'No media recovery run is in progress' });
+      return;
+    }
+
+    res.json({ data: mediaRecovery.getStatus() });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to stop media recovery', message: String(error) });
+  }
+});
+
+// GET /recovery/messages — per-message recovery outcomes, optionally filtered by ?status=
+router.get('/recovery/messages', async (req: Request, res: Response) => {
+  try {
+    const page = Math.max(1, parseInt(String(req.query.page), 10) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt(String(req.query.limit), 10) || 50));
+    const status = req.query.status ? String(req.query.status) : undefined;
+    const offset = (page - 1) * limit;
+
+    if (status && !RECOVERY_STATUSES.includes(status)) {
+      res.status(400).json({ error: `status must be one of: ${RECOVERY_STATUSES.join(', ')}` });
+      return;
+    }
+
+    const { rows: data, count: total } = await MediaRecovery.findAndCountAll({
+      where: status ? { status } : {},
+      include: [
+        {
+          model: Message,
+          as: 'message',
+          attributes: ['id', 'message_id', 'chat_id', 'message_type', 'media_mimetype', 'media_filename', 'media_url', 'timestamp'],
+        },
+      ],
+      order: [['updated_at', 'DESC']],
+      limit,
+      offset,
+    });
+
+    res.json({
+      data,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch media recoveries', message: String(error) });
+  }
+});
+
+/**
+ * Sends a stored object: redirects to a signed URL when the backend supports them,
+ * otherwise streams the file through the API.
+ */
+async function sendStoredObject(
+  res: Response,
+  storageProvider: string,
+  storageKey: string,
+  contentType: string,
+  sizeBytes: number | null
+): Promise<void> {
+  const signedUrl = await StorageService.getPresignedUrl(storageProvider, storageKey, 3600);
+  if (signedUrl) {
+    res.redirect(302, signedUrl);
+    return;
+  }
+
+  const stream = await getStorageDriver(storageProvider).createReadStream(storageKey);
+  res.setHeader('Content-Type', contentType);
+  if (sizeBytes) res.setHeader('Content-Length', String(sizeBytes));
+  res.setHeader('Cache-Control', 'private, max-age=86400');
+  stream.on('error', () => res.destroy());
+  stream.pipe(res);
+}
+
+// GET /:id/content — serve a stored media file from whichever backend holds it
+router.get('/:id/content', async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const media = await MessageMedia.findByPk(id);
+
+    if (!media) {
+      res.status(404).json({ error: 'Media not found' });
+      return;
+    }
+
+    await sendStoredObject(
+      res,
+      media.storage_provider,
+      media.storage_key,
+      media.mimetype || 'application/octet-stream',
+      media.size_bytes
+    );
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      res.status(404).json({ error: 'Media file not found in storage' });
+      return;
+    }
+    res.status(500).json({ error: 'Failed to fetch media content', message: String(error) });
+  }
+});
+
+// GET /:id/thumbnail — serve a media file's thumbnail
+router.get('/:id/thumbnail', async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const media = await MessageMedia.findByPk(id);
+    const thumbnailKey = media?.metadata?.thumbnail_key;
+
+    if (!media || typeof thumbnailKey !== 'string') {
+      res.status(404).json({ error: 'Thumbnail not found' });
+      return;
+    }
+
+    await sendStoredObject(res, media.storage_provider, thumbnailKey, 'image/jpeg', null);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      res.status(404).json({ error: 'Thumbnail file not found in storage' });
+      return;
+    }
+    res.status(500).json({ error: 'Failed to fetch thumbnail', message: String(error) });
+  }
+});
+
+// GET /profile-pictures/:id/content — serve a stored profile or group picture
+router.get('/profile-pictures/:id/content', async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const picture = await ProfilePicture.findByPk(id, { include: [{ model: MediaBlob, as: 'blob' }] });
+
+    if (!picture?.blob) {
+      res.status(404).json({ error: 'Profile picture not found' });
+      return;
+    }
+
+    await sendStoredObject(
+      res,
+      picture.blob.storage_provider,
+      picture.blob.storage_key,
+      picture.blob.mimetype || 'image/jpeg',
+      picture.blob.size_bytes
+    );
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      res.status(404).json({ error: 'Profile picture file not found in storage' });
+      return;
+    }
+    res.status(500).json({ error: 'Failed to fetch profile picture', message: String(error) });
+  }
+});
+
+export default router;
@@ -1,6 +1,16 @@
 import express from 'express';
 import type { Request, Response, Router as RouterType } from 'express';
-import { Message, Chat, MessageMedia } from '../../models/index.js';
+import {
+  Message,
+  Chat,
+  MessageMedia,
+  MessageEdit,
+  MessageReceipt,
+  MessageTranscript,
+  NewsletterPost,
+  NewsletterPostStat,
+  PollVote,
+} from '../../models/index.js';
 
 const router: RouterType = express.Router();
 
@@ -19,6 +29,16 @@ router.get('/:id', async (req: Request, res: Response) => {
           as: 'quotedMessage',
           required: false,
         },
+        {
+          model: MessageTranscript,
+          as: 'transcript',
+          required: false,
+        },
+        {
+          model: NewsletterPost,
+          as: 'newsletterPost',
+          required: false,
+        },
       ],
     });
 
@@ -47,4 +67,124 @@ router.get('/:id/media', async (req: Request, res: Response) => {
   }
 });
 
+// GET /:id/history — get edit history for a message (oldest first)
+router.get('/:id/history', async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const message = await Message.findByPk(id, {
+      attributes: ['id', 'body', 'is_edited', 'edited_at'],
+    });
+
+    if (!message) {
+      res.status(404).json({ error: 'Message not found' });
+      return;
+    }
+
+    const edits = await MessageEdit.findAll({
+      where: { message_id: message.id },
+      order: [['edited_at', 'ASC']],
+    });
+
+    res.json({ data: { message, edits } });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch message history', message: String(error) });
+  }
+});
+
+// GET /:id/votes — get every recorded vote for a poll, including changed votes (oldest first)
+router.get('/:id/votes', async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const poll = await Message.findByPk(id, {
+      attributes: ['id', 'message_type', 'poll_data'],
+    });
+
+    if (!poll) {
+      res.status(404).json({ error: 'Message not found' });
+      return;
+    }
+
+    const votes = await PollVote.findAll({
+      where: { poll_message_id: poll.id },
+      attributes: { exclude: ['selected_hashes'] },
+      order: [['voted_at', 'ASC'], ['id', 'ASC']],
+    });
+
+    res.json({ data: { poll, votes } });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch poll votes', message: String(error) });
+  }
+});
+
+/**
+ * Seconds between a message being sent and a receipt timestamp.
+ */
+function secondsSince(sentAt: Date, at: Date | null): number | null {
+  return at ? Math.round((at.getTime() - sentAt.getTime()) / 1000) : null;
+}
+
+// GET /:id/receipts — get per-recipient delivery/read receipts for a message
+router.get('/:id/receipts', async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const message = await Message.findByPk(id, {
+      attributes: ['id', 'message_id', 'chat_id', 'is_from_me', 'status', 'timestamp'],
+    });
+
+    if (!message) {
+      res.status(404).json({ error: 'Message not found' });
+      return;
+    }
+
+    const receipts = await MessageReceipt.findAll({
+      where: { message_id: message.id },
+      order: [['read_at', 'ASC NULLS LAST'], ['delivered_at', 'ASC NULLS LAST']],
+    });
+
+    const data = receipts.map((receipt) => ({
+      ...receipt.toJSON(),
+      delivery_latency_seconds: secondsSince(message.timestamp, receipt.delivered_at),
+      read_latency_seconds: secondsSince(message.timestamp, receipt.read_at),
+    }));
+
+    res.json({
+      data: {
+        message,
+        receipts: data,
+        summary: {
+          recipients: receipts.length,
+          delivered: receipts.filter((r) => r.delivered_at).length,
+          read: receipts.filter((r) => r.read_at).length,
+          played: receipts.filter((r) => r.played_at).length,
+        },
+      },
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch receipts', message: String(error) });
+  }
+});
+
+// GET /:id/post-stats — view and reaction counts of a channel post over time (oldest first)
+router.get('/:id/post-stats', async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const post = await NewsletterPost.findOne({ where: { message_id: id } });
+
+    if (!post) {
+      res.status(404).json({ error: 'Newsletter post not found' });
+      return;
+    }
+
+    const stats = await NewsletterPostStat.findAll({
+      where: { post_id: post.id },
+      attributes: ['view_count', 'reaction_counts', 'recorded_at'],
+      order: [['recorded_at', 'ASC']],
+    });
+
+    res.json({ data: { post, stats } });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch post stats', message: String(error) });
+  }
+});
+
 export default router;
@@ -0,0 +1,140 @@
+import express from 'express';
+import type { Request, Response, Router as RouterType } from 'express';
+import { Op, QueryTypes } from 'sequelize';
+import { Contact, Message, Status, sequelize } from '../../models/index.js';
+import identityService from '../../services/identity.service.js';
+import { currentAccountId } from '../../utils/account-context.js';
+
+const router: RouterType = express.Router();
+
+// What each status returns of its backing message (content and media)
+const MESSAGE_ATTRIBUTES = [
+  'id', 'message_id', 'message_type', 'body', 'media_url', 'media_mimetype',
+  'media_filename', 'thumbnail_url', 'is_deleted', 'deleted_at',
+];
+
+// GET / — list statuses, newest first. Filters: ?author= (JID, or 'me'), ?contactId=,
+// ?active=true (not yet expired), ?unviewed=true, ?dateFrom=, ?dateTo=
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const page = Math.max(1, parseInt(String(req.query.page), 10) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt(String(req.query.limit), 10) || 50));
+    const author = req.query.author ? String(req.query.author) : undefined;
+    const contactId = req.query.contactId ? String(req.query.contactId) : undefined;
+    const active = req.query.active === 'true';
+    const unviewed = req.query.unviewed === 'true';
+    const dateFrom = req.query.dateFrom ? String(req.query.dateFrom) : undefined;
+    const dateTo = req.query.dateTo ? String(req.query.dateTo) : undefined;
+    const offset = (page - 1) * limit;
+
+    const where: Record<string, unknown> = {};
+
+    if (author) where.author_jid = author;
+
+    if (contactId) {
+      const contact = await Contact.findByPk(contactId);
+      if (!contact) {
+        res.status(404).json({ error: 'Contact not found' });
+        return;
+      }
+      where.author_jid = await identityService.getJids(contact);
+    }
+
+    if (active) where.expires_at = { [Op.gt]: new Date() };
+    if (unviewed) {
+      where.is_viewed = false;
+      where.is_from_me = false;
+    }
+
+    if (dateFrom) {
+      where.posted_at = { ...((where.posted_at as Record<string, unknown>) || {}), [Op.gte]: new Date(dateFrom) };
+    }
+
+    if (dateTo) {
+      where.posted_at = { ...((where.posted_at as Record<string, unknown>) || {}), [Op.lte]: new Date(dateTo) };
+    }
+
+    const { rows: data, count: total } = await Status.findAndCountAll({
+      where,
+      include: [
+        {
+          model: Message,
+          as: 'message',
+          attributes: MESSAGE_ATTRIBUTES,
+        },
+      ],
+      order: [['posted_at', 'DESC']],
+      limit,
+      offset,
+    });
+
+    res.json({
+      data,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch statuses', message: String(error) });
+  }
+});
+
+// GET /authors — everyone who has posted a status, per account, most recent poster first (?active=true)
+router.get('/authors', async (req: Request, res: Response) => {
+  try {
+    const active = req.query.active === 'true';
+
+    const data = await sequelize.query(
+      `
+        SELECT s.account_id, s.author_jid,
+               COALESCE(MAX(c.name), MAX(s.author_name)) AS author_name,
+               MAX(c.id) AS contact_id,
+               BOOL_OR(s.is_from_me) AS is_from_me,
+               COUNT(*)::int AS status_count,
+               (COUNT(*) FILTER (WHERE NOT s.is_viewed AND NOT s.is_from_me))::int AS unviewed_count,
+               MAX(s.posted_at) AS last_posted_at
+        FROM statuses s
+        LEFT JOIN contacts c ON c.contact_id = s.author_jid AND c.account_id = s.account_id
+        WHERE (:accountId::bigint IS NULL OR s.account_id = :accountId)
+        ${active ? 'AND s.expires_at > NOW()' : ''}
+        GROUP BY s.account_id, s.author_jid
+        ORDER BY MAX(s.posted_at) DESC
+      `,
+      { replacements: { accountId: currentAccountId() }, type: QueryTypes.SELECT }
+    );
+
+    res.json({ data });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch status authors', message: String(error) });
+  }
+});
+
+// GET /:id — get single status
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+    const status = await Status.findByPk(id, {
+      include: [
+        {
+          model: Message,
+          as: 'message',
+          attributes: MESSAGE_ATTRIBUTES,
+        },
+      ],
+    });
+
+    if (!status) {
+      res.status(404).json({ error: 'Status not found' });
+      return;
+    }
+
+    res.json({ data: status });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch status', message: String(error) });
+  }
+});
+
+export default router;
@@ -8,6 +8,14 @@ import chatsRouter from './routes/chats.js';
 import messagesRouter from './routes/messages.js';
 import contactsRouter from './routes/contacts.js';
 import searchRouter from './routes/search.js';
+import mediaRouter from './routes/media.js';
+import adminRouter from './routes/admin.js';
+import callsRouter from './routes/calls.js';
+import statusesRouter from './routes/statuses.js';
+import labelsRouter from './routes/labels.js';
+import accountsRouter from './routes/accounts.js';
+import whatsappService from '../services/whatsapp.service.js';
+import { runWithAccount } from '../utils/account-context.js';
 
 const apiLogger = createChildLogger('api');
 
@@ -37,12 +45,42 @@ export function createServer(): Express {
     next();
   });
 
-  // Mount routes
+  // Mount routes. Under /api they cover every account; the same routes under
+  // /api/accounts/:accountId only see that account's archive
+  const dataRouters: [string, express.Router][] = [
+    ['/chats', chatsRouter],
+    ['/messages', messagesRouter],
+    ['/contacts', contactsRouter],
+    ['/search', searchRouter],
+    ['/media', mediaRouter],
+    ['/admin', adminRouter],
+    ['/calls', callsRouter],
+    ['/statuses', statusesRouter],
+    ['/labels', labelsRouter],
+  ];
+
+  const accountRouter = express.Router({ mergeParams: true });
+  accountRouter.use(async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const ref = Array.isArray(req.params.accountId) ? req.params.accountId[0] : req.params.accountId;
+      const account = await whatsappService.findAccount(ref);
+      if (!account) {
+        res.status(404).json({ error: 'Account not found' });
+        return;
+      }
+      runWithAccount(account.id, next);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   app.use('/api/health', healthRouter);
-  app.use('/api/chats', chatsRouter);
-  app.use('/api/messages', messagesRouter);
-  app.use('/api/contacts', contactsRouter);
-  app.use('/api/search', searchRouter);
+  app.use('/api/accounts', accountsRouter);
+  for (const [path, router] of dataRouters) {
+    app.use(`/api${path}`, router);
+    accountRouter.use(path, router);
+  }
+  app.use('/api/accounts/:accountId', accountRouter);
 
   // 404 handler
   app.use((_req: Request, res: Response) => {
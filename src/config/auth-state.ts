@@ -0,0 +1,8 @@
+/**
+ * Baileys session storage. Each account's credentials and signal keys live in the auth_keys
+ * table; sessions kept in auth_info directories are moved there with `pnpm import-auth-state`.
+ */
+
+// Secret the session is encrypted with at rest (AES-256-GCM). Unset, keys are stored as plain JSON.
+// Rows encrypted with it cannot be read without it, so keep it safe and never change it in place.
+export const AUTH_STATE_ENCRYPTION_KEY = process.env.AUTH_STATE_ENCRYPTION_KEY || '';
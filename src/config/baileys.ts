@@ -1,12 +1,22 @@
+import { existsSync } from 'fs';
+import { join } from 'path';
 import {
   fetchLatestBaileysVersion,
-  useMultiFileAuthState,
+  makeCacheableSignalKeyStore,
   type SocketConfig,
 } from '@whiskeysockets/baileys';
 import pino from 'pino';
+import type { Account } from '../models/Account.js';
+import authStateService from '../services/auth-state.service.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const log = createChildLogger('baileys-config');
 
 const DEFAULT_SESSION_DIR = './auth_info';
 
+// The account created by the accounts migration; it owns everything archived before it
+export const DEFAULT_ACCOUNT_NAME = 'default';
+
 /**
  * Creates Baileys socket configuration options.
  * Uses environment variables for session directory.
@@ -26,11 +36,36 @@ export async function createBaileysConfig(
 }
 
 /**
- * Creates the multi-file auth state for Baileys session persistence.
- * Session files are stored in the directory specified by WHATSAPP_SESSION_DIR env var.
+ * Returns the file-based session directory of an account, which `pnpm import-auth-state` reads.
+ * The default account uses WHATSAPP_SESSION_DIR itself; any other account gets a sibling
+ * directory suffixed with its name.
  */
-export async function createAuthState() {
-  const sessionDir = process.env.WHATSAPP_SESSION_DIR || DEFAULT_SESSION_DIR;
-  const { state, saveCreds } = await useMultiFileAuthState(sessionDir);
-  return { state, saveCreds };
+export function sessionDirFor(account: Account): string {
+  const baseDir = process.env.WHATSAPP_SESSION_DIR || DEFAULT_SESSION_DIR;
+  return account.name === DEFAULT_ACCOUNT_NAME ? baseDir : `${baseDir}-${account.name}`;
+}
+
+/**
+ * Creates the auth state for Baileys session persistence of one account, stored in Postgres.
+ * Signal keys are read on every message, so the hot ones are cached in memory.
+ */
+export async function createAuthState(account: Account) {
+  if (!(await authStateService.hasCreds(account.id))) {
+    const sessionDir = sessionDirFor(account);
+    if (existsSync(join(sessionDir, 'creds.json'))) {
+      log.warn(
+        { account: account.name, sessionDir },
+        'Found a file-based session but none in the database; run pnpm import-auth-state to keep it instead of linking again'
+      );
+    }
+  }
+
+  const { state, saveCreds } = await authStateService.load(account.id);
+  return {
+    state: {
+      creds: state.creds,
+      keys: makeCacheableSignalKeyStore(state.keys, pino({ level: 'silent' }) as unknown as SocketConfig['logger']),
+    },
+    saveCreds,
+  };
 }
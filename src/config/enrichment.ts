@@ -0,0 +1,18 @@
+/**
+ * Contact enrichment settings. Each pass asks WhatsApp for the about text, profile picture and
+ * business profile of the contacts whose details are oldest; requests are spaced out because
+ * WhatsApp rate-limits these lookups per account.
+ */
+export const CONTACT_ENRICHMENT_ENABLED = process.env.CONTACT_ENRICHMENT_ENABLED === 'true';
+
+// How often a pass runs
+export const CONTACT_ENRICHMENT_INTERVAL_MS = parseInt(process.env.CONTACT_ENRICHMENT_INTERVAL_MS || '900000', 10);
+
+// Contacts looked up per pass
+export const CONTACT_ENRICHMENT_BATCH_SIZE = parseInt(process.env.CONTACT_ENRICHMENT_BATCH_SIZE || '20', 10);
+
+// Pause between requests to WhatsApp
+export const CONTACT_ENRICHMENT_DELAY_MS = parseInt(process.env.CONTACT_ENRICHMENT_DELAY_MS || '3000', 10);
+
+// A field is fetched again once its last refresh is older than this
+export const CONTACT_REFRESH_DAYS = parseInt(process.env.CONTACT_REFRESH_DAYS || '7', 10);
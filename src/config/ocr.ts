@@ -0,0 +1,15 @@
+/**
+ * OCR settings. Text is extracted from stored images and from PDFs that have no text layer
+ * (scans), so SAVE_MEDIA_TYPES has to include image and/or document for OCR to see anything.
+ */
+export const OCR_ENABLED = process.env.OCR_ENABLED === 'true';
+
+export const OCR_ENGINE = process.env.OCR_ENGINE || 'tesseract';
+
+// Tesseract language packs, joined with '+' (e.g. eng+deu)
+export const OCR_LANGUAGES = process.env.OCR_LANGUAGES || 'eng';
+
+export const OCR_TIMEOUT_MS = parseInt(process.env.OCR_TIMEOUT_MS || '120000', 10);
+
+// Scanned PDFs are rasterized page by page; later pages are ignored
+export const OCR_PDF_MAX_PAGES = parseInt(process.env.OCR_PDF_MAX_PAGES || '10', 10);
@@ -0,0 +1,17 @@
+/**
+ * Presence tracking settings. WhatsApp only sends presence for chats we subscribe to,
+ * so nothing is recorded unless tracking is enabled and PRESENCE_CHATS lists some JIDs.
+ */
+export const PRESENCE_TRACKING_ENABLED = process.env.PRESENCE_TRACKING_ENABLED === 'true';
+
+// Comma-separated JIDs to subscribe to (contacts, or groups to follow every participant)
+export const PRESENCE_CHATS = (process.env.PRESENCE_CHATS || '')
+  .split(',')
+  .map((jid) => jid.trim())
+  .filter(Boolean);
+
+// Presence transitions older than this are deleted
+export const PRESENCE_RETENTION_DAYS = parseInt(process.env.PRESENCE_RETENTION_DAYS || '90', 10);
+
+// An online stretch with no closing 'unavailable' (e.g. we disconnected) is cut off after this long
+export const PRESENCE_MAX_SESSION_MINUTES = parseInt(process.env.PRESENCE_MAX_SESSION_MINUTES || '60', 10);
@@ -0,0 +1,18 @@
+/**
+ * Storage backend settings. STORAGE_DRIVER picks where new media is written;
+ * existing media is always read through the provider recorded on its row.
+ */
+export const STORAGE_DRIVER = process.env.STORAGE_DRIVER || 's3';
+
+export const LOCAL_STORAGE_DIR = process.env.LOCAL_STORAGE_DIR || './media';
+
+// S3-compatible object stores (MinIO, Ceph RGW, ...) reached through a custom endpoint
+export const S3_COMPATIBLE = {
+  endpoint: process.env.S3_COMPAT_ENDPOINT || '',
+  region: process.env.S3_COMPAT_REGION || 'us-east-1',
+  bucket: process.env.S3_COMPAT_BUCKET || 'whatsapp-media',
+  accessKeyId: process.env.S3_COMPAT_ACCESS_KEY_ID || '',
+  secretAccessKey: process.env.S3_COMPAT_SECRET_ACCESS_KEY || '',
+  forcePathStyle: process.env.S3_COMPAT_FORCE_PATH_STYLE !== 'false',
+  publicUrl: process.env.S3_COMPAT_PUBLIC_URL || '',
+};
@@ -0,0 +1,17 @@
+/**
+ * Voice note transcription settings. Transcription runs after audio is stored,
+ * so SAVE_MEDIA_TYPES has to include audio and ptt for it to have anything to work on.
+ */
+export const TRANSCRIPTION_ENABLED = process.env.TRANSCRIPTION_ENABLED === 'true';
+
+export const TRANSCRIPTION_PROVIDER = process.env.TRANSCRIPTION_PROVIDER || 'command';
+
+// Shell command for the command provider; {input} is replaced with the path of the audio file.
+// The transcript is read from stdout, either as plain text or as JSON { text, language }.
+export const TRANSCRIPTION_COMMAND =
+  process.env.TRANSCRIPTION_COMMAND || 'whisper-cli -m ./models/ggml-base.bin -l auto -nt -np -f {input}';
+
+export const TRANSCRIPTION_TIMEOUT_MS = parseInt(process.env.TRANSCRIPTION_TIMEOUT_MS || '300000', 10);
+
+// Language recorded when the engine does not report one
+export const TRANSCRIPTION_LANGUAGE = process.env.TRANSCRIPTION_LANGUAGE || null;
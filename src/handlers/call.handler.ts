@@ -0,0 +1,177 @@
+import { isJidGroup, jidNormalizedUser, type WACallEvent } from '@whiskeysockets/baileys';
+import { Call, Chat } from '../models/index.js';
+import type { CallDirection, CallStatus } from '../models/Call.js';
+import whatsappService from '../services/whatsapp.service.js';
+import identityService from '../services/identity.service.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const log = createChildLogger('call-handler');
+
+// Once a call reaches one of these, later events for it are ignored
+const FINAL_STATUSES: CallStatus[] = ['ended', 'missed', 'rejected'];
+
+/**
+ * Infers who placed a call from the first event seen for it. An offer comes from the caller;
+ * an accept or reject comes from the callee. Anything else is assumed to be incoming.
+ */
+function directionFromEvent(event: WACallEvent, isOwn: boolean): CallDirection {
+  if (event.status === 'offer') return isOwn ? 'outgoing' : 'incoming';
+  if (event.status === 'accept' || event.status === 'reject') return isOwn ? 'incoming' : 'outgoing';
+  return 'incoming';
+}
+
+class CallHandler {
+  /**
+   * Handles call events from Baileys.
+   * Each call is one row, moved through ringing -> ongoing -> ended, or to missed/rejected,
+   * as its offer, accept, reject, timeout and terminate events arrive.
+   */
+  static async handleCall(events: WACallEvent[]): Promise<void> {
+    log.info({ count: events.length }, 'Processing call events');
+
+    for (const event of events) {
+      try {
+        if (!event.id || !event.from) {
+          log.warn({ event }, 'Skipping call event with missing id or sender');
+          continue;
+        }
+        await CallHandler.applyEvent(event);
+      } catch (err) {
+        log.error({ err, callId: event.id }, 'Failed to process call event');
+      }
+    }
+  }
+
+  /**
+   * Folds a single call event into the calls table, creating the row on the first event seen.
+   */
+  static async applyEvent(event: WACallEvent): Promise<void> {
+    const ownJids = whatsappService.getOwnJids();
+    const from = jidNormalizedUser(event.from);
+    const isOwn = ownJids.includes(from);
+    const date = event.date instanceof Date ? event.date : new Date(event.date);
+
+    const [call, created] = await Call.findOrCreate({
+      where: { call_id: event.id },
+      defaults: {
+        call_id: event.id,
+        direction: directionFromEvent(event, isOwn),
+        status: 'ringing',
+        started_at: date,
+      },
+    });
+
+    if (FINAL_STATUSES.includes(call.status) && event.status !== 'offer') {
+      log.debug({ callId: event.id, status: call.status, event: event.status }, 'Call already finished, ignoring event');
+      return;
+    }
+
+    const changes: Partial<Pick<Call,
+      'caller_jid' | 'group_jid' | 'is_group' | 'participants' | 'direction' | 'media_type' |
+      'status' | 'started_at' | 'answered_at' | 'ended_at' | 'duration_seconds'
+    >> = {};
+
+    const participants = new Set(call.participants);
+    if (!isOwn) participants.add(from);
+
+    if (event.isGroup !== undefined) changes.is_group = event.isGroup;
+    if (event.groupJid) changes.group_jid = event.groupJid;
+    if (event.isVideo !== undefined) changes.media_type = event.isVideo ? 'video' : 'voice';
+    if (date < call.started_at) changes.started_at = date;
+
+    const isGroup = changes.is_group ?? call.is_group;
+
+    switch (event.status) {
+      case 'offer':
+        changes.caller_jid = from;
+        changes.direction = isOwn ? 'outgoing' : 'incoming';
+        break;
+      case 'ringing':
+        break;
+      case 'accept':
+        if (call.status === 'ringing') {
+          changes.status = 'ongoing';
+          changes.answered_at = date;
+        }
+        break;
+      case 'reject':
+        // In a group call one participant declining does not end the call for everyone else
+        if (!isGroup || isOwn) {
+          changes.status = 'rejected';
+          changes.ended_at = date;
+        }
+        break;
+      case 'timeout':
+        changes.status = 'missed';
+        changes.ended_at = date;
+        break;
+      case 'terminate':
+        if (call.status === 'ongoing' && call.answered_at) {
+          changes.status = 'ended';
+          changes.duration_seconds = Math.max(0, Math.round((date.getTime() - call.answered_at.getTime()) / 1000));
+        } else {
+          changes.status = 'missed';
+        }
+        changes.ended_at = date;
+        break;
+    }
+
+    if (participants.size !== call.participants.length) changes.participants = [...participants];
+
+    // 1:1 calls without an offer still need a caller; it is whoever is on the other side
+    const direction = changes.direction ?? call.direction;
+    if (!call.caller_jid && !changes.caller_jid && !isGroup) {
+      const counterpart = CallHandler.counterpart(event, ownJids);
+      changes.caller_jid = direction === 'incoming' ? counterpart : ownJids[0] || null;
+    }
+
+    await call.update(changes);
+
+    if (!call.chat_id) {
+      await CallHandler.attachChat(call, event, ownJids);
+    }
+
+    log.info(
+      { callId: event.id, event: event.status, status: call.status, created, offline: event.offline },
+      'Call event applied'
+    );
+  }
+
+  /**
+   * The other party of a 1:1 call: the first JID on the event that is not one of ours.
+   */
+  private static counterpart(event: WACallEvent, ownJids: string[]): string | null {
+    for (const jid of [event.from, event.chatId]) {
+      if (!jid) continue;
+      const normalized = jidNormalizedUser(jid);
+      if (!ownJids.includes(normalized) && !isJidGroup(normalized)) return normalized;
+    }
+    return null;
+  }
+
+  /**
+   * Links a call to its chat: the group for group calls, the other party's private chat otherwise.
+   */
+  private static async attachChat(call: Call, event: WACallEvent, ownJids: string[]): Promise<void> {
+    const groupJid = call.group_jid || (event.chatId && isJidGroup(event.chatId) ? event.chatId : null);
+    const chatJid = groupJid || CallHandler.counterpart(event, ownJids);
+    if (!chatJid) return;
+
+    const [chat] = await Chat.findOrCreate({
+      where: { chat_id: chatJid },
+      defaults: {
+        chat_id: chatJid,
+        chat_type: groupJid ? 'group' : 'private',
+      },
+    });
+
+    if (!groupJid) {
+      await identityService.findOrCreateContact(chatJid, 'call');
+    }
+
+    await call.update({ chat_id: chat.id });
+  }
+}
+
+export { CallHandler };
+export default CallHandler;
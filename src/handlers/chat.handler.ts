@@ -71,6 +71,31 @@ class ChatHandler {
       }
     }
   }
+
+  /**
+   * Handles chats.delete events from Baileys.
+   * Marks chats as deleted; their messages stay in the archive.
+   */
+  static async handleDelete(chatIds: string[]): Promise<void> {
+    log.info({ count: chatIds.length }, 'Processing chat deletions');
+
+    for (const chatId of chatIds) {
+      try {
+        const [count] = await Chat.update(
+          { is_deleted: true, deleted_at: new Date() },
+          { where: { chat_id: chatId, is_deleted: false } }
+        );
+
+        if (count > 0) {
+          log.info({ chatId }, 'Chat marked as deleted');
+        } else {
+          log.debug({ chatId }, 'Chat not found or already deleted, skipping');
+        }
+      } catch (err) {
+        log.error({ err, chatId }, 'Failed to process chat deletion');
+      }
+    }
+  }
 }
 
 export { ChatHandler };
@@ -1,4 +1,7 @@
-import { Contact } from '../models/index.js';
+import { isJidGroup, type BaileysEventMap } from '@whiskeysockets/baileys';
+import { Chat, type Contact } from '../models/index.js';
+import identityService from '../services/identity.service.js';
+import profilePictures from '../services/profile-picture.service.js';
 import { createChildLogger } from '../utils/logger.js';
 
 const log = createChildLogger('contact-handler');
@@ -9,13 +12,24 @@ interface ContactUpdate {
   notify?: string | null;
   imgUrl?: string | null;
   status?: string | null;
+  lid?: string | null;
+  phoneNumber?: string | null;
   [key: string]: unknown;
 }
 
+// Baileys reports picture changes as 'changed' (ask WhatsApp for the URL) or 'removed'
+function pictureUrl(imgUrl: string | null): string | null | undefined {
+  if (imgUrl === 'changed') return undefined;
+  if (imgUrl === 'removed') return null;
+  return imgUrl;
+}
+
 class ContactHandler {
   /**
-   * Handles contacts.update events from Baileys.
-   * Upserts contact records with the latest name, avatar, and about info.
+   * Handles contacts.upsert and contacts.update events from Baileys.
+   * Upserts contact records with the latest name and about info, and stores new profile pictures.
+   * A contact addressed by LID often comes with its phone number (or the other way round); both
+   * are linked first so the update lands on the one person. Group picture changes arrive here too.
    */
   static async handleUpdate(updates: ContactUpdate[]): Promise<void> {
     log.info({ count: updates.length }, 'Processing contact updates');
@@ -27,16 +41,18 @@ class ContactHandler {
           continue;
         }
 
+        if (isJidGroup(update.id) && update.imgUrl !== undefined) {
+          await ContactHandler.handleGroupPicture(update.id, update.imgUrl);
+          continue;
+        }
+
         const contactName = update.name || update.notify || null;
 
-        const [contact, created] = await Contact.findOrCreate({
-          where: { contact_id: update.id },
-          defaults: {
-            contact_id: update.id,
-            name: contactName,
-            avatar_url: update.imgUrl || null,
-            about: update.status || null,
-          },
+        await identityService.link(update.id, update.lid || update.phoneNumber, 'contact');
+
+        const [contact, created] = await identityService.findOrCreateContact(update.id, 'contact', {
+          name: contactName,
+          about: update.status || null,
         });
 
         if (!created) {
@@ -47,10 +63,6 @@ class ContactHandler {
             changes.name = contactName;
           }
 
-          if (update.imgUrl !== undefined) {
-            changes.avatar_url = update.imgUrl;
-          }
-
           if (update.status !== undefined) {
             changes.about = update.status;
           }
@@ -66,11 +78,52 @@ class ContactHandler {
         } else {
           log.info({ contactId: update.id }, 'Contact created');
         }
+
+        if (update.imgUrl !== undefined) {
+          await ContactHandler.handleContactPicture(contact, update.imgUrl);
+        }
       } catch (err) {
         log.error({ err, contactId: update.id }, 'Failed to process contact update');
       }
     }
   }
+
+  /**
+   * Stores a contact's new picture. A failed fetch leaves the picture due for the next
+   * enrichment pass.
+   */
+  private static async handleContactPicture(contact: Contact, imgUrl: string | null): Promise<void> {
+    try {
+      const result = await profilePictures.syncContact(contact, pictureUrl(imgUrl));
+      log.debug({ contactId: contact.contact_id, result }, 'Contact picture synced');
+    } catch (err) {
+      log.warn({ err, contactId: contact.contact_id }, 'Failed to store contact picture');
+      await contact.update({ avatar_refreshed_at: null });
+    }
+  }
+
+  private static async handleGroupPicture(groupJid: string, imgUrl: string | null): Promise<void> {
+    const chat = await Chat.findOne({ where: { chat_id: groupJid } });
+    if (!chat) return;
+
+    try {
+      const result = await profilePictures.syncChat(chat, pictureUrl(imgUrl));
+      log.debug({ chatId: groupJid, result }, 'Group picture synced');
+    } catch (err) {
+      log.warn({ err, chatId: groupJid }, 'Failed to store group picture');
+      await chat.update({ avatar_refreshed_at: null });
+    }
+  }
+
+  /**
+   * Handles lid-mapping.update events: WhatsApp told us which phone number a LID belongs to.
+   */
+  static async handleLidMapping({ lid, pn }: BaileysEventMap['lid-mapping.update']): Promise<void> {
+    const contact = await identityService.link(pn, lid, 'lid-mapping');
+    if (contact) {
+      log.info({ contactId: contact.id, lid, pn }, 'LID mapped to phone number');
+    }
+  }
 }
 
 export { ContactHandler };
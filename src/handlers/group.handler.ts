@@ -1,4 +1,12 @@
-import { Chat, GroupMetadata, GroupParticipant } from '../models/index.js';
+import {
+  areJidsSameUser,
+  type BaileysEventMap,
+  type GroupMetadata as WAGroupMetadata,
+  type GroupParticipant as WAGroupParticipant,
+} from '@whiskeysockets/baileys';
+import { Chat, GroupEvent, GroupMetadata, GroupParticipant } from '../models/index.js';
+import type { GroupEventType } from '../models/GroupEvent.js';
+import identityService from '../services/identity.service.js';
 import { createChildLogger } from '../utils/logger.js';
 
 const log = createChildLogger('group-handler');
@@ -13,19 +21,256 @@ interface GroupUpdate {
   joinApprovalMode?: boolean;
   memberAddMode?: boolean;
   ephemeralDuration?: number;
+  inviteCode?: string;
+  /** Who made the change, when it came from a group notification */
+  author?: string;
+  authorPn?: string;
   [key: string]: unknown;
 }
 
-interface ParticipantsUpdateEvent {
-  id: string;
-  participants: string[];
-  action: 'add' | 'remove' | 'promote' | 'demote';
+type ParticipantsUpdateEvent = BaileysEventMap['group-participants.update'];
+
+type ParticipantRole = GroupParticipant['role'];
+
+/**
+ * What reconciling one group against a fresh copy of its metadata changed.
+ */
+interface GroupReconcileResult {
+  group_jid: string;
+  subject: string | null;
+  chat_created: boolean;
+  metadata_created: boolean;
+  /** Group metadata fields whose value changed */
+  changed_fields: string[];
+  /** Members new to the group, or back after having been removed */
+  added: string[];
+  /** Members who are no longer in the group */
+  removed: string[];
+  role_changes: { participant_jid: string; from: ParticipantRole; to: ParticipantRole }[];
+}
+
+function roleFromParticipant(participant: WAGroupParticipant): ParticipantRole {
+  if (participant.admin === 'superadmin' || participant.isSuperAdmin) return 'super_admin';
+  if (participant.admin === 'admin' || participant.isAdmin) return 'admin';
+  return 'member';
+}
+
+/**
+ * The log entry for one member of a participants update. A member who adds themselves
+ * joined by invite link; one who removes themselves left.
+ */
+function membershipEventType(event: ParticipantsUpdateEvent, participant: WAGroupParticipant): GroupEventType {
+  const self =
+    !!event.author &&
+    (areJidsSameUser(event.author, participant.id) ||
+      (!!event.authorPn && !!participant.phoneNumber && areJidsSameUser(event.authorPn, participant.phoneNumber)));
+
+  switch (event.action) {
+    case 'add':
+      return self ? 'join' : 'add';
+    case 'remove':
+      return self ? 'leave' : 'remove';
+    default:
+      return event.action;
+  }
+}
+
+function dateFromSeconds(seconds: number | undefined): Date | null {
+  return seconds ? new Date(seconds * 1000) : null;
+}
+
+/**
+ * Compares a stored value with a fresh one, treating dates by their time.
+ */
+function sameValue(current: unknown, next: unknown): boolean {
+  if (current instanceof Date || next instanceof Date) {
+    return (current instanceof Date ? current.getTime() : current) === (next instanceof Date ? next.getTime() : next);
+  }
+  if (current && next && typeof current === 'object') {
+    return JSON.stringify(current) === JSON.stringify(next);
+  }
+  return (current ?? null) === (next ?? null);
 }
 
 class GroupHandler {
+  /**
+   * Handles groups.upsert events: groups we were just added to or created,
+   * which arrive with their full metadata and member list.
+   */
+  static async handleGroupsUpsert(groups: WAGroupMetadata[]): Promise<void> {
+    for (const group of groups) {
+      try {
+        const result = await GroupHandler.reconcileGroup(group);
+        log.info(
+          { groupId: group.id, chatCreated: result.chat_created, added: result.added.length },
+          'Group upserted'
+        );
+      } catch (err) {
+        log.error({ err, groupId: group.id }, 'Failed to process group upsert');
+      }
+    }
+  }
+
+  /**
+   * Brings a group's chat, metadata and member list in line with a full copy of its metadata
+   * (from groupFetchAllParticipating or groups.upsert). Unlike the incremental handlers below,
+   * the chat is created when missing, and members absent from the fresh list are marked inactive.
+   */
+  static async reconcileGroup(group: WAGroupMetadata): Promise<GroupReconcileResult> {
+    const participants = group.participants || [];
+    const result: GroupReconcileResult = {
+      group_jid: group.id,
+      subject: group.subject || null,
+      chat_created: false,
+      metadata_created: false,
+      changed_fields: [],
+      added: [],
+      removed: [],
+      role_changes: [],
+    };
+
+    const [chat, chatCreated] = await Chat.findOrCreate({
+      where: { chat_id: group.id },
+      defaults: {
+        chat_id: group.id,
+        chat_type: 'group',
+        name: group.subject || null,
+      },
+    });
+    result.chat_created = chatCreated;
+
+    const chatChanges: Record<string, unknown> = {
+      participant_count: group.size ?? participants.length,
+    };
+    if (group.subject) chatChanges.name = group.subject;
+    if (group.desc !== undefined) chatChanges.description = group.desc || null;
+    await chat.update(chatChanges);
+
+    const fresh: Record<string, unknown> = {
+      subject: group.subject || null,
+      subject_owner: group.subjectOwner || null,
+      subject_time: dateFromSeconds(group.subjectTime),
+      owner: group.owner || null,
+      creation_time: dateFromSeconds(group.creation),
+      community_id: group.linkedParent || null,
+      is_community: !!group.isCommunity,
+      is_community_announce: !!group.isCommunityAnnounce,
+      announce: !!group.announce,
+      restrict_mode: !!group.restrict,
+      join_approval_mode: !!group.joinApprovalMode,
+      member_add_mode: !!group.memberAddMode,
+      description: group.desc || null,
+      description_id: group.descId || null,
+      ephemeral_duration: group.ephemeralDuration ?? null,
+    };
+    // Only present when the invite link was looked up or changed
+    if (group.inviteCode) fresh.invite_code = group.inviteCode;
+
+    const [groupMeta, metaCreated] = await GroupMetadata.findOrCreate({
+      where: { chat_id: chat.id },
+      defaults: { chat_id: chat.id, ...fresh } as Record<string, unknown> & { chat_id: number },
+    });
+    result.metadata_created = metaCreated;
+
+    if (!metaCreated) {
+      const current = groupMeta.get() as Record<string, unknown>;
+      const changes: Record<string, unknown> = {};
+      for (const [field, value] of Object.entries(fresh)) {
+        if (!sameValue(current[field], value)) changes[field] = value;
+      }
+
+      const extra = {
+        ...(groupMeta.metadata || {}),
+        addressing_mode: group.addressingMode ?? null,
+        owner_pn: group.ownerPn ?? null,
+        subject_owner_pn: group.subjectOwnerPn ?? null,
+        description_owner: group.descOwner ?? null,
+        description_time: dateFromSeconds(group.descTime),
+      };
+      if (!sameValue(groupMeta.metadata, extra)) changes.metadata = extra;
+
+      if (Object.keys(changes).length > 0) {
+        await groupMeta.update(changes);
+        result.changed_fields = Object.keys(changes).filter((field) => field !== 'metadata');
+      }
+    }
+
+    await GroupHandler.reconcileParticipants(groupMeta, participants, result);
+    return result;
+  }
+
+  /**
+   * Applies a complete member list: adds or reactivates members, updates roles, and marks
+   * members who are missing from the list inactive. A member stored under their phone number
+   * is matched when the group now reports them by LID (and the other way round).
+   */
+  private static async reconcileParticipants(
+    groupMeta: GroupMetadata,
+    participants: WAGroupParticipant[],
+    result: GroupReconcileResult
+  ): Promise<void> {
+    const existing = await GroupParticipant.findAll({ where: { group_metadata_id: groupMeta.id } });
+    const byJid = new Map(existing.map((row) => [row.participant_jid, row]));
+    const seen = new Set<number>();
+    const now = new Date();
+
+    for (const participant of participants) {
+      const role = roleFromParticipant(participant);
+      await identityService.link(participant.id, participant.phoneNumber || participant.lid, 'group');
+      const alternates = [participant.phoneNumber, participant.lid].filter((jid): jid is string => !!jid);
+      const row =
+        byJid.get(participant.id) ||
+        alternates.map((jid) => byJid.get(jid)).find((match) => match && !seen.has(match.id));
+      const identity = alternates.length > 0 ? { phone_number: participant.phoneNumber ?? null, lid: participant.lid ?? null } : null;
+
+      if (!row) {
+        const created = await GroupParticipant.create({
+          group_metadata_id: groupMeta.id,
+          participant_jid: participant.id,
+          role,
+          is_active: true,
+          added_at: now,
+          metadata: identity,
+        });
+        seen.add(created.id);
+        result.added.push(participant.id);
+        continue;
+      }
+
+      seen.add(row.id);
+      const changes: Record<string, unknown> = {};
+
+      if (row.participant_jid !== participant.id) changes.participant_jid = participant.id;
+      if (!row.is_active) {
+        changes.is_active = true;
+        changes.removed_at = null;
+        changes.added_at = now;
+        result.added.push(participant.id);
+      }
+      if (row.role !== role) {
+        changes.role = role;
+        result.role_changes.push({ participant_jid: participant.id, from: row.role, to: role });
+      }
+      if (identity && !sameValue(row.metadata, { ...(row.metadata || {}), ...identity })) {
+        changes.metadata = { ...(row.metadata || {}), ...identity };
+      }
+
+      if (Object.keys(changes).length > 0) {
+        await row.update(changes);
+      }
+    }
+
+    for (const row of existing) {
+      if (seen.has(row.id) || !row.is_active) continue;
+      await row.update({ is_active: false, removed_at: now });
+      result.removed.push(row.participant_jid);
+    }
+  }
+
   /**
    * Handles groups.update events from Baileys.
-   * Updates group metadata (subject, description, announce mode, etc.).
+   * Updates group metadata (subject, description, announce mode, etc.) and logs each
+   * change, with the admin who made it, to the group's event log.
    */
   static async handleGroupUpdate(updates: GroupUpdate[]): Promise<void> {
     log.info({ count: updates.length }, 'Processing group updates');
@@ -37,15 +282,8 @@ class GroupHandler {
           continue;
         }
 
-        // Find the chat record
-        const chat = await Chat.findOne({ where: { chat_id: update.id } });
-        if (!chat) {
-          log.debug(
-            { groupId: update.id },
-            'Chat not found for group update, skipping'
-          );
-          continue;
-        }
+        const chat = await GroupHandler.findOrCreateGroupChat(update.id);
+        const existing = await GroupMetadata.findOne({ where: { chat_id: chat.id } });
 
         // Build the update payload, only including present fields
         const changes: Record<string, unknown> = {};
@@ -84,25 +322,28 @@ class GroupHandler {
           changes.ephemeral_duration = update.ephemeralDuration;
         }
 
-        if (Object.keys(changes).length > 0) {
-          // Upsert group metadata
-          const [groupMeta, created] = await GroupMetadata.findOrCreate({
-            where: { chat_id: chat.id },
-            defaults: {
-              chat_id: chat.id,
-              ...changes,
-            } as Record<string, unknown> & { chat_id: number },
-          });
+        if (update.inviteCode !== undefined) {
+          changes.invite_code = update.inviteCode;
+        }
 
-          if (!created) {
-            await groupMeta.update(changes);
-          }
+        if (Object.keys(changes).length === 0) continue;
 
-          log.info(
-            { groupId: update.id, changes: Object.keys(changes), created },
-            'Group metadata updated'
-          );
+        await GroupHandler.logSettingChanges(chat, existing, changes, update);
+
+        // Upsert group metadata
+        if (existing) {
+          await existing.update(changes);
+        } else {
+          await GroupMetadata.create({
+            chat_id: chat.id,
+            ...changes,
+          } as Record<string, unknown> & { chat_id: number });
         }
+
+        log.info(
+          { groupId: update.id, changes: Object.keys(changes), created: !existing },
+          'Group metadata updated'
+        );
       } catch (err) {
         log.error({ err, groupId: update.id }, 'Failed to process group update');
       }
@@ -111,28 +352,20 @@ class GroupHandler {
 
   /**
    * Handles group-participants.update events from Baileys.
-   * Manages participant additions, removals, promotions, and demotions.
+   * Manages participant additions, removals, promotions, and demotions,
+   * and logs each one with the member who made it.
    */
-  static async handleParticipantsUpdate(
-    event: ParticipantsUpdateEvent
-  ): Promise<void> {
+  static async handleParticipantsUpdate(event: ParticipantsUpdateEvent): Promise<void> {
     const { id: groupJid, participants, action } = event;
+    const now = new Date();
 
     log.info(
-      { groupJid, action, participantCount: participants.length },
+      { groupJid, action, participantCount: participants.length, author: event.author },
       'Processing group participants update'
     );
 
     try {
-      // Find the chat and group metadata
-      const chat = await Chat.findOne({ where: { chat_id: groupJid } });
-      if (!chat) {
-        log.debug(
-          { groupJid },
-          'Chat not found for participants update, skipping'
-        );
-        return;
-      }
+      const chat = await GroupHandler.findOrCreateGroupChat(groupJid);
 
       // Ensure group metadata exists
       const [groupMeta] = await GroupMetadata.findOrCreate({
@@ -140,23 +373,44 @@ class GroupHandler {
         defaults: { chat_id: chat.id },
       });
 
-      for (const participantJid of participants) {
+      await identityService.link(event.author, event.authorPn, 'group');
+
+      for (const participant of participants) {
+        const participantJid = participant.id;
+
         try {
+          await identityService.link(participantJid, participant.phoneNumber || participant.lid, 'group');
+          await GroupEvent.create({
+            chat_id: chat.id,
+            event_type: membershipEventType(event, participant),
+            actor_jid: event.author || null,
+            actor_pn: event.authorPn || null,
+            participant_jid: participantJid,
+            participant_pn: participant.phoneNumber || null,
+            details: action === 'modify' ? { lid: participant.lid ?? null, phone_number: participant.phoneNumber ?? null } : null,
+            occurred_at: now,
+          });
+
+          const existing = await GroupParticipant.findOne({
+            where: {
+              group_metadata_id: groupMeta.id,
+              participant_jid: participantJid,
+            },
+          });
+
           switch (action) {
             case 'add': {
-              await GroupParticipant.findOrCreate({
-                where: {
-                  group_metadata_id: groupMeta.id,
-                  participant_jid: participantJid,
-                },
-                defaults: {
+              if (!existing) {
+                await GroupParticipant.create({
                   group_metadata_id: groupMeta.id,
                   participant_jid: participantJid,
                   role: 'member',
                   is_active: true,
-                  added_at: new Date(),
-                },
-              });
+                  added_at: now,
+                });
+              } else if (!existing.is_active) {
+                await existing.update({ is_active: true, removed_at: null, added_at: now, role: 'member' });
+              }
               log.info(
                 { groupJid, participantJid },
                 'Participant added to group'
@@ -165,16 +419,10 @@ class GroupHandler {
             }
 
             case 'remove': {
-              const participant = await GroupParticipant.findOne({
-                where: {
-                  group_metadata_id: groupMeta.id,
-                  participant_jid: participantJid,
-                },
-              });
-              if (participant) {
-                await participant.update({
+              if (existing) {
+                await existing.update({
                   is_active: false,
-                  removed_at: new Date(),
+                  removed_at: now,
                 });
                 log.info(
                   { groupJid, participantJid },
@@ -185,14 +433,8 @@ class GroupHandler {
             }
 
             case 'promote': {
-              const toPromote = await GroupParticipant.findOne({
-                where: {
-                  group_metadata_id: groupMeta.id,
-                  participant_jid: participantJid,
-                },
-              });
-              if (toPromote) {
-                await toPromote.update({ role: 'admin' });
+              if (existing) {
+                await existing.update({ role: 'admin' });
                 log.info(
                   { groupJid, participantJid },
                   'Participant promoted to admin'
@@ -202,14 +444,8 @@ class GroupHandler {
             }
 
             case 'demote': {
-              const toDemote = await GroupParticipant.findOne({
-                where: {
-                  group_metadata_id: groupMeta.id,
-                  participant_jid: participantJid,
-                },
-              });
-              if (toDemote) {
-                await toDemote.update({ role: 'member' });
+              if (existing) {
+                await existing.update({ role: 'member' });
                 log.info(
                   { groupJid, participantJid },
                   'Participant demoted to member'
@@ -218,6 +454,12 @@ class GroupHandler {
               break;
             }
 
+            case 'modify': {
+              // A member changed their number; the membership itself is unchanged
+              log.info({ groupJid, participantJid }, 'Participant changed number');
+              break;
+            }
+
             default:
               log.warn({ action, groupJid, participantJid }, 'Unknown participant action');
           }
@@ -232,7 +474,88 @@ class GroupHandler {
       log.error({ err, groupJid, action }, 'Failed to process group participants update');
     }
   }
+
+  /**
+   * Handles group.join-request events: someone asked to join a group that needs admin
+   * approval, or their request was revoked or rejected.
+   */
+  static async handleJoinRequest(event: BaileysEventMap['group.join-request']): Promise<void> {
+    const chat = await GroupHandler.findOrCreateGroupChat(event.id);
+
+    await GroupEvent.create({
+      chat_id: chat.id,
+      event_type: 'join_request',
+      actor_jid: event.author || null,
+      actor_pn: event.authorPn || null,
+      participant_jid: event.participant || null,
+      participant_pn: event.participantPn || null,
+      details: { action: event.action, method: event.method ?? null },
+      occurred_at: new Date(),
+    });
+
+    log.info({ groupJid: event.id, participant: event.participant, action: event.action }, 'Group join request recorded');
+  }
+
+  /**
+   * Logs the subject, description, invite link and settings changes in a groups.update.
+   * The full-metadata refresh on connect also arrives as groups.update, so only values that
+   * differ from what is stored are logged; with nothing stored yet, only changes made by
+   * someone (with an author) are.
+   */
+  private static async logSettingChanges(
+    chat: Chat,
+    existing: GroupMetadata | null,
+    changes: Record<string, unknown>,
+    update: GroupUpdate
+  ): Promise<void> {
+    const current = existing ? (existing.get() as Record<string, unknown>) : null;
+    const now = new Date();
+    const rows: { event_type: GroupEventType; details: Record<string, unknown> }[] = [];
+
+    for (const [field, value] of Object.entries(changes)) {
+      if (current ? sameValue(current[field], value) : !update.author) continue;
+
+      const from = current ? current[field] ?? null : null;
+      if (field === 'subject') {
+        rows.push({ event_type: 'subject', details: { from, to: value } });
+      } else if (field === 'description') {
+        rows.push({ event_type: 'description', details: { from, to: value } });
+      } else if (field === 'invite_code') {
+        rows.push({ event_type: 'invite_link', details: {} });
+      } else if (field !== 'owner') {
+        rows.push({ event_type: 'settings', details: { setting: field, from, to: value } });
+      }
+    }
+
+    if (rows.length === 0) return;
+
+    await GroupEvent.bulkCreate(
+      rows.map((row) => ({
+        chat_id: chat.id,
+        event_type: row.event_type,
+        actor_jid: update.author || null,
+        actor_pn: update.authorPn || null,
+        details: row.details,
+        occurred_at: now,
+      }))
+    );
+  }
+
+  /**
+   * Group events can arrive for a group we have no chat for yet (before the connect-time
+   * reconciliation has run), so the chat is created rather than the event dropped.
+   */
+  private static async findOrCreateGroupChat(groupJid: string): Promise<Chat> {
+    const [chat] = await Chat.findOrCreate({
+      where: { chat_id: groupJid },
+      defaults: {
+        chat_id: groupJid,
+        chat_type: 'group',
+      },
+    });
+    return chat;
+  }
 }
 
-export { GroupHandler };
+export { GroupHandler, type GroupReconcileResult };
 export default GroupHandler;
@@ -1,6 +1,7 @@
-import type { proto } from '@whiskeysockets/baileys';
-import { Chat, Contact, sequelize } from '../models/index.js';
+import { isJidNewsletter, isJidStatusBroadcast, type proto } from '@whiskeysockets/baileys';
+import { Chat, sequelize } from '../models/index.js';
 import { MessageHandler } from './message.handler.js';
+import identityService from '../services/identity.service.js';
 import { createChildLogger } from '../utils/logger.js';
 
 const log = createChildLogger('history-handler');
@@ -8,8 +9,10 @@ const log = createChildLogger('history-handler');
 /**
  * Determines the chat type from a JID string.
  */
-function chatTypeFromJid(jid: string): 'private' | 'group' | 'broadcast' {
+function chatTypeFromJid(jid: string): 'private' | 'group' | 'broadcast' | 'status' | 'newsletter' {
   if (jid.endsWith('@g.us')) return 'group';
+  if (isJidStatusBroadcast(jid)) return 'status';
+  if (isJidNewsletter(jid)) return 'newsletter';
   if (jid.endsWith('@broadcast')) return 'broadcast';
   return 'private';
 }
@@ -17,7 +20,16 @@ function chatTypeFromJid(jid: string): 'private' | 'group' | 'broadcast' {
 interface HistorySetEvent {
   messages: proto.IWebMessageInfo[];
   chats: { id: string; name?: string | null; [key: string]: unknown }[];
-  contacts: { id: string; name?: string | null; notify?: string | null; [key: string]: unknown }[];
+  contacts: {
+    id: string;
+    name?: string | null;
+    notify?: string | null;
+    lid?: string | null;
+    phoneNumber?: string | null;
+    [key: string]: unknown;
+  }[];
+  /** The history sync's phone number to LID table, on Baileys versions that pass it through */
+  lidPnMappings?: { lid: string; pn: string }[];
   isLatest: boolean;
 }
 
@@ -32,6 +44,7 @@ class HistoryHandler {
     messages,
     chats,
     contacts,
+    lidPnMappings = [],
     isLatest,
   }: HistorySetEvent): Promise<void> {
     log.info(
@@ -39,6 +52,7 @@ class HistoryHandler {
         messageCount: messages.length,
         chatCount: chats.length,
         contactCount: contacts.length,
+        lidMappingCount: lidPnMappings.length,
         isLatest,
       },
       'Processing history sync batch'
@@ -83,19 +97,26 @@ class HistoryHandler {
           (contactData.notify as string) ||
           null;
 
-        await Contact.findOrCreate({
-          where: { contact_id: contactData.id },
-          defaults: {
-            contact_id: contactData.id,
-            name: contactName,
-          },
-          transaction,
-        });
+        await identityService.findOrCreateContact(contactData.id, 'history', { name: contactName }, transaction);
         contactsProcessed++;
       }
 
       await transaction.commit();
 
+      // Link phone numbers and LIDs, from the mapping table and from conversations that carry both
+      let identitiesLinked = 0;
+      const pairs = [
+        ...lidPnMappings.map(({ lid, pn }) => [pn, lid] as const),
+        ...contacts.map((contactData) => [contactData.id, contactData.lid || contactData.phoneNumber] as const),
+      ];
+      for (const [jid, alternate] of pairs) {
+        try {
+          if (await identityService.link(jid, alternate, 'history')) identitiesLinked++;
+        } catch (err) {
+          log.warn({ err, jid, alternate }, 'Failed to link history identities');
+        }
+      }
+
       // Process messages in batches (outside transaction to avoid long-held locks)
       let messagesProcessed = 0;
       for (let i = 0; i < messages.length; i += MESSAGE_BATCH_SIZE) {
@@ -118,6 +139,7 @@ class HistoryHandler {
         {
           chatsProcessed,
           contactsProcessed,
+          identitiesLinked,
           messagesProcessed,
         },
         `History sync: ${messagesProcessed} messages, ${chatsProcessed} chats, ${contactsProcessed} contacts processed`
@@ -0,0 +1,91 @@
+import { isJidGroup, type BaileysEventMap } from '@whiskeysockets/baileys';
+import { Chat, ChatLabel, Label, MessageLabel } from '../models/index.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const log = createChildLogger('label-handler');
+
+class LabelHandler {
+  /**
+   * Handles labels.edit events: a label was created, renamed, recoloured or deleted.
+   * Deleted labels are kept, marked deleted, so the archive still knows what they were.
+   */
+  static async handleLabelEdit(data: BaileysEventMap['labels.edit']): Promise<void> {
+    const label = await LabelHandler.findOrCreateLabel(data.id);
+
+    const fields: Record<string, unknown> = {};
+    if (data.name !== undefined && data.name !== null) fields.name = data.name;
+    if (data.color !== undefined && data.color !== null) fields.color = data.color;
+    if (data.predefinedId) fields.predefined_id = data.predefinedId;
+
+    if (data.deleted && !label.is_deleted) {
+      fields.is_deleted = true;
+      fields.deleted_at = new Date();
+    } else if (data.deleted === false && label.is_deleted) {
+      fields.is_deleted = false;
+      fields.deleted_at = null;
+    }
+
+    if (Object.keys(fields).length === 0) return;
+
+    await label.update(fields);
+    log.info({ labelId: data.id, name: label.name, deleted: label.is_deleted }, 'Label updated');
+  }
+
+  /**
+   * Handles labels.association events: a label was put on or taken off a chat or a message.
+   */
+  static async handleLabelAssociation(data: BaileysEventMap['labels.association']): Promise<void> {
+    const { association, type } = data;
+    const label = await LabelHandler.findOrCreateLabel(association.labelId);
+
+    // Message associations carry the message id; chat associations do not
+    if (!('messageId' in association)) {
+      const [chat] = await Chat.findOrCreate({
+        where: { chat_id: association.chatId },
+        defaults: {
+          chat_id: association.chatId,
+          chat_type: isJidGroup(association.chatId) ? 'group' : 'private',
+        },
+      });
+
+      if (type === 'add') {
+        await ChatLabel.findOrCreate({
+          where: { chat_id: chat.id, label_id: label.id },
+          defaults: { chat_id: chat.id, label_id: label.id },
+        });
+      } else {
+        await ChatLabel.destroy({ where: { chat_id: chat.id, label_id: label.id } });
+      }
+
+      log.info({ labelId: association.labelId, chatJid: association.chatId, type }, 'Chat label association applied');
+      return;
+    }
+
+    const where = { label_id: label.id, chat_jid: association.chatId, message_key: association.messageId };
+    if (type === 'add') {
+      await MessageLabel.findOrCreate({ where, defaults: where });
+    } else {
+      await MessageLabel.destroy({ where });
+    }
+
+    log.info(
+      { labelId: association.labelId, chatJid: association.chatId, messageId: association.messageId, type },
+      'Message label association applied'
+    );
+  }
+
+  /**
+   * Associations can be synced before the label they refer to, so a bare row is created
+   * and filled in once its labels.edit arrives.
+   */
+  private static async findOrCreateLabel(labelId: string): Promise<Label> {
+    const [label] = await Label.findOrCreate({
+      where: { label_id: labelId },
+      defaults: { label_id: labelId },
+    });
+    return label;
+  }
+}
+
+export { LabelHandler };
+export default LabelHandler;
@@ -1,83 +1,40 @@
-import type { proto } from '@whiskeysockets/baileys';
-import { Chat, Message, Contact } from '../models/index.js';
+import {
+  proto,
+  toNumber,
+  isJidStatusBroadcast,
+  isJidNewsletter,
+  WAMessageStubType,
+  type BaileysEventMap,
+  type WAMessageUpdate,
+} from '@whiskeysockets/baileys';
+import { Chat, Message, MessageEdit, sequelize } from '../models/index.js';
+import { ReactionHandler, reactionTimestamp } from './reaction.handler.js';
+import { ReceiptHandler, statusFromProto } from './receipt.handler.js';
+import { PollHandler } from './poll.handler.js';
+import { StatusHandler } from './status.handler.js';
+import { NewsletterHandler } from './newsletter.handler.js';
+import mediaQueue from '../services/media-queue.service.js';
+import identityService from '../services/identity.service.js';
+import StorageService from '../services/storage.service.js';
+import { authorFromKey } from '../utils/message-keys.js';
+import {
+  extractBody,
+  extractContextInfo,
+  isMediaType,
+  normalizeContent,
+  resolveMessageType,
+} from '../utils/message-content.js';
 import { createChildLogger } from '../utils/logger.js';
 
 const log = createChildLogger('message-handler');
 
-/**
- * Maps Baileys message content keys to our message_type values.
- */
-function resolveMessageType(messageContent: proto.IMessage | null | undefined): string {
-  if (!messageContent) return 'unknown';
-
-  const keys = Object.keys(messageContent);
-
-  for (const key of keys) {
-    switch (key) {
-      case 'conversation':
-      case 'extendedTextMessage':
-        return 'chat';
-      case 'imageMessage':
-        return 'image';
-      case 'videoMessage':
-        return 'video';
-      case 'audioMessage':
-        return 'audio';
-      case 'documentMessage':
-      case 'documentWithCaptionMessage':
-        return 'document';
-      case 'stickerMessage':
-        return 'sticker';
-      case 'locationMessage':
-      case 'liveLocationMessage':
-        return 'location';
-      case 'contactMessage':
-      case 'contactsArrayMessage':
-        return 'contact';
-      case 'pollCreationMessage':
-      case 'pollUpdateMessage':
-        return 'poll';
-      case 'reactionMessage':
-        return 'reaction';
-      case 'protocolMessage':
-      case 'senderKeyDistributionMessage':
-        return 'protocol';
-      default:
-        // Continue checking other keys
-        break;
-    }
-  }
-
-  return 'unknown';
-}
-
-/**
- * Extracts the text body from a Baileys message.
- */
-function extractBody(messageContent: proto.IMessage | null | undefined): string | null {
-  if (!messageContent) return null;
-
-  return (
-    messageContent.conversation ||
-    messageContent.extendedTextMessage?.text ||
-    messageContent.imageMessage?.caption ||
-    messageContent.videoMessage?.caption ||
-    messageContent.documentMessage?.caption ||
-    messageContent.documentWithCaptionMessage?.message?.documentMessage?.caption ||
-    messageContent.pollCreationMessage?.name ||
-    messageContent.reactionMessage?.text ||
-    messageContent.contactMessage?.displayName ||
-    messageContent.locationMessage?.name ||
-    messageContent.liveLocationMessage?.caption ||
-    null
-  );
-}
-
 /**
  * Determines the chat type from a JID string.
  */
-function chatTypeFromJid(jid: string): 'private' | 'group' | 'broadcast' {
+function chatTypeFromJid(jid: string): 'private' | 'group' | 'broadcast' | 'status' | 'newsletter' {
   if (jid.endsWith('@g.us')) return 'group';
+  if (isJidStatusBroadcast(jid)) return 'status';
+  if (isJidNewsletter(jid)) return 'newsletter';
   if (jid.endsWith('@broadcast')) return 'broadcast';
   return 'private';
 }
@@ -96,11 +53,47 @@ function extractTimestamp(ts: number | { low: number; high: number } | null | un
   return new Date(numeric * 1000);
 }
 
+interface EditInfo {
+  targetMessageId: string;
+  content: proto.IMessage | null | undefined;
+  editedAt: Date;
+}
+
+/**
+ * Detects a message edit, sent either as a MESSAGE_EDIT protocol message
+ * or wrapped in an editedMessage envelope. Returns null for anything else.
+ */
+function extractEdit(
+  messageContent: proto.IMessage | null | undefined,
+  fallbackTimestamp: Date
+): EditInfo | null {
+  const protocolMsg =
+    messageContent?.protocolMessage ||
+    messageContent?.editedMessage?.message?.protocolMessage;
+
+  if (
+    protocolMsg?.type !== proto.Message.ProtocolMessage.Type.MESSAGE_EDIT ||
+    !protocolMsg.key?.id
+  ) {
+    return null;
+  }
+
+  return {
+    targetMessageId: protocolMsg.key.id,
+    content: protocolMsg.editedMessage,
+    editedAt: protocolMsg.timestampMs
+      ? new Date(toNumber(protocolMsg.timestampMs))
+      : fallbackTimestamp,
+  };
+}
+
 /**
- * Determines whether a message has downloadable media.
+ * Returns the id of the message targeted by a REVOKE ("delete for everyone") protocol message.
  */
-function hasMedia(messageType: string): boolean {
-  return ['image', 'video', 'audio', 'document', 'sticker'].includes(messageType);
+function extractRevokedMessageId(messageContent: proto.IMessage | null | undefined): string | null {
+  const protocolMsg = messageContent?.protocolMessage;
+  if (protocolMsg?.type !== proto.Message.ProtocolMessage.Type.REVOKE) return null;
+  return protocolMsg.key?.id || null;
 }
 
 interface UpsertEvent {
@@ -116,7 +109,17 @@ class MessageHandler {
   static async handleUpsert({ messages, type }: UpsertEvent): Promise<void> {
     log.info({ count: messages.length, type }, 'Processing message upsert');
 
-    for (const msg of messages) {
+    // Reactions and poll votes are folded onto their target, so process them after the rest of the batch
+    const isDeferred = (m: proto.IWebMessageInfo) => {
+      const content = normalizeContent(m.message);
+      return !!(content?.reactionMessage || content?.pollUpdateMessage);
+    };
+    const ordered = [
+      ...messages.filter((m) => !isDeferred(m)),
+      ...messages.filter(isDeferred),
+    ];
+
+    for (const msg of ordered) {
       try {
         const key = msg.key;
         if (!key?.remoteJid || !key.id) {
@@ -130,11 +133,52 @@ class MessageHandler {
         const isFromMe = key.fromMe ?? false;
         const pushName = msg.pushName || null;
 
-        const messageContent = msg.message;
+        const messageContent = normalizeContent(msg.message);
         const messageType = resolveMessageType(messageContent);
         const body = extractBody(messageContent);
         const timestamp = extractTimestamp(msg.messageTimestamp);
 
+        // Edits update the original message instead of creating a new row
+        const edit = extractEdit(messageContent, timestamp);
+        if (edit) {
+          await MessageHandler.applyEdit(
+            edit.targetMessageId,
+            edit.content,
+            edit.editedAt,
+            msg as unknown as Record<string, unknown>
+          );
+          continue;
+        }
+
+        // Revokes mark the original message as deleted instead of creating a new row
+        const revokedMessageId = extractRevokedMessageId(messageContent);
+        if (revokedMessageId) {
+          await MessageHandler.applyRevoke(revokedMessageId, authorFromKey(key), timestamp);
+          continue;
+        }
+
+        // Reactions update the target message's reactions instead of creating a new row
+        const reactionMessage = messageContent?.reactionMessage;
+        if (reactionMessage) {
+          const reactorId = authorFromKey(key);
+          if (reactionMessage.key?.id && reactorId) {
+            await ReactionHandler.applyReaction(
+              reactionMessage.key.id,
+              reactorId,
+              pushName,
+              reactionMessage.text || null,
+              reactionTimestamp(reactionMessage, timestamp)
+            );
+          }
+          continue;
+        }
+
+        // Poll votes are decrypted and tallied on the poll instead of creating a new row
+        if (messageContent?.pollUpdateMessage) {
+          await PollHandler.applyEncryptedVote(msg, timestamp);
+          continue;
+        }
+
         // Skip protocol messages like sender key distribution (noisy)
         if (messageType === 'protocol') {
           log.debug({ messageId, messageType }, 'Skipping protocol message');
@@ -151,24 +195,20 @@ class MessageHandler {
           },
         });
 
+        // Link the sender's phone number and LID before resolving them to a contact
+        try {
+          await identityService.linkMessageKey(key, 'message');
+        } catch (err) {
+          log.warn({ err, messageId }, 'Failed to link sender identities');
+        }
+
         // Find or create the Contact record for the sender
         if (senderId) {
-          await Contact.findOrCreate({
-            where: { contact_id: senderId },
-            defaults: {
-              contact_id: senderId,
-              name: pushName,
-            },
-          });
+          await identityService.findOrCreateContact(senderId, 'message', { name: pushName });
         }
 
         // Extract context info (quoted messages, mentions)
-        const contextInfo = messageContent?.extendedTextMessage?.contextInfo
-          || messageContent?.imageMessage?.contextInfo
-          || messageContent?.videoMessage?.contextInfo
-          || messageContent?.audioMessage?.contextInfo
-          || messageContent?.documentMessage?.contextInfo
-          || null;
+        const contextInfo = extractContextInfo(messageContent);
 
         const quotedStanzaId = contextInfo?.stanzaId || null;
         const mentions = contextInfo?.mentionedJid || null;
@@ -186,18 +226,16 @@ class MessageHandler {
         }
 
         // Check if forwarded
-        const isForwarded = !!(
-          contextInfo?.isForwarded ||
-          messageContent?.extendedTextMessage?.contextInfo?.isForwarded
-        );
+        const isForwarded = !!contextInfo?.isForwarded;
 
         // Determine media presence
-        const msgHasMedia = hasMedia(messageType);
+        const msgHasMedia = isMediaType(messageType);
 
         // Extract media details if present
         const mediaMsg =
           messageContent?.imageMessage ||
           messageContent?.videoMessage ||
+          messageContent?.ptvMessage ||
           messageContent?.audioMessage ||
           messageContent?.documentMessage ||
           messageContent?.stickerMessage ||
@@ -227,13 +265,18 @@ class MessageHandler {
             : null;
 
         // Extract poll data
+        const pollCreation =
+          messageContent?.pollCreationMessage ||
+          messageContent?.pollCreationMessageV2 ||
+          messageContent?.pollCreationMessageV3 ||
+          messageContent?.pollCreationMessageV5 ||
+          null;
         const pollData =
-          messageType === 'poll' && messageContent?.pollCreationMessage
+          messageType === 'poll' && pollCreation
             ? {
-                name: messageContent.pollCreationMessage.name,
-                options: messageContent.pollCreationMessage.options,
-                selectableOptionsCount:
-                  messageContent.pollCreationMessage.selectableOptionsCount,
+                name: pollCreation.name,
+                options: pollCreation.options,
+                selectableOptionsCount: pollCreation.selectableOptionsCount,
               }
             : null;
 
@@ -268,6 +311,7 @@ class MessageHandler {
             timestamp,
             is_forwarded: isForwarded,
             quoted_message_id: quotedMessageDbId,
+            status: isFromMe ? statusFromProto(msg.status) : null,
             mentions: mentions as string[] | null,
             poll_data: pollData as Record<string, unknown> | null,
             location_data: locationData as Record<string, unknown> | null,
@@ -299,10 +343,54 @@ class MessageHandler {
             chatUpdate.name = pushName;
           }
 
+          // A new message brings a deleted chat back, as it does on the phone
+          if (chat.is_deleted && chat.deleted_at && timestamp > chat.deleted_at) {
+            chatUpdate.is_deleted = false;
+            chatUpdate.deleted_at = null;
+          }
+
           await chat.update(chatUpdate);
+
+          // Media is downloaded in the background so a slow download never holds up the batch
+          if (msgHasMedia && StorageService.isMediaAllowed(messageType)) {
+            await mediaQueue.enqueue(savedMsg);
+          }
         } else {
           log.debug({ messageId }, 'Message already exists, skipped');
         }
+
+        // Status updates are archived as statuses, apart from the conversation they arrive in
+        if (chatType === 'status') {
+          await StatusHandler.recordStatus(savedMsg, msg);
+        }
+
+        // Channel posts keep their server id, which reaction and view updates refer to
+        if (chatType === 'newsletter') {
+          await NewsletterHandler.recordPost(savedMsg, msg);
+        }
+
+        // History sync carries per-recipient receipts for our own messages
+        if (isFromMe && msg.userReceipt?.length) {
+          await ReceiptHandler.recordUserReceipts(savedMsg, msg.userReceipt);
+        }
+
+        // History sync carries the poll's votes already decrypted
+        if (pollData && msg.pollUpdates?.length) {
+          await PollHandler.recordPollUpdates(savedMsg, msg.pollUpdates, timestamp);
+        }
+
+        // History sync (and Baileys' event buffer) attach reactions directly to the message
+        for (const reaction of msg.reactions || []) {
+          const reactorId = authorFromKey(reaction.key);
+          if (!reactorId) continue;
+          await ReactionHandler.applyReaction(
+            messageId,
+            reactorId,
+            null,
+            reaction.text || null,
+            reactionTimestamp(reaction, timestamp)
+          );
+        }
       } catch (err) {
         log.error(
           { err, messageId: msg.key?.id, chatJid: msg.key?.remoteJid },
@@ -311,6 +399,182 @@ class MessageHandler {
       }
     }
   }
+
+  /**
+   * Handles messages.update events from Baileys.
+   * Baileys re-emits edits here as an editedMessage update keyed by the original message,
+   * revokes as a REVOKE stub whose update.key is the revoking message,
+   * and delivery/read acks for one-to-one chats as a status change.
+   */
+  static async handleUpdate(updates: WAMessageUpdate[]): Promise<void> {
+    log.info({ count: updates.length }, 'Processing message updates');
+
+    for (const { key, update } of updates) {
+      try {
+        if (!key?.id) {
+          log.warn({ key }, 'Skipping message update with missing id');
+          continue;
+        }
+
+        const editedContent = update.message?.editedMessage?.message;
+        if (editedContent) {
+          await MessageHandler.applyEdit(
+            key.id,
+            editedContent,
+            extractTimestamp(update.messageTimestamp),
+            update as unknown as Record<string, unknown>
+          );
+        }
+
+        if (update.messageStubType === WAMessageStubType.REVOKE) {
+          await MessageHandler.applyRevoke(key.id, authorFromKey(update.key), new Date());
+        }
+
+        if (update.status !== undefined && update.status !== null) {
+          await ReceiptHandler.applyStatus(key, update.status);
+
+          // Another of our devices viewed someone's status
+          if (
+            key.remoteJid && isJidStatusBroadcast(key.remoteJid) && !key.fromMe &&
+            update.status >= proto.WebMessageInfo.Status.READ
+          ) {
+            await StatusHandler.markViewed(key.id, new Date());
+          }
+        }
+      } catch (err) {
+        log.error({ err, messageId: key?.id }, 'Failed to process message update');
+      }
+    }
+  }
+
+  /**
+   * Applies an edit to a stored message.
+   * The current body is preserved in message_edits before being overwritten in place.
+   * The same edit usually arrives twice (upsert + update), so no-op edits are ignored.
+   */
+  static async applyEdit(
+    messageId: string,
+    content: proto.IMessage | null | undefined,
+    editedAt: Date,
+    rawData: Record<string, unknown>
+  ): Promise<void> {
+    const message = await Message.findOne({ where: { message_id: messageId } });
+    if (!message) {
+      log.debug({ messageId }, 'Edited message not found, skipping');
+      return;
+    }
+
+    const newBody = extractBody(normalizeContent(content));
+    if (newBody === message.body) {
+      log.debug({ messageId }, 'Edit already applied, skipped');
+      return;
+    }
+
+    const transaction = await sequelize.transaction();
+
+    try {
+      await MessageEdit.create(
+        {
+          message_id: message.id,
+          previous_body: message.body,
+          new_body: newBody,
+          edited_at: editedAt,
+          raw_data: rawData,
+        },
+        { transaction }
+      );
+
+      await message.update(
+        {
+          body: newBody,
+          media_caption: message.has_media ? newBody : message.media_caption,
+          is_edited: true,
+          edited_at: editedAt,
+        },
+        { transaction }
+      );
+
+      await transaction.commit();
+    } catch (err) {
+      await transaction.rollback();
+      throw err;
+    }
+
+    log.info({ messageId, dbId: message.id, editedAt }, 'Message edit saved');
+  }
+
+  /**
+   * Marks a message as revoked ("delete for everyone"), recording who revoked it and when.
+   * The original content is kept so the archive can still show it.
+   */
+  static async applyRevoke(
+    messageId: string,
+    revokedBy: string | null,
+    revokedAt: Date
+  ): Promise<void> {
+    const message = await Message.findOne({ where: { message_id: messageId } });
+    if (!message) {
+      log.debug({ messageId }, 'Revoked message not found, skipping');
+      return;
+    }
+
+    if (message.deleted_reason === 'revoke') {
+      log.debug({ messageId }, 'Revoke already applied, skipped');
+      return;
+    }
+
+    await message.update({
+      is_deleted: true,
+      deleted_at: revokedAt,
+      deleted_by: revokedBy,
+      deleted_reason: 'revoke',
+    });
+
+    log.info({ messageId, dbId: message.id, revokedBy }, 'Message revoked');
+  }
+
+  /**
+   * Handles messages.delete events from Baileys.
+   * Either specific messages were deleted for us, or a whole chat was cleared ({ jid, all: true }).
+   */
+  static async handleDelete(event: BaileysEventMap['messages.delete']): Promise<void> {
+    const deletedAt = new Date();
+
+    if ('all' in event) {
+      const chat = await Chat.findOne({ where: { chat_id: event.jid } });
+      if (!chat) {
+        log.debug({ chatJid: event.jid }, 'Chat not found for clear, skipping');
+        return;
+      }
+
+      const [count] = await Message.update(
+        { is_deleted: true, deleted_at: deletedAt, deleted_by: 'me', deleted_reason: 'clear' },
+        { where: { chat_id: chat.id, is_deleted: false } }
+      );
+
+      log.info({ chatJid: event.jid, count }, 'Chat cleared');
+      return;
+    }
+
+    log.info({ count: event.keys.length }, 'Processing message deletions');
+
+    for (const key of event.keys) {
+      try {
+        if (!key.id) continue;
+
+        const [count] = await Message.update(
+          { is_deleted: true, deleted_at: deletedAt, deleted_by: 'me', deleted_reason: 'delete_for_me' },
+          { where: { message_id: key.id, is_deleted: false } }
+        );
+
+        if (count > 0) {
+          log.info({ messageId: key.id }, 'Message deleted for me');
+        }
+      } catch (err) {
+        log.error({ err, messageId: key.id }, 'Failed to process message deletion');
+      }
+    }
+  }
 }
 
 export { MessageHandler };
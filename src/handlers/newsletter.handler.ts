@@ -0,0 +1,136 @@
+import type { BaileysEventMap, WAMessageKey, proto } from '@whiskeysockets/baileys';
+import { Chat, Message, NewsletterPost, NewsletterPostStat, sequelize } from '../models/index.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const log = createChildLogger('newsletter-handler');
+
+type PostStats = Pick<NewsletterPost, 'view_count' | 'reaction_counts'>;
+
+class NewsletterHandler {
+  /**
+   * Records a message posted to a channel as a newsletter post. Reaction and view updates
+   * refer to posts by their server id rather than the message id, so that is kept alongside.
+   */
+  static async recordPost(message: Message, msg: proto.IWebMessageInfo): Promise<NewsletterPost | null> {
+    const key = msg.key as WAMessageKey | null | undefined;
+    const serverId = key?.server_id || key?.id;
+    if (!serverId) return null;
+
+    const [post, created] = await NewsletterPost.findOrCreate({
+      where: { message_id: message.id },
+      defaults: {
+        chat_id: message.chat_id,
+        message_id: message.id,
+        server_id: serverId,
+      },
+    });
+
+    if (created) {
+      log.info({ postId: post.id, serverId }, 'Newsletter post saved');
+    }
+    return post;
+  }
+
+  /**
+   * Handles newsletter.reaction events. Baileys reports each reaction notification on its own
+   * (count 1), so counts are adjusted by it rather than replaced.
+   */
+  static async handleReaction(data: BaileysEventMap['newsletter.reaction']): Promise<void> {
+    const code = data.reaction.code;
+    if (!code) return;
+
+    const delta = (data.reaction.count ?? 1) * (data.reaction.removed ? -1 : 1);
+
+    await NewsletterHandler.updateStats(data.id, data.server_id, (post) => {
+      const reactionCounts = { ...post.reaction_counts };
+      const next = Math.max(0, (reactionCounts[code] || 0) + delta);
+      if (next > 0) {
+        reactionCounts[code] = next;
+      } else {
+        delete reactionCounts[code];
+      }
+      return { view_count: post.view_count, reaction_counts: reactionCounts };
+    });
+  }
+
+  /**
+   * Handles newsletter.view events, which carry the post's total view count.
+   */
+  static async handleView(data: BaileysEventMap['newsletter.view']): Promise<void> {
+    await NewsletterHandler.updateStats(data.id, data.server_id, (post) => {
+      if (post.view_count === data.count) return null;
+      return { view_count: data.count, reaction_counts: post.reaction_counts };
+    });
+  }
+
+  /**
+   * Handles newsletter-settings.update events: the channel's name or description changed.
+   */
+  static async handleSettingsUpdate(data: BaileysEventMap['newsletter-settings.update']): Promise<void> {
+    const update = (data.update || {}) as { name?: string; description?: string };
+    const fields: Record<string, unknown> = {};
+    if (update.name) fields.name = update.name;
+    if (update.description !== undefined) fields.description = update.description || null;
+    if (Object.keys(fields).length === 0) return;
+
+    const [count] = await Chat.update(fields, { where: { chat_id: data.id } });
+    if (count > 0) {
+      log.info({ chatJid: data.id, fields: Object.keys(fields) }, 'Newsletter settings updated');
+    }
+  }
+
+  /**
+   * Applies a change to a post's counts under a row lock, so concurrent reaction
+   * notifications do not overwrite each other, and records the result as a snapshot.
+   * `compute` returns null when nothing changed.
+   */
+  private static async updateStats(
+    chatJid: string,
+    serverId: string,
+    compute: (post: NewsletterPost) => PostStats | null
+  ): Promise<void> {
+    const chat = await Chat.findOne({ where: { chat_id: chatJid }, attributes: ['id'] });
+    if (!chat) {
+      log.debug({ chatJid, serverId }, 'Update for unknown newsletter, skipped');
+      return;
+    }
+
+    const transaction = await sequelize.transaction();
+    try {
+      const post = await NewsletterPost.findOne({
+        where: { chat_id: chat.id, server_id: serverId },
+        lock: transaction.LOCK.UPDATE,
+        transaction,
+      });
+
+      if (!post) {
+        await transaction.commit();
+        log.debug({ chatJid, serverId }, 'Update for unknown newsletter post, skipped');
+        return;
+      }
+
+      const stats = compute(post);
+      if (stats) {
+        const now = new Date();
+        await post.update({ ...stats, stats_updated_at: now }, { transaction });
+        await NewsletterPostStat.create(
+          {
+            post_id: post.id,
+            view_count: stats.view_count,
+            reaction_counts: stats.reaction_counts,
+            recorded_at: now,
+          },
+          { transaction }
+        );
+      }
+
+      await transaction.commit();
+    } catch (err) {
+      await transaction.rollback();
+      throw err;
+    }
+  }
+}
+
+export { NewsletterHandler };
+export default NewsletterHandler;
@@ -0,0 +1,233 @@
+import { createHash } from 'crypto';
+import {
+  decryptPollVote,
+  getAggregateVotesInPollMessage,
+  jidNormalizedUser,
+  toNumber,
+  type proto,
+  type WAMessageKey,
+} from '@whiskeysockets/baileys';
+import { Message, PollVote } from '../models/index.js';
+import whatsappService from '../services/whatsapp.service.js';
+import { authorFromKey } from '../utils/message-keys.js';
+import { bytesFromJson } from '../utils/bytes.js';
+import { normalizeContent } from '../utils/message-content.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const log = createChildLogger('poll-handler');
+
+interface PollOption {
+  optionName?: string | null;
+}
+
+/**
+ * Options of a stored poll, as saved in poll_data at creation time.
+ */
+function pollOptions(poll: Message): PollOption[] {
+  const options = (poll.poll_data as { options?: PollOption[] } | null)?.options;
+  return Array.isArray(options) ? options : [];
+}
+
+/**
+ * The poll's message secret, needed to decrypt votes. It lives in the creation message's context info.
+ */
+function pollSecret(poll: Message): Buffer | null {
+  const raw = poll.raw_data as { message?: proto.IMessage } | null;
+  // Disappearing-mode polls keep it on the wrapped message
+  return bytesFromJson(
+    raw?.message?.messageContextInfo?.messageSecret ?? normalizeContent(raw?.message)?.messageContextInfo?.messageSecret
+  );
+}
+
+/**
+ * JIDs a message author may have used when encrypting, most likely first.
+ * With LID addressing the same person can appear under either their phone-number JID or LID.
+ */
+function authorJidCandidates(key: WAMessageKey | null | undefined, ownJids: string[]): string[] {
+  if (!key) return [];
+
+  const candidates = key.fromMe
+    ? ownJids
+    : key.participant
+      ? [key.participantAlt, key.participant]
+      : [key.remoteJidAlt, key.remoteJid];
+
+  return [...new Set(candidates.filter((jid): jid is string => !!jid).map((jid) => jidNormalizedUser(jid)))];
+}
+
+/**
+ * Tries each creator/voter JID combination until the vote decrypts.
+ */
+function decryptVote(
+  vote: proto.Message.IPollEncValue,
+  pollMsgId: string,
+  pollEncKey: Buffer,
+  creatorJids: string[],
+  voterJids: string[]
+): proto.Message.PollVoteMessage | null {
+  for (const pollCreatorJid of creatorJids) {
+    for (const voterJid of voterJids) {
+      try {
+        return decryptPollVote(vote, { pollEncKey, pollCreatorJid, pollMsgId, voterJid });
+      } catch {
+        // Wrong JID combination, try the next one
+      }
+    }
+  }
+  return null;
+}
+
+class PollHandler {
+  /**
+   * Decrypts a pollUpdateMessage with the poll's message secret and records the vote.
+   */
+  static async applyEncryptedVote(msg: proto.IWebMessageInfo, fallbackTimestamp: Date): Promise<void> {
+    const pollUpdate = normalizeContent(msg.message)?.pollUpdateMessage;
+    const pollKey = pollUpdate?.pollCreationMessageKey;
+    const voteMessageId = msg.key?.id;
+    const voterId = authorFromKey(msg.key);
+
+    if (!pollUpdate?.vote || !pollKey?.id || !voteMessageId || !voterId) {
+      log.warn({ messageId: voteMessageId }, 'Skipping poll vote with missing fields');
+      return;
+    }
+
+    const poll = await Message.findOne({ where: { message_id: pollKey.id } });
+    if (!poll) {
+      log.debug({ pollMessageId: pollKey.id }, 'Poll not found for vote, skipping');
+      return;
+    }
+
+    const secret = pollSecret(poll);
+    if (!secret) {
+      log.warn({ pollMessageId: pollKey.id }, 'Poll has no message secret, cannot decrypt vote');
+      return;
+    }
+
+    const ownJids = whatsappService.getOwnJids();
+    const pollRawKey = (poll.raw_data as { key?: WAMessageKey } | null)?.key;
+    const creatorJids = authorJidCandidates(pollRawKey || pollKey, ownJids);
+    const voterJids = authorJidCandidates(msg.key, ownJids);
+
+    const vote = decryptVote(pollUpdate.vote, pollKey.id, secret, creatorJids, voterJids);
+    if (!vote) {
+      log.warn({ pollMessageId: pollKey.id, voteMessageId }, 'Failed to decrypt poll vote');
+      return;
+    }
+
+    const votedAt = pollUpdate.senderTimestampMs
+      ? new Date(toNumber(pollUpdate.senderTimestampMs))
+      : fallbackTimestamp;
+
+    await PollHandler.recordVote(poll, voteMessageId, voterId, vote.selectedOptions || [], votedAt);
+  }
+
+  /**
+   * Records the already-decrypted votes that history sync attaches to a poll message.
+   */
+  static async recordPollUpdates(
+    poll: Message,
+    pollUpdates: proto.IPollUpdate[],
+    fallbackTimestamp: Date
+  ): Promise<void> {
+    for (const update of pollUpdates) {
+      const voteMessageId = update.pollUpdateMessageKey?.id;
+      const voterId = authorFromKey(update.pollUpdateMessageKey);
+      if (!voteMessageId || !voterId) continue;
+
+      const votedAt = update.senderTimestampMs
+        ? new Date(toNumber(update.senderTimestampMs))
+        : fallbackTimestamp;
+
+      await PollHandler.recordVote(
+        poll,
+        voteMessageId,
+        voterId,
+        update.vote?.selectedOptions || [],
+        votedAt
+      );
+    }
+  }
+
+  /**
+   * Stores a single vote (an empty selection means the vote was withdrawn)
+   * and refreshes the poll's tally. Duplicate deliveries of a vote are ignored.
+   */
+  static async recordVote(
+    poll: Message,
+    voteMessageId: string,
+    voterId: string,
+    selectedOptions: Uint8Array[],
+    votedAt: Date
+  ): Promise<void> {
+    const namesByHash = new Map(
+      pollOptions(poll).map((opt) => [
+        createHash('sha256').update(opt.optionName || '').digest('base64'),
+        opt.optionName || '',
+      ])
+    );
+
+    const selectedHashes = selectedOptions.map((hash) => Buffer.from(hash).toString('base64'));
+
+    const [, created] = await PollVote.findOrCreate({
+      where: { poll_message_id: poll.id, vote_message_id: voteMessageId },
+      defaults: {
+        poll_message_id: poll.id,
+        vote_message_id: voteMessageId,
+        voter_jid: voterId,
+        selected_options: selectedHashes.map((hash) => namesByHash.get(hash) ?? 'Unknown'),
+        selected_hashes: selectedHashes,
+        voted_at: votedAt,
+      },
+    });
+
+    if (!created) {
+      log.debug({ voteMessageId }, 'Poll vote already recorded, skipped');
+      return;
+    }
+
+    log.info(
+      { pollMessageId: poll.message_id, voterId, optionCount: selectedHashes.length },
+      'Poll vote recorded'
+    );
+
+    await PollHandler.refreshTally(poll);
+  }
+
+  /**
+   * Recomputes poll_data.tally from each voter's latest vote, using Baileys' poll aggregation.
+   */
+  static async refreshTally(poll: Message): Promise<void> {
+    const votes = await PollVote.findAll({
+      where: { poll_message_id: poll.id },
+      order: [['voted_at', 'ASC'], ['id', 'ASC']],
+    });
+
+    const latestByVoter = new Map<string, PollVote>();
+    for (const vote of votes) {
+      latestByVoter.set(vote.voter_jid, vote);
+    }
+
+    const pollUpdates: proto.IPollUpdate[] = [...latestByVoter.values()].map((vote) => ({
+      pollUpdateMessageKey: { remoteJid: vote.voter_jid, participant: vote.voter_jid, fromMe: false },
+      vote: { selectedOptions: vote.selected_hashes.map((hash) => Buffer.from(hash, 'base64')) },
+    }));
+
+    const tally = getAggregateVotesInPollMessage({
+      message: { pollCreationMessage: { options: pollOptions(poll) } },
+      pollUpdates,
+    });
+
+    await poll.update({
+      poll_data: {
+        ...(poll.poll_data || {}),
+        tally,
+        total_voters: pollUpdates.filter((u) => u.vote?.selectedOptions?.length).length,
+        tallied_at: new Date().toISOString(),
+      },
+    });
+  }
+}
+
+export { PollHandler };
+export default PollHandler;
@@ -0,0 +1,50 @@
+import { Op } from 'sequelize';
+import type { BaileysEventMap } from '@whiskeysockets/baileys';
+import { Contact } from '../models/index.js';
+import presenceTracker from '../services/presence-tracker.service.js';
+import identityService from '../services/identity.service.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const log = createChildLogger('presence-handler');
+
+class PresenceHandler {
+  /**
+   * Handles presence.update events from Baileys.
+   * Moves contacts.last_seen_at forward for anyone seen online (or reporting a last-seen time),
+   * and records the transitions of tracked chats.
+   */
+  static async handlePresenceUpdate({ id, presences }: BaileysEventMap['presence.update']): Promise<void> {
+    const now = new Date();
+
+    for (const [participant, data] of Object.entries(presences)) {
+      const seenAt =
+        data.lastKnownPresence !== 'unavailable' ? now : data.lastSeen ? new Date(data.lastSeen * 1000) : null;
+      if (!seenAt) continue;
+
+      try {
+        const contact = await identityService.resolve(participant);
+        if (!contact) continue;
+
+        await Contact.update(
+          { last_seen_at: seenAt },
+          {
+            where: {
+              id: contact.id,
+              [Op.or]: [{ last_seen_at: null }, { last_seen_at: { [Op.lt]: seenAt } }],
+            },
+          }
+        );
+      } catch (err) {
+        log.error({ err, participant }, 'Failed to update contact last seen');
+      }
+    }
+
+    if (presenceTracker.isTracked(id)) {
+      const recorded = await presenceTracker.record(id, presences);
+      log.debug({ chatJid: id, recorded }, 'Presence recorded');
+    }
+  }
+}
+
+export { PresenceHandler };
+export default PresenceHandler;
@@ -0,0 +1,168 @@
+import { toNumber, type BaileysEventMap, type proto } from '@whiskeysockets/baileys';
+import { Message, sequelize } from '../models/index.js';
+import { authorFromKey } from '../utils/message-keys.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const log = createChildLogger('reaction-handler');
+
+interface ReactionEntry {
+  sender_id: string;
+  sender_name: string | null;
+  timestamp: string;
+}
+
+/**
+ * Shape of messages.reactions: emoji → the senders currently reacting with it.
+ * WhatsApp allows one reaction per sender, so each sender appears at most once.
+ */
+type ReactionMap = Record<string, ReactionEntry[]>;
+
+/**
+ * Extracts when a reaction was sent, falling back when the sender timestamp is missing.
+ */
+export function reactionTimestamp(
+  reaction: proto.IReaction | proto.Message.IReactionMessage,
+  fallback: Date
+): Date {
+  return reaction.senderTimestampMs
+    ? new Date(toNumber(reaction.senderTimestampMs))
+    : fallback;
+}
+
+/**
+ * Folds a sender's reaction into the existing map: adds it, moves it to a new emoji,
+ * or removes it when emoji is null. Returns null when nothing changes, including
+ * when the incoming reaction is older than the one already recorded.
+ */
+function foldReaction(
+  current: ReactionMap,
+  senderId: string,
+  senderName: string | null,
+  emoji: string | null,
+  reactedAt: Date
+): ReactionMap | null {
+  let existingEmoji: string | null = null;
+  let existing: ReactionEntry | null = null;
+
+  for (const [key, entries] of Object.entries(current)) {
+    const entry = entries.find((e) => e.sender_id === senderId);
+    if (entry) {
+      existingEmoji = key;
+      existing = entry;
+      break;
+    }
+  }
+
+  if (!existing && !emoji) return null;
+
+  if (existing) {
+    const existingAt = new Date(existing.timestamp);
+    if (existingAt > reactedAt) return null;
+    if (existingEmoji === emoji && existingAt.getTime() === reactedAt.getTime()) return null;
+  }
+
+  const next: ReactionMap = {};
+  for (const [key, entries] of Object.entries(current)) {
+    const remaining = entries.filter((e) => e.sender_id !== senderId);
+    if (remaining.length > 0) next[key] = remaining;
+  }
+
+  if (emoji) {
+    next[emoji] = [
+      ...(next[emoji] || []),
+      {
+        sender_id: senderId,
+        sender_name: senderName ?? existing?.sender_name ?? null,
+        timestamp: reactedAt.toISOString(),
+      },
+    ];
+  }
+
+  return next;
+}
+
+class ReactionHandler {
+  /**
+   * Handles messages.reaction events from Baileys.
+   * The event key is the reacted-to message; reaction.key identifies who reacted.
+   * An empty reaction text means the reaction was removed.
+   */
+  static async handleReaction(reactions: BaileysEventMap['messages.reaction']): Promise<void> {
+    log.info({ count: reactions.length }, 'Processing message reactions');
+
+    for (const { key, reaction } of reactions) {
+      try {
+        const senderId = authorFromKey(reaction.key);
+        if (!key?.id || !senderId) {
+          log.warn({ key }, 'Skipping reaction with missing key fields');
+          continue;
+        }
+
+        await ReactionHandler.applyReaction(
+          key.id,
+          senderId,
+          null,
+          reaction.text || null,
+          reactionTimestamp(reaction, new Date())
+        );
+      } catch (err) {
+        log.error({ err, messageId: key?.id }, 'Failed to process reaction');
+      }
+    }
+  }
+
+  /**
+   * Applies a single sender's reaction to the target message's reactions map.
+   * Returns false when the target message is not in the archive.
+   */
+  static async applyReaction(
+    targetMessageId: string,
+    senderId: string,
+    senderName: string | null,
+    emoji: string | null,
+    reactedAt: Date
+  ): Promise<boolean> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const message = await Message.findOne({
+        where: { message_id: targetMessageId },
+        lock: transaction.LOCK.UPDATE,
+        transaction,
+      });
+
+      if (!message) {
+        await transaction.rollback();
+        log.debug({ targetMessageId }, 'Reacted-to message not found, skipping');
+        return false;
+      }
+
+      const current = (message.reactions || {}) as ReactionMap;
+      const next = foldReaction(current, senderId, senderName, emoji, reactedAt);
+
+      if (next) {
+        await message.update(
+          { reactions: Object.keys(next).length > 0 ? next : null },
+          { transaction }
+        );
+      }
+
+      await transaction.commit();
+
+      if (next) {
+        log.info(
+          { targetMessageId, senderId, emoji, removed: !emoji },
+          'Reaction applied'
+        );
+      }
+
+      return true;
+    } catch (err) {
+      await transaction.rollback();
+      throw err;
+    }
+  }
+}
+
+export { ReactionHandler };
+export default ReactionHandler;
@@ -0,0 +1,205 @@
+import {
+  proto,
+  toNumber,
+  isJidGroup,
+  isJidStatusBroadcast,
+  type MessageUserReceiptUpdate,
+  type WAMessageKey,
+} from '@whiskeysockets/baileys';
+import { Message, MessageReceipt } from '../models/index.js';
+import type { MessageStatus } from '../models/Message.js';
+import { StatusHandler } from './status.handler.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const log = createChildLogger('receipt-handler');
+
+const STATUS_BY_PROTO: Record<number, MessageStatus> = {
+  [proto.WebMessageInfo.Status.ERROR]: 'error',
+  [proto.WebMessageInfo.Status.PENDING]: 'pending',
+  [proto.WebMessageInfo.Status.SERVER_ACK]: 'sent',
+  [proto.WebMessageInfo.Status.DELIVERY_ACK]: 'delivered',
+  [proto.WebMessageInfo.Status.READ]: 'read',
+  [proto.WebMessageInfo.Status.PLAYED]: 'played',
+};
+
+// Statuses only ever move forward; receipts can arrive out of order
+const STATUS_RANK: MessageStatus[] = ['error', 'pending', 'sent', 'delivered', 'read', 'played'];
+
+/**
+ * Maps a Baileys WebMessageInfo.Status value to our messages.status value.
+ */
+export function statusFromProto(status: number | null | undefined): MessageStatus | null {
+  if (status === null || status === undefined) return null;
+  return STATUS_BY_PROTO[status] ?? null;
+}
+
+interface ReceiptTimes {
+  delivered_at?: Date;
+  read_at?: Date;
+  played_at?: Date;
+}
+
+/**
+ * Converts a WhatsApp user receipt (unix-second timestamps) into receipt times.
+ */
+function timesFromUserReceipt(receipt: proto.IUserReceipt): ReceiptTimes {
+  const times: ReceiptTimes = {};
+  if (receipt.receiptTimestamp) times.delivered_at = new Date(toNumber(receipt.receiptTimestamp) * 1000);
+  if (receipt.readTimestamp) times.read_at = new Date(toNumber(receipt.readTimestamp) * 1000);
+  if (receipt.playedTimestamp) times.played_at = new Date(toNumber(receipt.playedTimestamp) * 1000);
+  return times;
+}
+
+/**
+ * The furthest status implied by a set of receipt times.
+ */
+function statusFromTimes(times: ReceiptTimes): MessageStatus | null {
+  if (times.played_at) return 'played';
+  if (times.read_at) return 'read';
+  if (times.delivered_at) return 'delivered';
+  return null;
+}
+
+class ReceiptHandler {
+  /**
+   * Handles message-receipt.update events from Baileys.
+   * WhatsApp sends these per participant for group and status messages.
+   */
+  static async handleReceiptUpdate(updates: MessageUserReceiptUpdate[]): Promise<void> {
+    log.info({ count: updates.length }, 'Processing message receipts');
+
+    for (const { key, receipt } of updates) {
+      try {
+        if (!key?.id || !receipt.userJid) {
+          log.warn({ key }, 'Skipping receipt with missing key fields');
+          continue;
+        }
+
+        const message = await Message.findOne({ where: { message_id: key.id } });
+        if (!message) {
+          log.debug({ messageId: key.id }, 'Message not found for receipt, skipping');
+          continue;
+        }
+
+        const times = timesFromUserReceipt(receipt);
+        await ReceiptHandler.recordReceipt(message, receipt.userJid, times);
+
+        // A read receipt on someone else's status means one of our devices viewed it
+        if (!message.is_from_me && key.remoteJid && isJidStatusBroadcast(key.remoteJid) && times.read_at) {
+          await StatusHandler.markViewed(key.id, times.read_at);
+        }
+
+        // For groups, messages.status reflects the furthest any recipient has got
+        const status = statusFromTimes(times);
+        if (status) {
+          await ReceiptHandler.upgradeStatus(message, status);
+        }
+      } catch (err) {
+        log.error({ err, messageId: key?.id }, 'Failed to process receipt');
+      }
+    }
+  }
+
+  /**
+   * Applies a status from messages.update, which WhatsApp sends for one-to-one chats.
+   * The chat partner is the only recipient, so a receipt row is recorded for them too.
+   */
+  static async applyStatus(key: WAMessageKey, protoStatus: number): Promise<void> {
+    const status = statusFromProto(protoStatus);
+    if (!key.id || !status) return;
+
+    const message = await Message.findOne({ where: { message_id: key.id } });
+    if (!message || !message.is_from_me) return;
+
+    await ReceiptHandler.upgradeStatus(message, status);
+
+    if (key.remoteJid && !isJidGroup(key.remoteJid)) {
+      const now = new Date();
+      const times: ReceiptTimes = {};
+      if (status === 'delivered') times.delivered_at = now;
+      if (status === 'read') times.read_at = now;
+      if (status === 'played') times.played_at = now;
+
+      if (Object.keys(times).length > 0) {
+        await ReceiptHandler.recordReceipt(message, key.remoteJid, times);
+      }
+    }
+  }
+
+  /**
+   * Records the userReceipt list that history sync attaches to our own messages.
+   */
+  static async recordUserReceipts(message: Message, receipts: proto.IUserReceipt[]): Promise<void> {
+    for (const receipt of receipts) {
+      if (!receipt.userJid) continue;
+
+      const times = timesFromUserReceipt(receipt);
+      await ReceiptHandler.recordReceipt(message, receipt.userJid, times);
+
+      const status = statusFromTimes(times);
+      if (status) {
+        await ReceiptHandler.upgradeStatus(message, status);
+      }
+    }
+  }
+
+  /**
+   * Upserts a recipient's receipt. Each timestamp keeps its earliest value,
+   * and a later stage implies the earlier ones (read implies delivered).
+   */
+  private static async recordReceipt(
+    message: Message,
+    recipientJid: string,
+    times: ReceiptTimes
+  ): Promise<void> {
+    const readAt = times.read_at ?? times.played_at;
+    const filled: ReceiptTimes = {
+      played_at: times.played_at,
+      read_at: readAt,
+      delivered_at: times.delivered_at ?? readAt,
+    };
+
+    const [receipt, created] = await MessageReceipt.findOrCreate({
+      where: { message_id: message.id, recipient_jid: recipientJid },
+      defaults: {
+        message_id: message.id,
+        recipient_jid: recipientJid,
+        delivered_at: filled.delivered_at ?? null,
+        read_at: filled.read_at ?? null,
+        played_at: filled.played_at ?? null,
+      },
+    });
+
+    if (created) return;
+
+    const changes: ReceiptTimes = {};
+    for (const field of ['delivered_at', 'read_at', 'played_at'] as const) {
+      const incoming = filled[field];
+      const existing = receipt[field];
+      if (incoming && (!existing || incoming < existing)) {
+        changes[field] = incoming;
+      }
+    }
+
+    if (Object.keys(changes).length > 0) {
+      await receipt.update(changes);
+      log.debug({ messageId: message.message_id, recipientJid, changes }, 'Receipt updated');
+    }
+  }
+
+  /**
+   * Moves messages.status forward for our own messages; never moves it back.
+   */
+  private static async upgradeStatus(message: Message, status: MessageStatus): Promise<void> {
+    if (!message.is_from_me) return;
+
+    const currentRank = message.status ? STATUS_RANK.indexOf(message.status) : -1;
+    if (STATUS_RANK.indexOf(status) <= currentRank) return;
+
+    await message.update({ status });
+    log.debug({ messageId: message.message_id, status }, 'Message status updated');
+  }
+}
+
+export { ReceiptHandler };
+export default ReceiptHandler;
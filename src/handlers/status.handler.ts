@@ -0,0 +1,58 @@
+import { proto } from '@whiskeysockets/baileys';
+import { Message, Status } from '../models/index.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const log = createChildLogger('status-handler');
+
+// Statuses disappear from WhatsApp a day after they are posted
+const STATUS_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
+class StatusHandler {
+  /**
+   * Records a message posted to status@broadcast as a status update. The message row keeps
+   * the content and media (which goes through the normal media queue); this adds the status view
+   * of it: author, caption, posting and expiry time, and whether we have seen it.
+   */
+  static async recordStatus(message: Message, msg: proto.IWebMessageInfo): Promise<Status> {
+    const viewed = !message.is_from_me && (msg.status ?? 0) >= proto.WebMessageInfo.Status.READ;
+
+    const [status, created] = await Status.findOrCreate({
+      where: { message_id: message.id },
+      defaults: {
+        message_id: message.id,
+        author_jid: message.is_from_me ? 'me' : message.sender_id,
+        author_name: message.sender_name,
+        is_from_me: message.is_from_me,
+        status_type: message.message_type,
+        caption: message.body,
+        posted_at: message.timestamp,
+        expires_at: new Date(message.timestamp.getTime() + STATUS_LIFETIME_MS),
+        is_viewed: viewed,
+      },
+    });
+
+    if (created) {
+      log.info({ statusId: status.id, author: status.author_jid, type: status.status_type }, 'Status saved');
+    } else if (viewed && !status.is_viewed) {
+      await status.update({ is_viewed: true });
+    }
+    return status;
+  }
+
+  /**
+   * Marks someone else's status as seen by us, keeping the first time it was viewed.
+   */
+  static async markViewed(messageId: string, viewedAt: Date): Promise<void> {
+    const message = await Message.findOne({ where: { message_id: messageId }, attributes: ['id', 'is_from_me'] });
+    if (!message || message.is_from_me) return;
+
+    const status = await Status.findOne({ where: { message_id: message.id } });
+    if (!status || status.viewed_at) return;
+
+    await status.update({ is_viewed: true, viewed_at: viewedAt });
+    log.debug({ statusId: status.id }, 'Status marked as viewed');
+  }
+}
+
+export { StatusHandler };
+export default StatusHandler;
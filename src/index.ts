@@ -5,12 +5,23 @@ import logger, { createChildLogger } from './utils/logger.js';
 import { testConnection } from './config/database.js';
 import './models/index.js';
 import whatsappService from './services/whatsapp.service.js';
+import mediaQueue from './services/media-queue.service.js';
+import presenceTracker from './services/presence-tracker.service.js';
+import contactEnrichment from './services/contact-enrichment.service.js';
+import newsletterService from './services/newsletter.service.js';
+import groupSync from './services/group-sync.service.js';
 import { createServer } from './api/server.js';
 import MessageHandler from './handlers/message.handler.js';
+import ReactionHandler from './handlers/reaction.handler.js';
+import ReceiptHandler from './handlers/receipt.handler.js';
 import HistoryHandler from './handlers/history.handler.js';
 import ChatHandler from './handlers/chat.handler.js';
 import ContactHandler from './handlers/contact.handler.js';
 import GroupHandler from './handlers/group.handler.js';
+import CallHandler from './handlers/call.handler.js';
+import PresenceHandler from './handlers/presence.handler.js';
+import NewsletterHandler from './handlers/newsletter.handler.js';
+import LabelHandler from './handlers/label.handler.js';
 
 const log = createChildLogger('main');
 
@@ -30,6 +41,38 @@ async function main(): Promise<void> {
     }
   });
 
+  whatsappService.onPersistent('messages.update', async (data) => {
+    try {
+      await MessageHandler.handleUpdate(data);
+    } catch (err) {
+      log.error({ err }, 'Error in messages.update handler');
+    }
+  });
+
+  whatsappService.onPersistent('messages.delete', async (data) => {
+    try {
+      await MessageHandler.handleDelete(data);
+    } catch (err) {
+      log.error({ err }, 'Error in messages.delete handler');
+    }
+  });
+
+  whatsappService.onPersistent('messages.reaction', async (data) => {
+    try {
+      await ReactionHandler.handleReaction(data);
+    } catch (err) {
+      log.error({ err }, 'Error in messages.reaction handler');
+    }
+  });
+
+  whatsappService.onPersistent('message-receipt.update', async (data) => {
+    try {
+      await ReceiptHandler.handleReceiptUpdate(data);
+    } catch (err) {
+      log.error({ err }, 'Error in message-receipt.update handler');
+    }
+  });
+
   whatsappService.onPersistent('messaging-history.set', async (data) => {
     try {
       await HistoryHandler.handleHistorySet(data as unknown as Parameters<typeof HistoryHandler.handleHistorySet>[0]);
@@ -46,6 +89,14 @@ async function main(): Promise<void> {
     }
   });
 
+  whatsappService.onPersistent('chats.delete', async (data) => {
+    try {
+      await ChatHandler.handleDelete(data);
+    } catch (err) {
+      log.error({ err }, 'Error in chats.delete handler');
+    }
+  });
+
   whatsappService.onPersistent('contacts.update', async (data) => {
     try {
       await ContactHandler.handleUpdate(data as Parameters<typeof ContactHandler.handleUpdate>[0]);
@@ -54,6 +105,30 @@ async function main(): Promise<void> {
     }
   });
 
+  whatsappService.onPersistent('contacts.upsert', async (data) => {
+    try {
+      await ContactHandler.handleUpdate(data as Parameters<typeof ContactHandler.handleUpdate>[0]);
+    } catch (err) {
+      log.error({ err }, 'Error in contacts.upsert handler');
+    }
+  });
+
+  whatsappService.onPersistent('lid-mapping.update', async (data) => {
+    try {
+      await ContactHandler.handleLidMapping(data);
+    } catch (err) {
+      log.error({ err }, 'Error in lid-mapping.update handler');
+    }
+  });
+
+  whatsappService.onPersistent('groups.upsert', async (data) => {
+    try {
+      await GroupHandler.handleGroupsUpsert(data);
+    } catch (err) {
+      log.error({ err }, 'Error in groups.upsert handler');
+    }
+  });
+
   whatsappService.onPersistent('groups.update', async (data) => {
     try {
       await GroupHandler.handleGroupUpdate(data as Parameters<typeof GroupHandler.handleGroupUpdate>[0]);
@@ -64,26 +139,129 @@ async function main(): Promise<void> {
 
   whatsappService.onPersistent('group-participants.update', async (data) => {
     try {
-      await GroupHandler.handleParticipantsUpdate(data as unknown as Parameters<typeof GroupHandler.handleParticipantsUpdate>[0]);
+      await GroupHandler.handleParticipantsUpdate(data);
     } catch (err) {
       log.error({ err }, 'Error in group-participants.update handler');
     }
   });
 
-  // 3. Connect to WhatsApp (syncFullHistory: true for fresh session history sync)
-  await whatsappService.connect({ syncFullHistory: true });
-  log.info('WhatsApp socket created, waiting for connection...');
+  whatsappService.onPersistent('group.join-request', async (data) => {
+    try {
+      await GroupHandler.handleJoinRequest(data);
+    } catch (err) {
+      log.error({ err }, 'Error in group.join-request handler');
+    }
+  });
+
+  whatsappService.onPersistent('call', async (data) => {
+    try {
+      await CallHandler.handleCall(data);
+    } catch (err) {
+      log.error({ err }, 'Error in call handler');
+    }
+  });
+
+  whatsappService.onPersistent('presence.update', async (data) => {
+    try {
+      await PresenceHandler.handlePresenceUpdate(data);
+    } catch (err) {
+      log.error({ err }, 'Error in presence.update handler');
+    }
+  });
+
+  whatsappService.onPersistent('newsletter.reaction', async (data) => {
+    try {
+      await NewsletterHandler.handleReaction(data);
+    } catch (err) {
+      log.error({ err }, 'Error in newsletter.reaction handler');
+    }
+  });
+
+  whatsappService.onPersistent('newsletter.view', async (data) => {
+    try {
+      await NewsletterHandler.handleView(data);
+    } catch (err) {
+      log.error({ err }, 'Error in newsletter.view handler');
+    }
+  });
+
+  whatsappService.onPersistent('newsletter-settings.update', async (data) => {
+    try {
+      await NewsletterHandler.handleSettingsUpdate(data);
+    } catch (err) {
+      log.error({ err }, 'Error in newsletter-settings.update handler');
+    }
+  });
+
+  whatsappService.onPersistent('labels.edit', async (data) => {
+    try {
+      await LabelHandler.handleLabelEdit(data);
+    } catch (err) {
+      log.error({ err }, 'Error in labels.edit handler');
+    }
+  });
+
+  whatsappService.onPersistent('labels.association', async (data) => {
+    try {
+      await LabelHandler.handleLabelAssociation(data);
+    } catch (err) {
+      log.error({ err }, 'Error in labels.association handler');
+    }
+  });
+
+  // Presence subscriptions are per connection, so renew them whenever it opens
+  whatsappService.onPersistent('connection.update', async (update) => {
+    if (update.connection !== 'open') return;
+    try {
+      await presenceTracker.subscribeAll();
+    } catch (err) {
+      log.error({ err }, 'Error subscribing to presence');
+    }
+  });
+
+  // Incremental group events are missed while offline, so reconcile every group on each connect
+  whatsappService.onPersistent('connection.update', async (update) => {
+    if (update.connection !== 'open') return;
+    try {
+      await groupSync.syncAll();
+    } catch (err) {
+      log.error({ err }, 'Error reconciling groups');
+    }
+  });
+
+  // Channel live updates are per connection too
+  whatsappService.onPersistent('connection.update', async (update) => {
+    if (update.connection !== 'open') return;
+    try {
+      await newsletterService.subscribeAll();
+    } catch (err) {
+      log.error({ err }, 'Error subscribing to newsletter updates');
+    }
+  });
+
+  // 3. Connect every enabled account (syncFullHistory: true for fresh session history sync)
+  await whatsappService.connectAll({ syncFullHistory: true });
+  log.info('WhatsApp sockets created, waiting for connections...');
+
+  // 4. Start downloading queued media in the background
+  mediaQueue.start();
+  presenceTracker.start();
+  contactEnrichment.start();
 
-  // 4. Start Express API server
+  // 5. Start Express API server
   const port = parseInt(process.env.PORT || '3001', 10);
   const app = createServer();
   app.listen(port, () => {
     log.info({ port }, `API server listening on http://localhost:${port}`);
   });
 
-  // 5. Graceful shutdown
+  // 6. Graceful shutdown
   const shutdown = async (signal: string) => {
     log.info({ signal }, 'Received shutdown signal, cleaning up...');
+    mediaQueue.stop();
+    presenceTracker.stop();
+    contactEnrichment.stop();
+    newsletterService.stop();
     await whatsappService.disconnect();
     process.exit(0);
   };
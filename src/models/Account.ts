@@ -0,0 +1,67 @@
+import {
+  DataTypes,
+  Model,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type CreationOptional,
+  type Sequelize,
+} from 'sequelize';
+
+const ACCOUNT_STATUSES = ['disconnected', 'connecting', 'qr', 'open', 'logged_out'] as const;
+
+type AccountStatus = (typeof ACCOUNT_STATUSES)[number];
+
+// Account names end up in URLs and session directory names
+const ACCOUNT_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+class Account extends Model<InferAttributes<Account>, InferCreationAttributes<Account>> {
+  declare id: CreationOptional<number>;
+  declare name: string;
+  declare display_name: CreationOptional<string | null>;
+  declare phone_jid: CreationOptional<string | null>;
+  declare lid_jid: CreationOptional<string | null>;
+  declare status: CreationOptional<AccountStatus>;
+  declare is_enabled: CreationOptional<boolean>;
+  declare last_connected_at: CreationOptional<Date | null>;
+  declare created_at: CreationOptional<Date>;
+  declare updated_at: CreationOptional<Date>;
+
+  static initModel(sequelize: Sequelize): typeof Account {
+    Account.init(
+      {
+        id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
+        name: {
+          type: DataTypes.STRING(64),
+          unique: true,
+          allowNull: false,
+          validate: { is: ACCOUNT_NAME_PATTERN },
+        },
+        display_name: { type: DataTypes.STRING(255), allowNull: true },
+        phone_jid: { type: DataTypes.STRING(100), allowNull: true },
+        lid_jid: { type: DataTypes.STRING(100), allowNull: true },
+        status: {
+          type: DataTypes.STRING(20),
+          allowNull: false,
+          defaultValue: 'disconnected',
+          validate: { isIn: [ACCOUNT_STATUSES] },
+        },
+        is_enabled: { type: DataTypes.BOOLEAN, allowNull: false, defaultValue: true },
+        last_connected_at: { type: DataTypes.DATE, allowNull: true },
+        created_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+        updated_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+      },
+      {
+        sequelize,
+        tableName: 'accounts',
+        timestamps: true,
+        underscored: true,
+        createdAt: 'created_at',
+        updatedAt: 'updated_at',
+      },
+    );
+    return Account;
+  }
+}
+
+export { Account, ACCOUNT_STATUSES, ACCOUNT_NAME_PATTERN, type AccountStatus };
+export default Account;
@@ -0,0 +1,53 @@
+import {
+  DataTypes,
+  Model,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type CreationOptional,
+  type ForeignKey,
+  type Sequelize,
+} from 'sequelize';
+
+class AuthKey extends Model<InferAttributes<AuthKey>, InferCreationAttributes<AuthKey>> {
+  declare id: CreationOptional<number>;
+  declare account_id: ForeignKey<number>;
+  declare category: string;
+  declare key_id: string;
+  declare data: string;
+  declare is_encrypted: CreationOptional<boolean>;
+  declare created_at: CreationOptional<Date>;
+  declare updated_at: CreationOptional<Date>;
+
+  static initModel(sequelize: Sequelize): typeof AuthKey {
+    AuthKey.init(
+      {
+        id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
+        account_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          unique: 'unique_auth_key',
+          references: { model: 'accounts', key: 'id' },
+          onDelete: 'CASCADE',
+        },
+        category: { type: DataTypes.STRING(64), allowNull: false, unique: 'unique_auth_key' },
+        key_id: { type: DataTypes.STRING(512), allowNull: false, unique: 'unique_auth_key' },
+        data: { type: DataTypes.TEXT, allowNull: false },
+        is_encrypted: { type: DataTypes.BOOLEAN, allowNull: false, defaultValue: false },
+        created_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+        updated_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+      },
+      {
+        sequelize,
+        tableName: 'auth_keys',
+        timestamps: true,
+        underscored: true,
+        createdAt: 'created_at',
+        updatedAt: 'updated_at',
+      },
+    );
+    return AuthKey;
+  }
+}
+
+export { AuthKey };
+export default AuthKey;
@@ -0,0 +1,104 @@
+import {
+  DataTypes,
+  Model,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type CreationOptional,
+  type ForeignKey,
+  type NonAttribute,
+  type BelongsToGetAssociationMixin,
+  type Sequelize,
+} from 'sequelize';
+import type { Chat } from './Chat.js';
+
+type CallDirection = 'incoming' | 'outgoing';
+type CallMediaType = 'voice' | 'video';
+type CallStatus = 'ringing' | 'ongoing' | 'ended' | 'missed' | 'rejected';
+
+class Call extends Model<InferAttributes<Call>, InferCreationAttributes<Call>> {
+  declare id: CreationOptional<number>;
+  declare account_id: ForeignKey<CreationOptional<number>>;
+  declare call_id: string;
+  declare chat_id: ForeignKey<number> | null;
+  declare caller_jid: CreationOptional<string | null>;
+  declare group_jid: CreationOptional<string | null>;
+  declare is_group: CreationOptional<boolean>;
+  declare participants: CreationOptional<string[]>;
+  declare direction: CallDirection;
+  declare media_type: CreationOptional<CallMediaType>;
+  declare status: CallStatus;
+  declare started_at: Date;
+  declare answered_at: CreationOptional<Date | null>;
+  declare ended_at: CreationOptional<Date | null>;
+  declare duration_seconds: CreationOptional<number | null>;
+  declare created_at: CreationOptional<Date>;
+  declare updated_at: CreationOptional<Date>;
+
+  // Associations
+  declare chat?: NonAttribute<Chat>;
+  declare getChat: BelongsToGetAssociationMixin<Chat>;
+
+  static associate(models: { Chat: typeof Chat }): void {
+    Call.belongsTo(models.Chat, { foreignKey: 'chat_id', as: 'chat' });
+  }
+
+  static initModel(sequelize: Sequelize): typeof Call {
+    Call.init(
+      {
+        id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
+        account_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          references: { model: 'accounts', key: 'id' },
+          onDelete: 'CASCADE',
+          unique: 'unique_call_account',
+        },
+        call_id: { type: DataTypes.STRING(255), unique: 'unique_call_account', allowNull: false },
+        chat_id: {
+          type: DataTypes.BIGINT,
+          allowNull: true,
+          references: { model: 'chats', key: 'id' },
+          onDelete: 'SET NULL',
+        },
+        caller_jid: { type: DataTypes.STRING(255), allowNull: true },
+        group_jid: { type: DataTypes.STRING(255), allowNull: true },
+        is_group: { type: DataTypes.BOOLEAN, allowNull: false, defaultValue: false },
+        participants: { type: DataTypes.JSONB, allowNull: false, defaultValue: [] },
+        direction: {
+          type: DataTypes.STRING(10),
+          allowNull: false,
+          validate: { isIn: [['incoming', 'outgoing']] },
+        },
+        media_type: {
+          type: DataTypes.STRING(10),
+          allowNull: false,
+          defaultValue: 'voice',
+          validate: { isIn: [['voice', 'video']] },
+        },
+        status: {
+          type: DataTypes.STRING(20),
+          allowNull: false,
+          validate: { isIn: [['ringing', 'ongoing', 'ended', 'missed', 'rejected']] },
+        },
+        started_at: { type: DataTypes.DATE, allowNull: false },
+        answered_at: { type: DataTypes.DATE, allowNull: true },
+        ended_at: { type: DataTypes.DATE, allowNull: true },
+        duration_seconds: { type: DataTypes.INTEGER, allowNull: true },
+        created_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+        updated_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+      },
+      {
+        sequelize,
+        tableName: 'calls',
+        timestamps: true,
+        underscored: true,
+        createdAt: 'created_at',
+        updatedAt: 'updated_at',
+      },
+    );
+    return Call;
+  }
+}
+
+export { Call, type CallDirection, type CallMediaType, type CallStatus };
+export default Call;
@@ -4,20 +4,29 @@ import {
   type InferAttributes,
   type InferCreationAttributes,
   type CreationOptional,
+  type ForeignKey,
   type NonAttribute,
   type HasManyGetAssociationsMixin,
   type HasOneGetAssociationMixin,
+  type BelongsToManyGetAssociationsMixin,
   type Sequelize,
 } from 'sequelize';
 import type { Message } from './Message.js';
 import type { GroupMetadata } from './GroupMetadata.js';
+import type { Call } from './Call.js';
+import type { Label } from './Label.js';
+import type { ChatLabel } from './ChatLabel.js';
+import type { GroupEvent } from './GroupEvent.js';
+import type { ProfilePicture } from './ProfilePicture.js';
 
 class Chat extends Model<InferAttributes<Chat>, InferCreationAttributes<Chat>> {
   declare id: CreationOptional<number>;
+  declare account_id: ForeignKey<CreationOptional<number>>;
   declare chat_id: string;
-  declare chat_type: 'private' | 'group' | 'broadcast';
+  declare chat_type: 'private' | 'group' | 'broadcast' | 'status' | 'newsletter';
   declare name: CreationOptional<string | null>;
   declare avatar_url: CreationOptional<string | null>;
+  declare avatar_refreshed_at: CreationOptional<Date | null>;
   declare description: CreationOptional<string | null>;
   declare is_archived: CreationOptional<boolean>;
   declare is_pinned: CreationOptional<boolean>;
@@ -28,6 +37,8 @@ class Chat extends Model<InferAttributes<Chat>, InferCreationAttributes<Chat>> {
   declare total_message_count: CreationOptional<number>;
   declare participant_count: CreationOptional<number | null>;
   declare is_read_only: CreationOptional<boolean>;
+  declare is_deleted: CreationOptional<boolean>;
+  declare deleted_at: CreationOptional<Date | null>;
   declare metadata: CreationOptional<Record<string, unknown> | null>;
   declare created_at: CreationOptional<Date>;
   declare updated_at: CreationOptional<Date>;
@@ -35,29 +46,54 @@ class Chat extends Model<InferAttributes<Chat>, InferCreationAttributes<Chat>> {
   // Associations
   declare messages?: NonAttribute<Message[]>;
   declare groupMetadata?: NonAttribute<GroupMetadata>;
+  declare calls?: NonAttribute<Call[]>;
+  declare labels?: NonAttribute<Label[]>;
+  declare groupEvents?: NonAttribute<GroupEvent[]>;
+  declare pictures?: NonAttribute<ProfilePicture[]>;
   declare getMessages: HasManyGetAssociationsMixin<Message>;
   declare getGroupMetadata: HasOneGetAssociationMixin<GroupMetadata>;
+  declare getCalls: HasManyGetAssociationsMixin<Call>;
+  declare getLabels: BelongsToManyGetAssociationsMixin<Label>;
+  declare getGroupEvents: HasManyGetAssociationsMixin<GroupEvent>;
+  declare getPictures: HasManyGetAssociationsMixin<ProfilePicture>;
 
   static associate(models: {
     Message: typeof Message;
     GroupMetadata: typeof GroupMetadata;
+    Call: typeof Call;
+    Label: typeof Label;
+    ChatLabel: typeof ChatLabel;
+    GroupEvent: typeof GroupEvent;
+    ProfilePicture: typeof ProfilePicture;
   }): void {
     Chat.hasMany(models.Message, { foreignKey: 'chat_id', as: 'messages' });
     Chat.hasOne(models.GroupMetadata, { foreignKey: 'chat_id', as: 'groupMetadata' });
+    Chat.hasMany(models.Call, { foreignKey: 'chat_id', as: 'calls' });
+    Chat.hasMany(models.GroupEvent, { foreignKey: 'chat_id', as: 'groupEvents' });
+    Chat.hasMany(models.ProfilePicture, { foreignKey: 'chat_id', as: 'pictures' });
+    Chat.belongsToMany(models.Label, { through: models.ChatLabel, foreignKey: 'chat_id', otherKey: 'label_id', as: 'labels' });
   }
 
   static initModel(sequelize: Sequelize): typeof Chat {
     Chat.init(
       {
         id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
-        chat_id: { type: DataTypes.STRING(255), unique: true, allowNull: false },
+        account_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          references: { model: 'accounts', key: 'id' },
+          onDelete: 'CASCADE',
+          unique: 'unique_chat_account',
+        },
+        chat_id: { type: DataTypes.STRING(255), unique: 'unique_chat_account', allowNull: false },
         chat_type: {
           type: DataTypes.STRING(20),
           allowNull: false,
-          validate: { isIn: [['private', 'group', 'broadcast']] },
+          validate: { isIn: [['private', 'group', 'broadcast', 'status', 'newsletter']] },
         },
         name: { type: DataTypes.STRING(255), allowNull: true },
         avatar_url: { type: DataTypes.TEXT, allowNull: true },
+        avatar_refreshed_at: { type: DataTypes.DATE, allowNull: true },
         description: { type: DataTypes.TEXT, allowNull: true },
         is_archived: { type: DataTypes.BOOLEAN, defaultValue: false },
         is_pinned: { type: DataTypes.BOOLEAN, defaultValue: false },
@@ -68,6 +104,8 @@ class Chat extends Model<InferAttributes<Chat>, InferCreationAttributes<Chat>> {
         total_message_count: { type: DataTypes.BIGINT, defaultValue: 0 },
         participant_count: { type: DataTypes.INTEGER, allowNull: true },
         is_read_only: { type: DataTypes.BOOLEAN, defaultValue: false },
+        is_deleted: { type: DataTypes.BOOLEAN, defaultValue: false },
+        deleted_at: { type: DataTypes.DATE, allowNull: true },
         metadata: { type: DataTypes.JSONB, allowNull: true },
         created_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
         updated_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
@@ -0,0 +1,66 @@
+import {
+  DataTypes,
+  Model,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type CreationOptional,
+  type ForeignKey,
+  type NonAttribute,
+  type BelongsToGetAssociationMixin,
+  type Sequelize,
+} from 'sequelize';
+import type { Chat } from './Chat.js';
+import type { Label } from './Label.js';
+
+class ChatLabel extends Model<InferAttributes<ChatLabel>, InferCreationAttributes<ChatLabel>> {
+  declare id: CreationOptional<number>;
+  declare chat_id: ForeignKey<number>;
+  declare label_id: ForeignKey<number>;
+  declare created_at: CreationOptional<Date>;
+  declare updated_at: CreationOptional<Date>;
+
+  // Associations
+  declare chat?: NonAttribute<Chat>;
+  declare label?: NonAttribute<Label>;
+  declare getChat: BelongsToGetAssociationMixin<Chat>;
+  declare getLabel: BelongsToGetAssociationMixin<Label>;
+
+  static associate(models: { Chat: typeof Chat; Label: typeof Label }): void {
+    ChatLabel.belongsTo(models.Chat, { foreignKey: 'chat_id', as: 'chat' });
+    ChatLabel.belongsTo(models.Label, { foreignKey: 'label_id', as: 'label' });
+  }
+
+  static initModel(sequelize: Sequelize): typeof ChatLabel {
+    ChatLabel.init(
+      {
+        id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
+        chat_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          references: { model: 'chats', key: 'id' },
+          onDelete: 'CASCADE',
+        },
+        label_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          references: { model: 'labels', key: 'id' },
+          onDelete: 'CASCADE',
+        },
+        created_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+        updated_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+      },
+      {
+        sequelize,
+        tableName: 'chat_labels',
+        timestamps: true,
+        underscored: true,
+        createdAt: 'created_at',
+        updatedAt: 'updated_at',
+      },
+    );
+    return ChatLabel;
+  }
+}
+
+export { ChatLabel };
+export default ChatLabel;
@@ -4,16 +4,23 @@ import {
   type InferAttributes,
   type InferCreationAttributes,
   type CreationOptional,
+  type ForeignKey,
+  type NonAttribute,
+  type HasManyGetAssociationsMixin,
   type Sequelize,
 } from 'sequelize';
+import type { ContactIdentity } from './ContactIdentity.js';
+import type { ProfilePicture } from './ProfilePicture.js';
 
 class Contact extends Model<InferAttributes<Contact>, InferCreationAttributes<Contact>> {
   declare id: CreationOptional<number>;
+  declare account_id: ForeignKey<CreationOptional<number>>;
   declare contact_id: string;
   declare phone_number: CreationOptional<string | null>;
   declare name: CreationOptional<string | null>;
   declare nickname: CreationOptional<string | null>;
   declare about: CreationOptional<string | null>;
+  declare about_set_at: CreationOptional<Date | null>;
   declare avatar_url: CreationOptional<string | null>;
   declare is_business: CreationOptional<boolean>;
   declare is_enterprise: CreationOptional<boolean>;
@@ -21,22 +28,40 @@ class Contact extends Model<InferAttributes<Contact>, InferCreationAttributes<Co
   declare metadata: CreationOptional<Record<string, unknown> | null>;
   declare first_seen_at: CreationOptional<Date>;
   declare last_seen_at: CreationOptional<Date | null>;
+  declare about_refreshed_at: CreationOptional<Date | null>;
+  declare avatar_refreshed_at: CreationOptional<Date | null>;
+  declare business_profile_refreshed_at: CreationOptional<Date | null>;
   declare created_at: CreationOptional<Date>;
   declare updated_at: CreationOptional<Date>;
 
-  static associate(_models: Record<string, unknown>): void {
-    // Contact has no direct associations in current schema
+  // Associations
+  declare identities?: NonAttribute<ContactIdentity[]>;
+  declare pictures?: NonAttribute<ProfilePicture[]>;
+  declare getIdentities: HasManyGetAssociationsMixin<ContactIdentity>;
+  declare getPictures: HasManyGetAssociationsMixin<ProfilePicture>;
+
+  static associate(models: { ContactIdentity: typeof ContactIdentity; ProfilePicture: typeof ProfilePicture }): void {
+    Contact.hasMany(models.ContactIdentity, { foreignKey: 'contact_id', as: 'identities' });
+    Contact.hasMany(models.ProfilePicture, { foreignKey: 'contact_id', as: 'pictures' });
   }
 
   static initModel(sequelize: Sequelize): typeof Contact {
     Contact.init(
       {
         id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
-        contact_id: { type: DataTypes.STRING(100), unique: true, allowNull: false },
+        account_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          references: { model: 'accounts', key: 'id' },
+          onDelete: 'CASCADE',
+          unique: 'unique_contact_account',
+        },
+        contact_id: { type: DataTypes.STRING(100), unique: 'unique_contact_account', allowNull: false },
         phone_number: { type: DataTypes.STRING(20), allowNull: true },
         name: { type: DataTypes.STRING(255), allowNull: true },
         nickname: { type: DataTypes.STRING(255), allowNull: true },
         about: { type: DataTypes.TEXT, allowNull: true },
+        about_set_at: { type: DataTypes.DATE, allowNull: true },
         avatar_url: { type: DataTypes.TEXT, allowNull: true },
         is_business: { type: DataTypes.BOOLEAN, defaultValue: false },
         is_enterprise: { type: DataTypes.BOOLEAN, defaultValue: false },
@@ -44,6 +69,9 @@ class Contact extends Model<InferAttributes<Contact>, InferCreationAttributes<Co
         metadata: { type: DataTypes.JSONB, allowNull: true },
         first_seen_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
         last_seen_at: { type: DataTypes.DATE, allowNull: true },
+        about_refreshed_at: { type: DataTypes.DATE, allowNull: true },
+        avatar_refreshed_at: { type: DataTypes.DATE, allowNull: true },
+        business_profile_refreshed_at: { type: DataTypes.DATE, allowNull: true },
         created_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
         updated_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
       },
@@ -0,0 +1,77 @@
+import {
+  DataTypes,
+  Model,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type CreationOptional,
+  type ForeignKey,
+  type NonAttribute,
+  type BelongsToGetAssociationMixin,
+  type Sequelize,
+} from 'sequelize';
+import type { Contact } from './Contact.js';
+
+const IDENTITY_KINDS = ['pn', 'lid'] as const;
+
+type IdentityKind = (typeof IDENTITY_KINDS)[number];
+
+class ContactIdentity extends Model<InferAttributes<ContactIdentity>, InferCreationAttributes<ContactIdentity>> {
+  declare id: CreationOptional<number>;
+  declare account_id: ForeignKey<CreationOptional<number>>;
+  declare contact_id: ForeignKey<number>;
+  declare jid: string;
+  declare kind: IdentityKind;
+  declare source: CreationOptional<string | null>;
+  declare created_at: CreationOptional<Date>;
+  declare updated_at: CreationOptional<Date>;
+
+  // Associations
+  declare contact?: NonAttribute<Contact>;
+  declare getContact: BelongsToGetAssociationMixin<Contact>;
+
+  static associate(models: { Contact: typeof Contact }): void {
+    ContactIdentity.belongsTo(models.Contact, { foreignKey: 'contact_id', as: 'contact' });
+  }
+
+  static initModel(sequelize: Sequelize): typeof ContactIdentity {
+    ContactIdentity.init(
+      {
+        id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
+        account_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          references: { model: 'accounts', key: 'id' },
+          onDelete: 'CASCADE',
+          unique: 'unique_identity_account',
+        },
+        contact_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          references: { model: 'contacts', key: 'id' },
+          onDelete: 'CASCADE',
+        },
+        jid: { type: DataTypes.STRING(100), unique: 'unique_identity_account', allowNull: false },
+        kind: {
+          type: DataTypes.STRING(10),
+          allowNull: false,
+          validate: { isIn: [IDENTITY_KINDS] },
+        },
+        source: { type: DataTypes.STRING(30), allowNull: true },
+        created_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+        updated_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+      },
+      {
+        sequelize,
+        tableName: 'contact_identities',
+        timestamps: true,
+        underscored: true,
+        createdAt: 'created_at',
+        updatedAt: 'updated_at',
+      },
+    );
+    return ContactIdentity;
+  }
+}
+
+export { ContactIdentity, IDENTITY_KINDS, type IdentityKind };
+export default ContactIdentity;
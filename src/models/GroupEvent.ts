@@ -0,0 +1,74 @@
+import {
+  DataTypes,
+  Model,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type CreationOptional,
+  type ForeignKey,
+  type NonAttribute,
+  type BelongsToGetAssociationMixin,
+  type Sequelize,
+} from 'sequelize';
+import type { Chat } from './Chat.js';
+
+const GROUP_EVENT_TYPES = [
+  'add', 'join', 'remove', 'leave', 'promote', 'demote', 'modify',
+  'subject', 'description', 'settings', 'invite_link', 'join_request',
+] as const;
+
+type GroupEventType = (typeof GROUP_EVENT_TYPES)[number];
+
+class GroupEvent extends Model<InferAttributes<GroupEvent>, InferCreationAttributes<GroupEvent>> {
+  declare id: CreationOptional<number>;
+  declare chat_id: ForeignKey<number>;
+  declare event_type: GroupEventType;
+  declare actor_jid: CreationOptional<string | null>;
+  declare actor_pn: CreationOptional<string | null>;
+  declare participant_jid: CreationOptional<string | null>;
+  declare participant_pn: CreationOptional<string | null>;
+  declare details: CreationOptional<Record<string, unknown> | null>;
+  declare occurred_at: Date;
+
+  // Associations
+  declare chat?: NonAttribute<Chat>;
+  declare getChat: BelongsToGetAssociationMixin<Chat>;
+
+  static associate(models: { Chat: typeof Chat }): void {
+    GroupEvent.belongsTo(models.Chat, { foreignKey: 'chat_id', as: 'chat' });
+  }
+
+  static initModel(sequelize: Sequelize): typeof GroupEvent {
+    GroupEvent.init(
+      {
+        id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
+        chat_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          references: { model: 'chats', key: 'id' },
+          onDelete: 'CASCADE',
+        },
+        event_type: {
+          type: DataTypes.STRING(20),
+          allowNull: false,
+          validate: { isIn: [GROUP_EVENT_TYPES] },
+        },
+        actor_jid: { type: DataTypes.STRING(255), allowNull: true },
+        actor_pn: { type: DataTypes.STRING(255), allowNull: true },
+        participant_jid: { type: DataTypes.STRING(255), allowNull: true },
+        participant_pn: { type: DataTypes.STRING(255), allowNull: true },
+        details: { type: DataTypes.JSONB, allowNull: true },
+        occurred_at: { type: DataTypes.DATE, allowNull: false },
+      },
+      {
+        sequelize,
+        tableName: 'group_events',
+        timestamps: false,
+        underscored: true,
+      },
+    );
+    return GroupEvent;
+  }
+}
+
+export { GroupEvent, GROUP_EVENT_TYPES, type GroupEventType };
+export default GroupEvent;
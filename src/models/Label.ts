@@ -0,0 +1,78 @@
+import {
+  DataTypes,
+  Model,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type CreationOptional,
+  type ForeignKey,
+  type NonAttribute,
+  type BelongsToManyGetAssociationsMixin,
+  type HasManyGetAssociationsMixin,
+  type Sequelize,
+} from 'sequelize';
+import type { Chat } from './Chat.js';
+import type { ChatLabel } from './ChatLabel.js';
+import type { MessageLabel } from './MessageLabel.js';
+
+class Label extends Model<InferAttributes<Label>, InferCreationAttributes<Label>> {
+  declare id: CreationOptional<number>;
+  declare account_id: ForeignKey<CreationOptional<number>>;
+  declare label_id: string;
+  declare name: CreationOptional<string | null>;
+  declare color: CreationOptional<number | null>;
+  declare predefined_id: CreationOptional<string | null>;
+  declare is_deleted: CreationOptional<boolean>;
+  declare deleted_at: CreationOptional<Date | null>;
+  declare created_at: CreationOptional<Date>;
+  declare updated_at: CreationOptional<Date>;
+
+  // Associations
+  declare chats?: NonAttribute<Chat[]>;
+  declare messageLabels?: NonAttribute<MessageLabel[]>;
+  declare getChats: BelongsToManyGetAssociationsMixin<Chat>;
+  declare getMessageLabels: HasManyGetAssociationsMixin<MessageLabel>;
+
+  static associate(models: {
+    Chat: typeof Chat;
+    ChatLabel: typeof ChatLabel;
+    MessageLabel: typeof MessageLabel;
+  }): void {
+    Label.belongsToMany(models.Chat, { through: models.ChatLabel, foreignKey: 'label_id', otherKey: 'chat_id', as: 'chats' });
+    Label.hasMany(models.MessageLabel, { foreignKey: 'label_id', as: 'messageLabels' });
+  }
+
+  static initModel(sequelize: Sequelize): typeof Label {
+    Label.init(
+      {
+        id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
+        account_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          references: { model: 'accounts', key: 'id' },
+          onDelete: 'CASCADE',
+          unique: 'unique_label_account',
+        },
+        label_id: { type: DataTypes.STRING(64), unique: 'unique_label_account', allowNull: false },
+        name: { type: DataTypes.STRING(255), allowNull: true },
+        color: { type: DataTypes.INTEGER, allowNull: true },
+        predefined_id: { type: DataTypes.STRING(16), allowNull: true },
+        is_deleted: { type: DataTypes.BOOLEAN, defaultValue: false },
+        deleted_at: { type: DataTypes.DATE, allowNull: true },
+        created_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+        updated_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+      },
+      {
+        sequelize,
+        tableName: 'labels',
+        timestamps: true,
+        underscored: true,
+        createdAt: 'created_at',
+        updatedAt: 'updated_at',
+      },
+    );
+    return Label;
+  }
+}
+
+export { Label };
+export default Label;
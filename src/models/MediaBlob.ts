@@ -0,0 +1,59 @@
+import {
+  DataTypes,
+  Model,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type CreationOptional,
+  type NonAttribute,
+  type HasManyGetAssociationsMixin,
+  type Sequelize,
+} from 'sequelize';
+import type { MessageMedia } from './MessageMedia.js';
+
+class MediaBlob extends Model<InferAttributes<MediaBlob>, InferCreationAttributes<MediaBlob>> {
+  declare id: CreationOptional<number>;
+  declare sha256: string;
+  declare storage_provider: string;
+  declare storage_key: string;
+  declare storage_url: CreationOptional<string | null>;
+  declare mimetype: CreationOptional<string | null>;
+  declare size_bytes: number;
+  declare created_at: CreationOptional<Date>;
+  declare updated_at: CreationOptional<Date>;
+
+  // Associations
+  declare media?: NonAttribute<MessageMedia[]>;
+  declare getMedia: HasManyGetAssociationsMixin<MessageMedia>;
+
+  static associate(models: { MessageMedia: typeof MessageMedia }): void {
+    MediaBlob.hasMany(models.MessageMedia, { foreignKey: 'blob_id', as: 'media' });
+  }
+
+  static initModel(sequelize: Sequelize): typeof MediaBlob {
+    MediaBlob.init(
+      {
+        id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
+        sha256: { type: DataTypes.CHAR(64), unique: true, allowNull: false },
+        storage_provider: { type: DataTypes.STRING(50), allowNull: false },
+        storage_key: { type: DataTypes.TEXT, allowNull: false },
+        storage_url: { type: DataTypes.TEXT, allowNull: true },
+        mimetype: { type: DataTypes.STRING(100), allowNull: true },
+        size_bytes: { type: DataTypes.BIGINT, allowNull: false },
+        created_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+        updated_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+      },
+      {
+        sequelize,
+        tableName: 'media_blobs',
+        timestamps: true,
+        underscored: true,
+        createdAt: 'created_at',
+        updatedAt: 'updated_at',
+      },
+    );
+    return MediaBlob;
+  }
+}
+
+export { MediaBlob };
+export default MediaBlob;
@@ -0,0 +1,84 @@
+import {
+  DataTypes,
+  Model,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type CreationOptional,
+  type ForeignKey,
+  type NonAttribute,
+  type BelongsToGetAssociationMixin,
+  type Sequelize,
+} from 'sequelize';
+import type { Message } from './Message.js';
+
+type MediaJobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'skipped';
+
+class MediaJob extends Model<InferAttributes<MediaJob>, InferCreationAttributes<MediaJob>> {
+  declare id: CreationOptional<number>;
+  declare account_id: ForeignKey<CreationOptional<number>>;
+  declare message_id: ForeignKey<number>;
+  declare status: CreationOptional<MediaJobStatus>;
+  declare attempts: CreationOptional<number>;
+  declare max_attempts: CreationOptional<number>;
+  declare next_attempt_at: CreationOptional<Date>;
+  declare locked_at: CreationOptional<Date | null>;
+  declare last_error: CreationOptional<string | null>;
+  declare completed_at: CreationOptional<Date | null>;
+  declare created_at: CreationOptional<Date>;
+  declare updated_at: CreationOptional<Date>;
+
+  // Associations
+  declare message?: NonAttribute<Message>;
+  declare getMessage: BelongsToGetAssociationMixin<Message>;
+
+  static associate(models: { Message: typeof Message }): void {
+    MediaJob.belongsTo(models.Message, { foreignKey: 'message_id', as: 'message' });
+  }
+
+  static initModel(sequelize: Sequelize): typeof MediaJob {
+    MediaJob.init(
+      {
+        id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
+        account_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          references: { model: 'accounts', key: 'id' },
+          onDelete: 'CASCADE',
+        },
+        message_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          unique: true,
+          references: { model: 'messages', key: 'id' },
+          onDelete: 'CASCADE',
+        },
+        status: {
+          type: DataTypes.STRING(20),
+          allowNull: false,
+          defaultValue: 'pending',
+          validate: { isIn: [['pending', 'processing', 'completed', 'failed', 'skipped']] },
+        },
+        attempts: { type: DataTypes.INTEGER, allowNull: false, defaultValue: 0 },
+        max_attempts: { type: DataTypes.INTEGER, allowNull: false, defaultValue: 5 },
+        next_attempt_at: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+        locked_at: { type: DataTypes.DATE, allowNull: true },
+        last_error: { type: DataTypes.TEXT, allowNull: true },
+        completed_at: { type: DataTypes.DATE, allowNull: true },
+        created_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+        updated_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+      },
+      {
+        sequelize,
+        tableName: 'media_jobs',
+        timestamps: true,
+        underscored: true,
+        createdAt: 'created_at',
+        updatedAt: 'updated_at',
+      },
+    );
+    return MediaJob;
+  }
+}
+
+export { MediaJob, type MediaJobStatus };
+export default MediaJob;
@@ -0,0 +1,72 @@
+import {
+  DataTypes,
+  Model,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type CreationOptional,
+  type ForeignKey,
+  type NonAttribute,
+  type BelongsToGetAssociationMixin,
+  type Sequelize,
+} from 'sequelize';
+import type { Message } from './Message.js';
+
+type MediaRecoveryStatus = 'recovered' | 'gone' | 'too_large' | 'no_response' | 'failed';
+
+class MediaRecovery extends Model<InferAttributes<MediaRecovery>, InferCreationAttributes<MediaRecovery>> {
+  declare id: CreationOptional<number>;
+  declare message_id: ForeignKey<number>;
+  declare status: MediaRecoveryStatus;
+  declare attempts: CreationOptional<number>;
+  declare last_error: CreationOptional<string | null>;
+  declare last_attempt_at: CreationOptional<Date | null>;
+  declare recovered_at: CreationOptional<Date | null>;
+  declare created_at: CreationOptional<Date>;
+  declare updated_at: CreationOptional<Date>;
+
+  // Associations
+  declare message?: NonAttribute<Message>;
+  declare getMessage: BelongsToGetAssociationMixin<Message>;
+
+  static associate(models: { Message: typeof Message }): void {
+    MediaRecovery.belongsTo(models.Message, { foreignKey: 'message_id', as: 'message' });
+  }
+
+  static initModel(sequelize: Sequelize): typeof MediaRecovery {
+    MediaRecovery.init(
+      {
+        id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
+        message_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          unique: true,
+          references: { model: 'messages', key: 'id' },
+          onDelete: 'CASCADE',
+        },
+        status: {
+          type: DataTypes.STRING(20),
+          allowNull: false,
+          validate: { isIn: [['recovered', 'gone', 'too_large', 'no_response', 'failed']] },
+        },
+        attempts: { type: DataTypes.INTEGER, allowNull: false, defaultValue: 0 },
+        last_error: { type: DataTypes.TEXT, allowNull: true },
+        last_attempt_at: { type: DataTypes.DATE, allowNull: true },
+        recovered_at: { type: DataTypes.DATE, allowNull: true },
+        created_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+        updated_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+      },
+      {
+        sequelize,
+        tableName: 'media_recoveries',
+        timestamps: true,
+        underscored: true,
+        createdAt: 'created_at',
+        updatedAt: 'updated_at',
+      },
+    );
+    return MediaRecovery;
+  }
+}
+
+export { MediaRecovery, type MediaRecoveryStatus };
+export default MediaRecovery;
@@ -8,13 +8,25 @@ import {
   type NonAttribute,
   type BelongsToGetAssociationMixin,
   type HasManyGetAssociationsMixin,
+  type HasOneGetAssociationMixin,
   type Sequelize,
 } from 'sequelize';
 import type { Chat } from './Chat.js';
 import type { MessageMedia } from './MessageMedia.js';
+import type { MessageEdit } from './MessageEdit.js';
+import type { MessageReceipt } from './MessageReceipt.js';
+import type { PollVote } from './PollVote.js';
+import type { MediaJob } from './MediaJob.js';
+import type { MediaRecovery } from './MediaRecovery.js';
+import type { MessageTranscript } from './MessageTranscript.js';
+import type { NewsletterPost } from './NewsletterPost.js';
+import { MESSAGE_TYPES } from '../utils/message-content.js';
+
+type MessageStatus = 'error' | 'pending' | 'sent' | 'delivered' | 'read' | 'played';
 
 class Message extends Model<InferAttributes<Message>, InferCreationAttributes<Message>> {
   declare id: CreationOptional<number>;
+  declare account_id: ForeignKey<CreationOptional<number>>;
   declare message_id: string;
   declare chat_id: ForeignKey<number>;
   declare sender_id: string;
@@ -33,8 +45,13 @@ class Message extends Model<InferAttributes<Message>, InferCreationAttributes<Me
   declare is_forwarded: CreationOptional<boolean>;
   declare is_starred: CreationOptional<boolean>;
   declare is_deleted: CreationOptional<boolean>;
+  declare deleted_at: CreationOptional<Date | null>;
+  declare deleted_by: CreationOptional<string | null>;
+  declare deleted_reason: CreationOptional<'revoke' | 'delete_for_me' | 'clear' | null>;
+  declare is_edited: CreationOptional<boolean>;
+  declare edited_at: CreationOptional<Date | null>;
   declare quoted_message_id: ForeignKey<CreationOptional<number | null>>;
-  declare status: CreationOptional<string | null>;
+  declare status: CreationOptional<MessageStatus | null>;
   declare mentions: CreationOptional<string[] | null>;
   declare reactions: CreationOptional<Record<string, unknown> | null>;
   declare poll_data: CreationOptional<Record<string, unknown> | null>;
@@ -49,27 +66,62 @@ class Message extends Model<InferAttributes<Message>, InferCreationAttributes<Me
   declare media?: NonAttribute<MessageMedia[]>;
   declare quotedMessage?: NonAttribute<Message | null>;
   declare replies?: NonAttribute<Message[]>;
+  declare edits?: NonAttribute<MessageEdit[]>;
+  declare receipts?: NonAttribute<MessageReceipt[]>;
+  declare pollVotes?: NonAttribute<PollVote[]>;
+  declare mediaJob?: NonAttribute<MediaJob | null>;
+  declare mediaRecovery?: NonAttribute<MediaRecovery | null>;
+  declare transcript?: NonAttribute<MessageTranscript | null>;
+  declare newsletterPost?: NonAttribute<NewsletterPost | null>;
   declare getChat: BelongsToGetAssociationMixin<Chat>;
   declare getMedia: HasManyGetAssociationsMixin<MessageMedia>;
   declare getQuotedMessage: BelongsToGetAssociationMixin<Message>;
   declare getReplies: HasManyGetAssociationsMixin<Message>;
+  declare getEdits: HasManyGetAssociationsMixin<MessageEdit>;
+  declare getReceipts: HasManyGetAssociationsMixin<MessageReceipt>;
+  declare getPollVotes: HasManyGetAssociationsMixin<PollVote>;
+  declare getMediaJob: HasOneGetAssociationMixin<MediaJob>;
+  declare getMediaRecovery: HasOneGetAssociationMixin<MediaRecovery>;
+  declare getTranscript: HasOneGetAssociationMixin<MessageTranscript>;
+  declare getNewsletterPost: HasOneGetAssociationMixin<NewsletterPost>;
 
   static associate(models: {
     Chat: typeof Chat;
     MessageMedia: typeof MessageMedia;
     Message: typeof Message;
+    MessageEdit: typeof MessageEdit;
+    MessageReceipt: typeof MessageReceipt;
+    PollVote: typeof PollVote;
+    MediaJob: typeof MediaJob;
+    MediaRecovery: typeof MediaRecovery;
+    MessageTranscript: typeof MessageTranscript;
+    NewsletterPost: typeof NewsletterPost;
   }): void {
     Message.belongsTo(models.Chat, { foreignKey: 'chat_id', as: 'chat' });
     Message.hasMany(models.MessageMedia, { foreignKey: 'message_id', as: 'media' });
     Message.belongsTo(models.Message, { foreignKey: 'quoted_message_id', as: 'quotedMessage' });
     Message.hasMany(models.Message, { foreignKey: 'quoted_message_id', as: 'replies' });
+    Message.hasMany(models.MessageEdit, { foreignKey: 'message_id', as: 'edits' });
+    Message.hasMany(models.MessageReceipt, { foreignKey: 'message_id', as: 'receipts' });
+    Message.hasMany(models.PollVote, { foreignKey: 'poll_message_id', as: 'pollVotes' });
+    Message.hasOne(models.MediaJob, { foreignKey: 'message_id', as: 'mediaJob' });
+    Message.hasOne(models.MediaRecovery, { foreignKey: 'message_id', as: 'mediaRecovery' });
+    Message.hasOne(models.MessageTranscript, { foreignKey: 'message_id', as: 'transcript' });
+    Message.hasOne(models.NewsletterPost, { foreignKey: 'message_id', as: 'newsletterPost' });
   }
 
   static initModel(sequelize: Sequelize): typeof Message {
     Message.init(
       {
         id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
-        message_id: { type: DataTypes.STRING(255), unique: true, allowNull: false },
+        account_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          references: { model: 'accounts', key: 'id' },
+          onDelete: 'CASCADE',
+          unique: 'unique_message_account',
+        },
+        message_id: { type: DataTypes.STRING(255), unique: 'unique_message_account', allowNull: false },
         chat_id: {
           type: DataTypes.BIGINT,
           allowNull: false,
@@ -83,13 +135,7 @@ class Message extends Model<InferAttributes<Message>, InferCreationAttributes<Me
         message_type: {
           type: DataTypes.STRING(50),
           allowNull: false,
-          validate: {
-            isIn: [[
-              'chat', 'image', 'video', 'audio', 'document', 'sticker',
-              'ptt', 'location', 'contact', 'poll', 'system', 'reaction',
-              'protocol', 'revoke', 'unknown',
-            ]],
-          },
+          validate: { isIn: [[...MESSAGE_TYPES]] },
         },
         has_media: { type: DataTypes.BOOLEAN, defaultValue: false },
         media_url: { type: DataTypes.TEXT, allowNull: true },
@@ -102,13 +148,26 @@ class Message extends Model<InferAttributes<Message>, InferCreationAttributes<Me
         is_forwarded: { type: DataTypes.BOOLEAN, defaultValue: false },
         is_starred: { type: DataTypes.BOOLEAN, defaultValue: false },
         is_deleted: { type: DataTypes.BOOLEAN, defaultValue: false },
+        deleted_at: { type: DataTypes.DATE, allowNull: true },
+        deleted_by: { type: DataTypes.STRING(100), allowNull: true },
+        deleted_reason: {
+          type: DataTypes.STRING(20),
+          allowNull: true,
+          validate: { isIn: [['revoke', 'delete_for_me', 'clear']] },
+        },
+        is_edited: { type: DataTypes.BOOLEAN, defaultValue: false },
+        edited_at: { type: DataTypes.DATE, allowNull: true },
         quoted_message_id: {
           type: DataTypes.BIGINT,
           allowNull: true,
           references: { model: 'messages', key: 'id' },
           onDelete: 'SET NULL',
         },
-        status: { type: DataTypes.STRING(20), allowNull: true },
+        status: {
+          type: DataTypes.STRING(20),
+          allowNull: true,
+          validate: { isIn: [['error', 'pending', 'sent', 'delivered', 'read', 'played']] },
+        },
         mentions: { type: DataTypes.JSONB, allowNull: true },
         reactions: { type: DataTypes.JSONB, allowNull: true },
         poll_data: { type: DataTypes.JSONB, allowNull: true },
@@ -131,5 +190,5 @@ class Message extends Model<InferAttributes<Message>, InferCreationAttributes<Me
   }
 }
 
-export { Message };
+export { Message, type MessageStatus };
 export default Message;
@@ -0,0 +1,63 @@
+import {
+  DataTypes,
+  Model,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type CreationOptional,
+  type ForeignKey,
+  type NonAttribute,
+  type BelongsToGetAssociationMixin,
+  type Sequelize,
+} from 'sequelize';
+import type { Message } from './Message.js';
+
+class MessageEdit extends Model<InferAttributes<MessageEdit>, InferCreationAttributes<MessageEdit>> {
+  declare id: CreationOptional<number>;
+  declare message_id: ForeignKey<number>;
+  declare previous_body: CreationOptional<string | null>;
+  declare new_body: CreationOptional<string | null>;
+  declare edited_at: Date;
+  declare raw_data: CreationOptional<Record<string, unknown> | null>;
+  declare created_at: CreationOptional<Date>;
+  declare updated_at: CreationOptional<Date>;
+
+  // Associations
+  declare message?: NonAttribute<Message>;
+  declare getMessage: BelongsToGetAssociationMixin<Message>;
+
+  static associate(models: { Message: typeof Message }): void {
+    MessageEdit.belongsTo(models.Message, { foreignKey: 'message_id', as: 'message' });
+  }
+
+  static initModel(sequelize: Sequelize): typeof MessageEdit {
+    MessageEdit.init(
+      {
+        id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
+        message_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          references: { model: 'messages', key: 'id' },
+          onDelete: 'CASCADE',
+        },
+        previous_body: { type: DataTypes.TEXT, allowNull: true },
+        new_body: { type: DataTypes.TEXT, allowNull: true },
+        edited_at: { type: DataTypes.DATE, allowNull: false },
+        raw_data: { type: DataTypes.JSONB, allowNull: true },
+        created_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+        updated_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+      },
+      {
+        sequelize,
+        tableName: 'message_edits',
+        timestamps: true,
+        underscored: true,
+        createdAt: 'created_at',
+        updatedAt: 'updated_at',
+      },
+    );
+    return MessageEdit;
+  }
+}
+
+export { MessageEdit };
+export default MessageEdit;
@@ -0,0 +1,60 @@
+import {
+  DataTypes,
+  Model,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type CreationOptional,
+  type ForeignKey,
+  type NonAttribute,
+  type BelongsToGetAssociationMixin,
+  type Sequelize,
+} from 'sequelize';
+import type { Label } from './Label.js';
+
+class MessageLabel extends Model<InferAttributes<MessageLabel>, InferCreationAttributes<MessageLabel>> {
+  declare id: CreationOptional<number>;
+  declare label_id: ForeignKey<number>;
+  declare chat_jid: string;
+  // WhatsApp message id (messages.message_id); the association may arrive before the message
+  declare message_key: string;
+  declare created_at: CreationOptional<Date>;
+  declare updated_at: CreationOptional<Date>;
+
+  // Associations
+  declare label?: NonAttribute<Label>;
+  declare getLabel: BelongsToGetAssociationMixin<Label>;
+
+  static associate(models: { Label: typeof Label }): void {
+    MessageLabel.belongsTo(models.Label, { foreignKey: 'label_id', as: 'label' });
+  }
+
+  static initModel(sequelize: Sequelize): typeof MessageLabel {
+    MessageLabel.init(
+      {
+        id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
+        label_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          references: { model: 'labels', key: 'id' },
+          onDelete: 'CASCADE',
+        },
+        chat_jid: { type: DataTypes.STRING(255), allowNull: false },
+        message_key: { type: DataTypes.STRING(255), allowNull: false },
+        created_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+        updated_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+      },
+      {
+        sequelize,
+        tableName: 'message_labels',
+        timestamps: true,
+        underscored: true,
+        createdAt: 'created_at',
+        updatedAt: 'updated_at',
+      },
+    );
+    return MessageLabel;
+  }
+}
+
+export { MessageLabel };
+export default MessageLabel;
@@ -10,10 +10,15 @@ import {
   type Sequelize,
 } from 'sequelize';
 import type { Message } from './Message.js';
+import type { MediaBlob } from './MediaBlob.js';
+
+type OcrStatus = 'completed' | 'failed' | 'skipped';
 
 class MessageMedia extends Model<InferAttributes<MessageMedia>, InferCreationAttributes<MessageMedia>> {
   declare id: CreationOptional<number>;
+  declare account_id: ForeignKey<CreationOptional<number>>;
   declare message_id: ForeignKey<number>;
+  declare blob_id: ForeignKey<CreationOptional<number | null>>;
   declare storage_provider: CreationOptional<string>;
   declare storage_key: string;
   declare storage_url: CreationOptional<string | null>;
@@ -26,27 +31,47 @@ class MessageMedia extends Model<InferAttributes<MessageMedia>, InferCreationAtt
   declare is_processed: CreationOptional<boolean>;
   declare thumbnail_url: CreationOptional<string | null>;
   declare metadata: CreationOptional<Record<string, unknown> | null>;
+  declare ocr_status: CreationOptional<OcrStatus | null>;
+  declare ocr_engine: CreationOptional<string | null>;
+  declare ocr_text: CreationOptional<string | null>;
+  declare ocr_error: CreationOptional<string | null>;
+  declare ocr_at: CreationOptional<Date | null>;
   declare created_at: CreationOptional<Date>;
   declare updated_at: CreationOptional<Date>;
 
   // Associations
   declare message?: NonAttribute<Message>;
+  declare blob?: NonAttribute<MediaBlob | null>;
   declare getMessage: BelongsToGetAssociationMixin<Message>;
+  declare getBlob: BelongsToGetAssociationMixin<MediaBlob>;
 
-  static associate(models: { Message: typeof Message }): void {
+  static associate(models: { Message: typeof Message; MediaBlob: typeof MediaBlob }): void {
     MessageMedia.belongsTo(models.Message, { foreignKey: 'message_id', as: 'message' });
+    MessageMedia.belongsTo(models.MediaBlob, { foreignKey: 'blob_id', as: 'blob' });
   }
 
   static initModel(sequelize: Sequelize): typeof MessageMedia {
     MessageMedia.init(
       {
         id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
+        account_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          references: { model: 'accounts', key: 'id' },
+          onDelete: 'CASCADE',
+        },
         message_id: {
           type: DataTypes.BIGINT,
           allowNull: false,
           references: { model: 'messages', key: 'id' },
           onDelete: 'CASCADE',
         },
+        blob_id: {
+          type: DataTypes.BIGINT,
+          allowNull: true,
+          references: { model: 'media_blobs', key: 'id' },
+          onDelete: 'SET NULL',
+        },
         storage_provider: { type: DataTypes.STRING(50), allowNull: false, defaultValue: 's3' },
         storage_key: { type: DataTypes.TEXT, allowNull: false },
         storage_url: { type: DataTypes.TEXT, allowNull: true },
@@ -59,6 +84,15 @@ class MessageMedia extends Model<InferAttributes<MessageMedia>, InferCreationAtt
         is_processed: { type: DataTypes.BOOLEAN, defaultValue: false },
         thumbnail_url: { type: DataTypes.TEXT, allowNull: true },
         metadata: { type: DataTypes.JSONB, allowNull: true },
+        ocr_status: {
+          type: DataTypes.STRING(20),
+          allowNull: true,
+          validate: { isIn: [['completed', 'failed', 'skipped']] },
+        },
+        ocr_engine: { type: DataTypes.STRING(50), allowNull: true },
+        ocr_text: { type: DataTypes.TEXT, allowNull: true },
+        ocr_error: { type: DataTypes.TEXT, allowNull: true },
+        ocr_at: { type: DataTypes.DATE, allowNull: true },
         created_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
         updated_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
       },
@@ -75,5 +109,5 @@ class MessageMedia extends Model<InferAttributes<MessageMedia>, InferCreationAtt
   }
 }
 
-export { MessageMedia };
+export { MessageMedia, type OcrStatus };
 export default MessageMedia;
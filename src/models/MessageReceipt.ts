@@ -0,0 +1,63 @@
+import {
+  DataTypes,
+  Model,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type CreationOptional,
+  type ForeignKey,
+  type NonAttribute,
+  type BelongsToGetAssociationMixin,
+  type Sequelize,
+} from 'sequelize';
+import type { Message } from './Message.js';
+
+class MessageReceipt extends Model<InferAttributes<MessageReceipt>, InferCreationAttributes<MessageReceipt>> {
+  declare id: CreationOptional<number>;
+  declare message_id: ForeignKey<number>;
+  declare recipient_jid: string;
+  declare delivered_at: CreationOptional<Date | null>;
+  declare read_at: CreationOptional<Date | null>;
+  declare played_at: CreationOptional<Date | null>;
+  declare created_at: CreationOptional<Date>;
+  declare updated_at: CreationOptional<Date>;
+
+  // Associations
+  declare message?: NonAttribute<Message>;
+  declare getMessage: BelongsToGetAssociationMixin<Message>;
+
+  static associate(models: { Message: typeof Message }): void {
+    MessageReceipt.belongsTo(models.Message, { foreignKey: 'message_id', as: 'message' });
+  }
+
+  static initModel(sequelize: Sequelize): typeof MessageReceipt {
+    MessageReceipt.init(
+      {
+        id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
+        message_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          references: { model: 'messages', key: 'id' },
+          onDelete: 'CASCADE',
+        },
+        recipient_jid: { type: DataTypes.STRING(100), allowNull: false },
+        delivered_at: { type: DataTypes.DATE, allowNull: true },
+        read_at: { type: DataTypes.DATE, allowNull: true },
+        played_at: { type: DataTypes.DATE, allowNull: true },
+        created_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+        updated_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+      },
+      {
+        sequelize,
+        tableName: 'message_receipts',
+        timestamps: true,
+        underscored: true,
+        createdAt: 'created_at',
+        updatedAt: 'updated_at',
+      },
+    );
+    return MessageReceipt;
+  }
+}
+
+export { MessageReceipt };
+export default MessageReceipt;
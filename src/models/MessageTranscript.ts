@@ -0,0 +1,83 @@
+import {
+  DataTypes,
+  Model,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type CreationOptional,
+  type ForeignKey,
+  type NonAttribute,
+  type BelongsToGetAssociationMixin,
+  type Sequelize,
+} from 'sequelize';
+import type { Message } from './Message.js';
+import type { MessageMedia } from './MessageMedia.js';
+
+type TranscriptStatus = 'completed' | 'failed';
+
+class MessageTranscript extends Model<InferAttributes<MessageTranscript>, InferCreationAttributes<MessageTranscript>> {
+  declare id: CreationOptional<number>;
+  declare message_id: ForeignKey<number>;
+  declare media_id: ForeignKey<CreationOptional<number | null>>;
+  declare status: TranscriptStatus;
+  declare provider: string;
+  declare language: CreationOptional<string | null>;
+  declare text: CreationOptional<string | null>;
+  declare last_error: CreationOptional<string | null>;
+  declare created_at: CreationOptional<Date>;
+  declare updated_at: CreationOptional<Date>;
+
+  // Associations
+  declare message?: NonAttribute<Message>;
+  declare media?: NonAttribute<MessageMedia | null>;
+  declare getMessage: BelongsToGetAssociationMixin<Message>;
+  declare getMedia: BelongsToGetAssociationMixin<MessageMedia>;
+
+  static associate(models: { Message: typeof Message; MessageMedia: typeof MessageMedia }): void {
+    MessageTranscript.belongsTo(models.Message, { foreignKey: 'message_id', as: 'message' });
+    MessageTranscript.belongsTo(models.MessageMedia, { foreignKey: 'media_id', as: 'media' });
+  }
+
+  static initModel(sequelize: Sequelize): typeof MessageTranscript {
+    MessageTranscript.init(
+      {
+        id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
+        message_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          unique: true,
+          references: { model: 'messages', key: 'id' },
+          onDelete: 'CASCADE',
+        },
+        media_id: {
+          type: DataTypes.BIGINT,
+          allowNull: true,
+          references: { model: 'message_media', key: 'id' },
+          onDelete: 'SET NULL',
+        },
+        status: {
+          type: DataTypes.STRING(20),
+          allowNull: false,
+          validate: { isIn: [['completed', 'failed']] },
+        },
+        provider: { type: DataTypes.STRING(50), allowNull: false },
+        language: { type: DataTypes.STRING(20), allowNull: true },
+        text: { type: DataTypes.TEXT, allowNull: true },
+        last_error: { type: DataTypes.TEXT, allowNull: true },
+        created_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+        updated_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+      },
+      {
+        sequelize,
+        tableName: 'message_transcripts',
+        timestamps: true,
+        underscored: true,
+        createdAt: 'created_at',
+        updatedAt: 'updated_at',
+      },
+    );
+    return MessageTranscript;
+  }
+}
+
+export { MessageTranscript, type TranscriptStatus };
+export default MessageTranscript;
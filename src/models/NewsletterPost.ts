@@ -0,0 +1,84 @@
+import {
+  DataTypes,
+  Model,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type CreationOptional,
+  type ForeignKey,
+  type NonAttribute,
+  type BelongsToGetAssociationMixin,
+  type HasManyGetAssociationsMixin,
+  type Sequelize,
+} from 'sequelize';
+import type { Chat } from './Chat.js';
+import type { Message } from './Message.js';
+import type { NewsletterPostStat } from './NewsletterPostStat.js';
+
+class NewsletterPost extends Model<InferAttributes<NewsletterPost>, InferCreationAttributes<NewsletterPost>> {
+  declare id: CreationOptional<number>;
+  declare chat_id: ForeignKey<number>;
+  declare message_id: ForeignKey<number>;
+  declare server_id: string;
+  declare view_count: CreationOptional<number | null>;
+  declare reaction_counts: CreationOptional<Record<string, number>>;
+  declare stats_updated_at: CreationOptional<Date | null>;
+  declare created_at: CreationOptional<Date>;
+  declare updated_at: CreationOptional<Date>;
+
+  // Associations
+  declare chat?: NonAttribute<Chat>;
+  declare message?: NonAttribute<Message>;
+  declare stats?: NonAttribute<NewsletterPostStat[]>;
+  declare getChat: BelongsToGetAssociationMixin<Chat>;
+  declare getMessage: BelongsToGetAssociationMixin<Message>;
+  declare getStats: HasManyGetAssociationsMixin<NewsletterPostStat>;
+
+  static associate(models: {
+    Chat: typeof Chat;
+    Message: typeof Message;
+    NewsletterPostStat: typeof NewsletterPostStat;
+  }): void {
+    NewsletterPost.belongsTo(models.Chat, { foreignKey: 'chat_id', as: 'chat' });
+    NewsletterPost.belongsTo(models.Message, { foreignKey: 'message_id', as: 'message' });
+    NewsletterPost.hasMany(models.NewsletterPostStat, { foreignKey: 'post_id', as: 'stats' });
+  }
+
+  static initModel(sequelize: Sequelize): typeof NewsletterPost {
+    NewsletterPost.init(
+      {
+        id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
+        chat_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          references: { model: 'chats', key: 'id' },
+          onDelete: 'CASCADE',
+        },
+        message_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          unique: true,
+          references: { model: 'messages', key: 'id' },
+          onDelete: 'CASCADE',
+        },
+        server_id: { type: DataTypes.STRING(64), allowNull: false },
+        view_count: { type: DataTypes.INTEGER, allowNull: true },
+        reaction_counts: { type: DataTypes.JSONB, allowNull: false, defaultValue: {} },
+        stats_updated_at: { type: DataTypes.DATE, allowNull: true },
+        created_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+        updated_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+      },
+      {
+        sequelize,
+        tableName: 'newsletter_posts',
+        timestamps: true,
+        underscored: true,
+        createdAt: 'created_at',
+        updatedAt: 'updated_at',
+      },
+    );
+    return NewsletterPost;
+  }
+}
+
+export { NewsletterPost };
+export default NewsletterPost;
@@ -0,0 +1,55 @@
+import {
+  DataTypes,
+  Model,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type CreationOptional,
+  type ForeignKey,
+  type NonAttribute,
+  type BelongsToGetAssociationMixin,
+  type Sequelize,
+} from 'sequelize';
+import type { NewsletterPost } from './NewsletterPost.js';
+
+class NewsletterPostStat extends Model<InferAttributes<NewsletterPostStat>, InferCreationAttributes<NewsletterPostStat>> {
+  declare id: CreationOptional<number>;
+  declare post_id: ForeignKey<number>;
+  declare view_count: CreationOptional<number | null>;
+  declare reaction_counts: CreationOptional<Record<string, number>>;
+  declare recorded_at: Date;
+
+  // Associations
+  declare post?: NonAttribute<NewsletterPost>;
+  declare getPost: BelongsToGetAssociationMixin<NewsletterPost>;
+
+  static associate(models: { NewsletterPost: typeof NewsletterPost }): void {
+    NewsletterPostStat.belongsTo(models.NewsletterPost, { foreignKey: 'post_id', as: 'post' });
+  }
+
+  static initModel(sequelize: Sequelize): typeof NewsletterPostStat {
+    NewsletterPostStat.init(
+      {
+        id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
+        post_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          references: { model: 'newsletter_posts', key: 'id' },
+          onDelete: 'CASCADE',
+        },
+        view_count: { type: DataTypes.INTEGER, allowNull: true },
+        reaction_counts: { type: DataTypes.JSONB, allowNull: false, defaultValue: {} },
+        recorded_at: { type: DataTypes.DATE, allowNull: false },
+      },
+      {
+        sequelize,
+        tableName: 'newsletter_post_stats',
+        timestamps: false,
+        underscored: true,
+      },
+    );
+    return NewsletterPostStat;
+  }
+}
+
+export { NewsletterPostStat };
+export default NewsletterPostStat;
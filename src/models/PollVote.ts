@@ -0,0 +1,66 @@
+import {
+  DataTypes,
+  Model,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type CreationOptional,
+  type ForeignKey,
+  type NonAttribute,
+  type BelongsToGetAssociationMixin,
+  type Sequelize,
+} from 'sequelize';
+import type { Message } from './Message.js';
+
+class PollVote extends Model<InferAttributes<PollVote>, InferCreationAttributes<PollVote>> {
+  declare id: CreationOptional<number>;
+  declare poll_message_id: ForeignKey<number>;
+  declare vote_message_id: string;
+  declare voter_jid: string;
+  declare selected_options: CreationOptional<string[]>;
+  declare selected_hashes: CreationOptional<string[]>;
+  declare voted_at: Date;
+  declare created_at: CreationOptional<Date>;
+  declare updated_at: CreationOptional<Date>;
+
+  // Associations
+  declare pollMessage?: NonAttribute<Message>;
+  declare getPollMessage: BelongsToGetAssociationMixin<Message>;
+
+  static associate(models: { Message: typeof Message }): void {
+    PollVote.belongsTo(models.Message, { foreignKey: 'poll_message_id', as: 'pollMessage' });
+  }
+
+  static initModel(sequelize: Sequelize): typeof PollVote {
+    PollVote.init(
+      {
+        id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
+        poll_message_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          references: { model: 'messages', key: 'id' },
+          onDelete: 'CASCADE',
+          unique: 'unique_poll_vote_message',
+        },
+        vote_message_id: { type: DataTypes.STRING(255), unique: 'unique_poll_vote_message', allowNull: false },
+        voter_jid: { type: DataTypes.STRING(100), allowNull: false },
+        selected_options: { type: DataTypes.JSONB, allowNull: false, defaultValue: [] },
+        selected_hashes: { type: DataTypes.JSONB, allowNull: false, defaultValue: [] },
+        voted_at: { type: DataTypes.DATE, allowNull: false },
+        created_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+        updated_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+      },
+      {
+        sequelize,
+        tableName: 'poll_votes',
+        timestamps: true,
+        underscored: true,
+        createdAt: 'created_at',
+        updatedAt: 'updated_at',
+      },
+    );
+    return PollVote;
+  }
+}
+
+export { PollVote };
+export default PollVote;
@@ -0,0 +1,56 @@
+import {
+  DataTypes,
+  Model,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type CreationOptional,
+  type ForeignKey,
+  type Sequelize,
+} from 'sequelize';
+
+type PresenceState = 'available' | 'unavailable' | 'composing' | 'recording' | 'paused';
+
+class PresenceEvent extends Model<InferAttributes<PresenceEvent>, InferCreationAttributes<PresenceEvent>> {
+  declare id: CreationOptional<number>;
+  declare account_id: ForeignKey<CreationOptional<number>>;
+  declare jid: string;
+  declare chat_jid: string;
+  declare presence: PresenceState;
+  declare observed_at: Date;
+
+  static associate(_models: Record<string, unknown>): void {
+    // Presence is keyed by JID, not by contacts.id, so it outlives contact rows
+  }
+
+  static initModel(sequelize: Sequelize): typeof PresenceEvent {
+    PresenceEvent.init(
+      {
+        id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
+        account_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          references: { model: 'accounts', key: 'id' },
+          onDelete: 'CASCADE',
+        },
+        jid: { type: DataTypes.STRING(255), allowNull: false },
+        chat_jid: { type: DataTypes.STRING(255), allowNull: false },
+        presence: {
+          type: DataTypes.STRING(12),
+          allowNull: false,
+          validate: { isIn: [['available', 'unavailable', 'composing', 'recording', 'paused']] },
+        },
+        observed_at: { type: DataTypes.DATE, allowNull: false },
+      },
+      {
+        sequelize,
+        tableName: 'presence_events',
+        timestamps: false,
+        underscored: true,
+      },
+    );
+    return PresenceEvent;
+  }
+}
+
+export { PresenceEvent, type PresenceState };
+export default PresenceEvent;
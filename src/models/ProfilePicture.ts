@@ -0,0 +1,84 @@
+import {
+  DataTypes,
+  Model,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type CreationOptional,
+  type ForeignKey,
+  type NonAttribute,
+  type BelongsToGetAssociationMixin,
+  type Sequelize,
+} from 'sequelize';
+import type { Chat } from './Chat.js';
+import type { Contact } from './Contact.js';
+import type { MediaBlob } from './MediaBlob.js';
+
+class ProfilePicture extends Model<InferAttributes<ProfilePicture>, InferCreationAttributes<ProfilePicture>> {
+  declare id: CreationOptional<number>;
+  declare contact_id: ForeignKey<CreationOptional<number | null>>;
+  declare chat_id: ForeignKey<CreationOptional<number | null>>;
+  declare jid: string;
+  declare blob_id: ForeignKey<number>;
+  declare is_current: CreationOptional<boolean>;
+  declare first_seen_at: CreationOptional<Date>;
+  declare replaced_at: CreationOptional<Date | null>;
+  declare created_at: CreationOptional<Date>;
+  declare updated_at: CreationOptional<Date>;
+
+  // Associations
+  declare contact?: NonAttribute<Contact | null>;
+  declare chat?: NonAttribute<Chat | null>;
+  declare blob?: NonAttribute<MediaBlob>;
+  declare getContact: BelongsToGetAssociationMixin<Contact>;
+  declare getChat: BelongsToGetAssociationMixin<Chat>;
+  declare getBlob: BelongsToGetAssociationMixin<MediaBlob>;
+
+  static associate(models: { Contact: typeof Contact; Chat: typeof Chat; MediaBlob: typeof MediaBlob }): void {
+    ProfilePicture.belongsTo(models.Contact, { foreignKey: 'contact_id', as: 'contact' });
+    ProfilePicture.belongsTo(models.Chat, { foreignKey: 'chat_id', as: 'chat' });
+    ProfilePicture.belongsTo(models.MediaBlob, { foreignKey: 'blob_id', as: 'blob' });
+  }
+
+  static initModel(sequelize: Sequelize): typeof ProfilePicture {
+    ProfilePicture.init(
+      {
+        id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
+        contact_id: {
+          type: DataTypes.BIGINT,
+          allowNull: true,
+          references: { model: 'contacts', key: 'id' },
+          onDelete: 'CASCADE',
+        },
+        chat_id: {
+          type: DataTypes.BIGINT,
+          allowNull: true,
+          references: { model: 'chats', key: 'id' },
+          onDelete: 'CASCADE',
+        },
+        jid: { type: DataTypes.STRING(255), allowNull: false },
+        blob_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          references: { model: 'media_blobs', key: 'id' },
+        },
+        is_current: { type: DataTypes.BOOLEAN, allowNull: false, defaultValue: true },
+        first_seen_at: { type: DataTypes.DATE, allowNull: false, defaultValue: DataTypes.NOW },
+        replaced_at: { type: DataTypes.DATE, allowNull: true },
+        created_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+        updated_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+      },
+      {
+        sequelize,
+        tableName: 'profile_pictures',
+        timestamps: true,
+        underscored: true,
+        createdAt: 'created_at',
+        updatedAt: 'updated_at',
+      },
+    );
+    return ProfilePicture;
+  }
+}
+
+export { ProfilePicture };
+export default ProfilePicture;
@@ -0,0 +1,81 @@
+import {
+  DataTypes,
+  Model,
+  type InferAttributes,
+  type InferCreationAttributes,
+  type CreationOptional,
+  type ForeignKey,
+  type NonAttribute,
+  type BelongsToGetAssociationMixin,
+  type Sequelize,
+} from 'sequelize';
+import type { Message } from './Message.js';
+
+class Status extends Model<InferAttributes<Status>, InferCreationAttributes<Status>> {
+  declare id: CreationOptional<number>;
+  declare account_id: ForeignKey<CreationOptional<number>>;
+  declare message_id: ForeignKey<number>;
+  declare author_jid: string;
+  declare author_name: CreationOptional<string | null>;
+  declare is_from_me: CreationOptional<boolean>;
+  declare status_type: string;
+  declare caption: CreationOptional<string | null>;
+  declare posted_at: Date;
+  declare expires_at: Date;
+  declare is_viewed: CreationOptional<boolean>;
+  declare viewed_at: CreationOptional<Date | null>;
+  declare created_at: CreationOptional<Date>;
+  declare updated_at: CreationOptional<Date>;
+
+  // Associations
+  declare message?: NonAttribute<Message>;
+  declare getMessage: BelongsToGetAssociationMixin<Message>;
+
+  static associate(models: { Message: typeof Message }): void {
+    Status.belongsTo(models.Message, { foreignKey: 'message_id', as: 'message' });
+  }
+
+  static initModel(sequelize: Sequelize): typeof Status {
+    Status.init(
+      {
+        id: { type: DataTypes.BIGINT, autoIncrement: true, primaryKey: true },
+        account_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          references: { model: 'accounts', key: 'id' },
+          onDelete: 'CASCADE',
+        },
+        message_id: {
+          type: DataTypes.BIGINT,
+          allowNull: false,
+          unique: true,
+          references: { model: 'messages', key: 'id' },
+          onDelete: 'CASCADE',
+        },
+        author_jid: { type: DataTypes.STRING(255), allowNull: false },
+        author_name: { type: DataTypes.STRING(255), allowNull: true },
+        is_from_me: { type: DataTypes.BOOLEAN, allowNull: false, defaultValue: false },
+        status_type: { type: DataTypes.STRING(30), allowNull: false },
+        caption: { type: DataTypes.TEXT, allowNull: true },
+        posted_at: { type: DataTypes.DATE, allowNull: false },
+        expires_at: { type: DataTypes.DATE, allowNull: false },
+        is_viewed: { type: DataTypes.BOOLEAN, allowNull: false, defaultValue: false },
+        viewed_at: { type: DataTypes.DATE, allowNull: true },
+        created_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+        updated_at: { type: DataTypes.DATE, defaultValue: DataTypes.NOW },
+      },
+      {
+        sequelize,
+        tableName: 'statuses',
+        timestamps: true,
+        underscored: true,
+        createdAt: 'created_at',
+        updatedAt: 'updated_at',
+      },
+    );
+    return Status;
+  }
+}
+
+export { Status };
+export default Status;
@@ -0,0 +1,35 @@
+import { Op, type Model, type ModelStatic, type WhereOptions } from 'sequelize';
+import { currentAccountId } from '../utils/account-context.js';
+
+interface ScopedOptions {
+  where?: WhereOptions;
+}
+
+function addAccountFilter(options: ScopedOptions): void {
+  const accountId = currentAccountId();
+  if (accountId === null) return;
+  options.where = options.where ? { [Op.and]: [options.where, { account_id: accountId }] } : { account_id: accountId };
+}
+
+function assignAccount(instance: Model): void {
+  if (!instance.isNewRecord || instance.get('account_id') != null) return;
+  const accountId = currentAccountId();
+  if (accountId === null) {
+    throw new Error(`Cannot create ${instance.constructor.name} without a WhatsApp account in context`);
+  }
+  instance.set('account_id', accountId);
+}
+
+/**
+ * Confines a model with an account_id column to the account in context: reads, counts, bulk
+ * updates and deletes only see its rows, and new rows are stamped with it. Outside of an account
+ * (timers, scripts, unscoped routes) queries see every account and creates must set account_id.
+ */
+export function scopeToAccount(model: ModelStatic<Model>): void {
+  model.addHook('beforeFind', (options: ScopedOptions) => addAccountFilter(options));
+  model.addHook('beforeCount', (options: ScopedOptions) => addAccountFilter(options));
+  model.addHook('beforeBulkUpdate', (options: ScopedOptions) => addAccountFilter(options));
+  model.addHook('beforeBulkDestroy', (options: ScopedOptions) => addAccountFilter(options));
+  model.addHook('beforeValidate', (instance: Model) => assignAccount(instance));
+  model.addHook('beforeBulkCreate', (instances: Model[]) => instances.forEach(assignAccount));
+}
@@ -1,28 +1,147 @@
 import sequelize from '../config/database.js';
+import { scopeToAccount } from './account-scope.js';
+import { Account } from './Account.js';
 import { Chat } from './Chat.js';
 import { Message } from './Message.js';
 import { Contact } from './Contact.js';
 import { MessageMedia } from './MessageMedia.js';
 import { GroupMetadata } from './GroupMetadata.js';
 import { GroupParticipant } from './GroupParticipant.js';
+import { MessageEdit } from './MessageEdit.js';
+import { MessageReceipt } from './MessageReceipt.js';
+import { PollVote } from './PollVote.js';
+import { MediaJob } from './MediaJob.js';
+import { MediaBlob } from './MediaBlob.js';
+import { MediaRecovery } from './MediaRecovery.js';
+import { MessageTranscript } from './MessageTranscript.js';
+import { Call } from './Call.js';
+import { PresenceEvent } from './PresenceEvent.js';
+import { Status } from './Status.js';
+import { NewsletterPost } from './NewsletterPost.js';
+import { NewsletterPostStat } from './NewsletterPostStat.js';
+import { Label } from './Label.js';
+import { ChatLabel } from './ChatLabel.js';
+import { MessageLabel } from './MessageLabel.js';
+import { GroupEvent } from './GroupEvent.js';
+import { ContactIdentity } from './ContactIdentity.js';
+import { ProfilePicture } from './ProfilePicture.js';
+import { AuthKey } from './AuthKey.js';
 
 // Initialize all models
+Account.initModel(sequelize);
 Chat.initModel(sequelize);
 Message.initModel(sequelize);
 Contact.initModel(sequelize);
 MessageMedia.initModel(sequelize);
 GroupMetadata.initModel(sequelize);
 GroupParticipant.initModel(sequelize);
+MessageEdit.initModel(sequelize);
+MessageReceipt.initModel(sequelize);
+PollVote.initModel(sequelize);
+MediaJob.initModel(sequelize);
+MediaBlob.initModel(sequelize);
+MediaRecovery.initModel(sequelize);
+MessageTranscript.initModel(sequelize);
+Call.initModel(sequelize);
+PresenceEvent.initModel(sequelize);
+Status.initModel(sequelize);
+NewsletterPost.initModel(sequelize);
+NewsletterPostStat.initModel(sequelize);
+Label.initModel(sequelize);
+ChatLabel.initModel(sequelize);
+MessageLabel.initModel(sequelize);
+GroupEvent.initModel(sequelize);
+ContactIdentity.initModel(sequelize);
+ProfilePicture.initModel(sequelize);
+AuthKey.initModel(sequelize);
 
 // Set up associations
-const models = { Chat, Message, Contact, MessageMedia, GroupMetadata, GroupParticipant };
+const models = {
+  Account,
+  Chat,
+  Message,
+  Contact,
+  MessageMedia,
+  GroupMetadata,
+  GroupParticipant,
+  MessageEdit,
+  MessageReceipt,
+  PollVote,
+  MediaJob,
+  MediaBlob,
+  MediaRecovery,
+  MessageTranscript,
+  Call,
+  PresenceEvent,
+  Status,
+  NewsletterPost,
+  NewsletterPostStat,
+  Label,
+  ChatLabel,
+  MessageLabel,
+  GroupEvent,
+  ContactIdentity,
+  ProfilePicture,
+  AuthKey,
+};
 
-Chat.associate({ Message, GroupMetadata });
-Message.associate({ Chat, MessageMedia, Message });
+Chat.associate({ Message, GroupMetadata, Call, Label, ChatLabel, GroupEvent, ProfilePicture });
+Message.associate({ Chat, MessageMedia, Message, MessageEdit, MessageReceipt, PollVote, MediaJob, MediaRecovery, MessageTranscript, NewsletterPost });
 Contact.associate(models);
-MessageMedia.associate({ Message });
+MessageMedia.associate({ Message, MediaBlob });
 GroupMetadata.associate({ Chat, GroupParticipant });
 GroupParticipant.associate({ GroupMetadata });
+MessageEdit.associate({ Message });
+MessageReceipt.associate({ Message });
+PollVote.associate({ Message });
+MediaJob.associate({ Message });
+MediaBlob.associate({ MessageMedia });
+MediaRecovery.associate({ Message });
+MessageTranscript.associate({ Message, MessageMedia });
+Call.associate({ Chat });
+PresenceEvent.associate(models);
+Status.associate({ Message });
+NewsletterPost.associate({ Chat, Message, NewsletterPostStat });
+NewsletterPostStat.associate({ NewsletterPost });
+Label.associate({ Chat, ChatLabel, MessageLabel });
+ChatLabel.associate({ Chat, Label });
+MessageLabel.associate({ Label });
+GroupEvent.associate({ Chat });
+ContactIdentity.associate({ Contact });
+ProfilePicture.associate({ Contact, Chat, MediaBlob });
 
-export { sequelize, Chat, Message, Contact, MessageMedia, GroupMetadata, GroupParticipant };
+// Rows looked up by WhatsApp ID belong to one account; queries run for an account only see its rows
+for (const model of [Chat, Contact, ContactIdentity, Message, MessageMedia, MediaJob, Call, Label, PresenceEvent, Status]) {
+  scopeToAccount(model);
+}
+
+export {
+  sequelize,
+  Account,
+  Chat,
+  Message,
+  Contact,
+  MessageMedia,
+  GroupMetadata,
+  GroupParticipant,
+  MessageEdit,
+  MessageReceipt,
+  PollVote,
+  MediaJob,
+  MediaBlob,
+  MediaRecovery,
+  MessageTranscript,
+  Call,
+  PresenceEvent,
+  Status,
+  NewsletterPost,
+  NewsletterPostStat,
+  Label,
+  ChatLabel,
+  MessageLabel,
+  GroupEvent,
+  ContactIdentity,
+  ProfilePicture,
+  AuthKey,
+};
 export default sequelize;
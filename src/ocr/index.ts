@@ -0,0 +1,31 @@
+import { OCR_ENGINE, OCR_LANGUAGES, OCR_PDF_MAX_PAGES, OCR_TIMEOUT_MS } from '../config/ocr.js';
+import { StubOcrEngine } from './stub.engine.js';
+import { TesseractOcrEngine } from './tesseract.engine.js';
+import type { OcrEngine } from './ocr-engine.js';
+
+const OCR_ENGINES = ['tesseract', 'stub'] as const;
+
+let engine: OcrEngine | null = null;
+
+function createEngine(name: string): OcrEngine {
+  switch (name) {
+    case 'tesseract':
+      return new TesseractOcrEngine(OCR_LANGUAGES, OCR_TIMEOUT_MS, OCR_PDF_MAX_PAGES);
+    case 'stub':
+      return new StubOcrEngine();
+    default:
+      throw new Error(`Unknown OCR engine "${name}" (expected one of: ${OCR_ENGINES.join(', ')})`);
+  }
+}
+
+/**
+ * Returns the configured OCR engine (OCR_ENGINE).
+ */
+function getOcrEngine(): OcrEngine {
+  if (!engine) {
+    engine = createEngine(OCR_ENGINE);
+  }
+  return engine;
+}
+
+export { OCR_ENGINES, getOcrEngine, type OcrEngine };
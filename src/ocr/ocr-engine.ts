@@ -0,0 +1,10 @@
+/**
+ * A text recognition engine that images and scanned PDFs can be handed to.
+ */
+export interface OcrEngine {
+  /** Value recorded in message_media.ocr_engine for text produced by this engine */
+  readonly name: string;
+
+  /** Returns the recognized text, empty when the file contains none */
+  recognize(file: Buffer, mimetype: string): Promise<string>;
+}
@@ -0,0 +1,14 @@
+import type { OcrEngine } from './ocr-engine.js';
+
+/**
+ * Returns fixed text without running any engine, for tests and local development.
+ */
+class StubOcrEngine implements OcrEngine {
+  readonly name = 'stub';
+
+  async recognize(file: Buffer, mimetype: string): Promise<string> {
+    return process.env.OCR_STUB_TEXT || `[${mimetype} image, ${file.length} bytes]`;
+  }
+}
+
+export { StubOcrEngine };
@@ -0,0 +1,65 @@
+import { execFile } from 'child_process';
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import type { OcrEngine } from './ocr-engine.js';
+
+const execFileAsync = promisify(execFile);
+
+const PDF_RENDER_DPI = 200;
+
+/**
+ * Runs the tesseract command-line tool. PDFs are first rendered to PNG pages with
+ * pdftoppm (poppler-utils), since tesseract only reads images.
+ */
+class TesseractOcrEngine implements OcrEngine {
+  readonly name = 'tesseract';
+
+  constructor(
+    private readonly languages: string,
+    private readonly timeoutMs: number,
+    private readonly pdfMaxPages: number
+  ) {}
+
+  async recognize(file: Buffer, mimetype: string): Promise<string> {
+    const dir = await mkdtemp(path.join(tmpdir(), 'ocr-'));
+
+    try {
+      const isPdf = mimetype === 'application/pdf';
+      const input = path.join(dir, isPdf ? 'input.pdf' : 'input');
+      await writeFile(input, file);
+
+      if (!isPdf) {
+        return await this.tesseract(input);
+      }
+
+      await execFileAsync(
+        'pdftoppm',
+        ['-r', String(PDF_RENDER_DPI), '-l', String(this.pdfMaxPages), '-png', input, path.join(dir, 'page')],
+        { timeout: this.timeoutMs }
+      );
+
+      // pdftoppm zero-pads page numbers, so name order is page order
+      const pages = (await readdir(dir)).filter((name) => name.startsWith('page') && name.endsWith('.png')).sort();
+      const texts: string[] = [];
+      for (const page of pages) {
+        const text = await this.tesseract(path.join(dir, page));
+        if (text) texts.push(text);
+      }
+      return texts.join('\n\n');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  private async tesseract(imagePath: string): Promise<string> {
+    const { stdout } = await execFileAsync('tesseract', [imagePath, 'stdout', '-l', this.languages], {
+      timeout: this.timeoutMs,
+      maxBuffer: 10 * 1024 * 1024,
+    });
+    return stdout.replace(/\f/g, '').trim();
+  }
+}
+
+export { TesseractOcrEngine };
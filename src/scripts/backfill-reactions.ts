@@ -0,0 +1,120 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { Op } from 'sequelize';
+import type { proto } from '@whiskeysockets/baileys';
+import logger, { createChildLogger } from '../utils/logger.js';
+import { testConnection } from '../config/database.js';
+import { Chat, Message, sequelize } from '../models/index.js';
+import { ReactionHandler } from '../handlers/reaction.handler.js';
+import { authorFromKey } from '../utils/message-keys.js';
+import { runWithAccount } from '../utils/account-context.js';
+
+const log = createChildLogger('backfill-reactions');
+
+const BATCH_SIZE = 500;
+
+/**
+ * One-time backfill that converts standalone `reaction` message rows into
+ * aggregated reactions on their target messages, then removes the rows.
+ * Rows whose target message is not archived are left in place.
+ *
+ * Usage: pnpm backfill-reactions [--dry-run]
+ */
+async function backfillReactions(): Promise<void> {
+  const dryRun = process.argv.includes('--dry-run');
+
+  await testConnection();
+  log.info({ dryRun }, 'Backfilling reactions from standalone reaction rows...');
+
+  let lastId = 0;
+  let converted = 0;
+  let orphaned = 0;
+  let invalid = 0;
+
+  for (;;) {
+    // Oldest first, so later reactions from the same sender win
+    const rows = await Message.findAll({
+      where: { message_type: 'reaction', id: { [Op.gt]: lastId } },
+      order: [['id', 'ASC']],
+      limit: BATCH_SIZE,
+    });
+
+    if (rows.length === 0) break;
+    lastId = rows[rows.length - 1].id;
+
+    const convertedIds: number[] = [];
+    const convertedPerChat = new Map<number, number>();
+
+    for (const row of rows) {
+      const raw = row.raw_data as unknown as proto.IWebMessageInfo | null;
+      const reactionMessage = raw?.message?.reactionMessage;
+      const reactorId = authorFromKey(raw?.key) || row.sender_id;
+
+      if (!reactionMessage?.key?.id) {
+        invalid++;
+        log.warn({ dbId: row.id }, 'Reaction row has no target key in raw_data, skipping');
+        continue;
+      }
+
+      if (dryRun) {
+        const target = await Message.findOne({
+          where: { message_id: reactionMessage.key.id, account_id: row.account_id },
+          attributes: ['id'],
+        });
+        if (target) converted++;
+        else orphaned++;
+        continue;
+      }
+
+      // Message IDs are only unique within the account the reaction was received on
+      const targetId = reactionMessage.key.id;
+      const applied = await runWithAccount(row.account_id, () =>
+        ReactionHandler.applyReaction(
+          targetId,
+          reactorId,
+          row.sender_name,
+          reactionMessage.text || null,
+          row.timestamp
+        )
+      );
+
+      if (applied) {
+        convertedIds.push(row.id);
+        convertedPerChat.set(row.chat_id, (convertedPerChat.get(row.chat_id) || 0) + 1);
+        converted++;
+      } else {
+        orphaned++;
+      }
+    }
+
+    if (!dryRun && convertedIds.length > 0) {
+      const transaction = await sequelize.transaction();
+      try {
+        await Message.destroy({ where: { id: convertedIds }, transaction });
+        for (const [chatId, count] of convertedPerChat) {
+          await Chat.decrement('total_message_count', { by: count, where: { id: chatId }, transaction });
+        }
+        await transaction.commit();
+      } catch (err) {
+        await transaction.rollback();
+        throw err;
+      }
+    }
+
+    log.info({ converted, orphaned, invalid }, 'Backfill progress');
+  }
+
+  log.info(
+    { converted, orphaned, invalid, dryRun },
+    `Reaction backfill complete: ${converted} converted, ${orphaned} without an archived target, ${invalid} invalid`
+  );
+
+  await sequelize.close();
+  process.exit(0);
+}
+
+backfillReactions().catch((err) => {
+  logger.error({ err }, 'Fatal error during reaction backfill');
+  process.exit(1);
+});
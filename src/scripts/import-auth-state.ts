@@ -0,0 +1,72 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { existsSync } from 'fs';
+import logger, { createChildLogger } from '../utils/logger.js';
+import { testConnection } from '../config/database.js';
+import { sessionDirFor } from '../config/baileys.js';
+import { AUTH_STATE_ENCRYPTION_KEY } from '../config/auth-state.js';
+import { sequelize } from '../models/index.js';
+import authStateService from '../services/auth-state.service.js';
+import whatsappService from '../services/whatsapp.service.js';
+
+const log = createChildLogger('import-auth-state');
+
+/**
+ * Reads the value following a `--flag` argument.
+ */
+function argValue(flag: string): string | null {
+  const index = process.argv.indexOf(flag);
+  return index !== -1 ? process.argv[index + 1] || null : null;
+}
+
+/**
+ * Copies a session kept by useMultiFileAuthState into the database, so an account linked before
+ * sessions moved to Postgres keeps working without scanning a new QR code. Reads the account's
+ * session directory unless given --dir, and refuses to replace a session already in the
+ * database unless given --force. Stop the server first: it would otherwise keep writing keys.
+ *
+ * Usage: pnpm import-auth-state [--account <name>] [--dir <path>] [--force]
+ */
+async function importAuthState(): Promise<void> {
+  const force = process.argv.includes('--force');
+
+  await testConnection();
+
+  const account = await whatsappService.findAccount(argValue('--account'));
+  if (!account) {
+    throw new Error(`Account not found: ${argValue('--account')}`);
+  }
+
+  const dir = argValue('--dir') || sessionDirFor(account);
+  if (!existsSync(dir)) {
+    throw new Error(`Session directory not found: ${dir}`);
+  }
+
+  if (!force && (await authStateService.hasCreds(account.id))) {
+    throw new Error(`Account ${account.name} already has a session in the database; pass --force to replace it`);
+  }
+
+  log.info(
+    { account: account.name, dir, encrypted: Boolean(AUTH_STATE_ENCRYPTION_KEY) },
+    'Importing auth state...'
+  );
+
+  const { keys, skipped } = await authStateService.importDirectory(account.id, dir);
+  if (skipped.length > 0) {
+    log.warn({ skipped }, 'Skipped files that are not part of the session');
+  }
+
+  log.info(
+    { account: account.name, keys, skipped: skipped.length },
+    `Import complete: ${keys} keys stored. The session directory is no longer used and can be removed.`
+  );
+
+  await sequelize.close();
+  process.exit(0);
+}
+
+importAuthState().catch((err) => {
+  logger.error({ err }, 'Fatal error during auth state import');
+  process.exit(1);
+});
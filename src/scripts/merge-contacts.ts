@@ -0,0 +1,220 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { Op, QueryTypes } from 'sequelize';
+import { isLidUser, isPnUser, jidDecode } from '@whiskeysockets/baileys';
+import logger, { createChildLogger } from '../utils/logger.js';
+import { testConnection } from '../config/database.js';
+import { createAuthState } from '../config/baileys.js';
+import { Contact, ContactIdentity, sequelize, type Account } from '../models/index.js';
+import identityService, { normalizeJid } from '../services/identity.service.js';
+import whatsappService from '../services/whatsapp.service.js';
+import { runWithAccount } from '../utils/account-context.js';
+
+const log = createChildLogger('merge-contacts');
+
+const BATCH_SIZE = 500;
+
+/**
+ * Reads the value following a `--flag` argument.
+ */
+function argValue(flag: string): string | null {
+  const index = process.argv.indexOf(flag);
+  return index !== -1 ? process.argv[index + 1] || null : null;
+}
+
+interface JidPair {
+  jid: string | null;
+  alt: string | null;
+}
+
+// Phone number / LID pairs already sitting in the account's archive: alternate JIDs on stored
+// message keys, and the phone numbers and LIDs recorded for group members and group events
+const STORED_PAIRS_SQL = `
+  SELECT DISTINCT raw_data->'key'->>'participant' AS jid, raw_data->'key'->>'participantAlt' AS alt
+  FROM messages WHERE account_id = :accountId AND raw_data->'key'->>'participantAlt' IS NOT NULL
+  UNION
+  SELECT DISTINCT raw_data->'key'->>'remoteJid', raw_data->'key'->>'remoteJidAlt'
+  FROM messages WHERE account_id = :accountId AND raw_data->'key'->>'remoteJidAlt' IS NOT NULL
+  UNION
+  SELECT gp.participant_jid, COALESCE(gp.metadata->>'phone_number', gp.metadata->>'lid')
+  FROM group_participants gp
+  JOIN group_metadata gm ON gm.id = gp.group_metadata_id
+  JOIN chats c ON c.id = gm.chat_id AND c.account_id = :accountId
+  WHERE gp.metadata->>'phone_number' IS NOT NULL OR gp.metadata->>'lid' IS NOT NULL
+  UNION
+  SELECT ge.participant_jid, ge.participant_pn FROM group_events ge
+  JOIN chats c ON c.id = ge.chat_id AND c.account_id = :accountId
+  WHERE ge.participant_pn IS NOT NULL
+  UNION
+  SELECT ge.actor_jid, ge.actor_pn FROM group_events ge
+  JOIN chats c ON c.id = ge.chat_id AND c.account_id = :accountId
+  WHERE ge.actor_pn IS NOT NULL
+`;
+
+/**
+ * Folds contacts stored under a device variant of a JID into the contact that owns the plain
+ * JID, and gives every remaining contact its identity row. Returns how many were merged.
+ */
+async function mergeDeviceVariants(dryRun: boolean): Promise<number> {
+  let lastId = 0;
+  let merged = 0;
+
+  for (;;) {
+    const rows = await Contact.findAll({
+      where: { id: { [Op.gt]: lastId } },
+      order: [['id', 'ASC']],
+      limit: BATCH_SIZE,
+    });
+
+    if (rows.length === 0) break;
+    lastId = rows[rows.length - 1].id;
+
+    for (const contact of rows) {
+      const jid = normalizeJid(contact.contact_id);
+      if (!jid) continue;
+
+      try {
+        const identity = await ContactIdentity.findOne({ where: { jid } });
+
+        if (identity && identity.contact_id !== contact.id) {
+          merged++;
+          if (dryRun) {
+            log.debug({ contactId: contact.id, jid: contact.contact_id, into: identity.contact_id }, 'Would merge contact');
+            continue;
+          }
+
+          const target = await Contact.findByPk(identity.contact_id);
+          if (!target) continue;
+
+          const transaction = await sequelize.transaction();
+          try {
+            await identityService.merge(target, contact, transaction);
+            await transaction.commit();
+          } catch (err) {
+            await transaction.rollback();
+            throw err;
+          }
+          continue;
+        }
+
+        if (!identity && !dryRun) {
+          await ContactIdentity.create({ contact_id: contact.id, jid, kind: isLidUser(jid) ? 'lid' : 'pn', source: 'merge' });
+          if (contact.contact_id !== jid) await contact.update({ contact_id: jid });
+        }
+      } catch (err) {
+        log.error({ err, contactId: contact.id }, 'Failed to merge device variant');
+      }
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Reads the LIDs Baileys has learned for our phone-number contacts from the session's
+ * LID mapping store. Empty when the session directory is not available here.
+ */
+async function authStatePairs(account: Account): Promise<JidPair[]> {
+  try {
+    const { state } = await createAuthState(account);
+    const identities = await ContactIdentity.findAll({ where: { kind: 'pn' }, attributes: ['jid'] });
+    const pairs: JidPair[] = [];
+
+    for (let i = 0; i < identities.length; i += BATCH_SIZE) {
+      const users = identities
+        .slice(i, i + BATCH_SIZE)
+        .map((identity) => jidDecode(identity.jid)?.user)
+        .filter((user): user is string => !!user);
+
+      const stored = await state.keys.get('lid-mapping', users);
+      for (const [pnUser, lidUser] of Object.entries(stored)) {
+        if (lidUser) pairs.push({ jid: `${pnUser}@s.whatsapp.net`, alt: `${lidUser}@lid` });
+      }
+    }
+
+    return pairs;
+  } catch (err) {
+    log.warn({ err }, 'Could not read LID mappings from the auth state, skipping');
+    return [];
+  }
+}
+
+/**
+ * Unifies contacts that are the same person under different JIDs: device variants first,
+ * then every phone number / LID pair the archive and the session know about. The phone-number
+ * contact survives each merge and takes over the LID contact's identities and missing details.
+ *
+ * Usage: pnpm merge-contacts [--dry-run] [--account <name>]
+ */
+async function mergeContacts(): Promise<void> {
+  const dryRun = process.argv.includes('--dry-run');
+
+  await testConnection();
+
+  const account = await whatsappService.findAccount(argValue('--account'));
+  if (!account) {
+    throw new Error(`Account not found: ${argValue('--account')}`);
+  }
+
+  await runWithAccount(account.id, () => mergeAccountContacts(account, dryRun));
+
+  await sequelize.close();
+  process.exit(0);
+}
+
+async function mergeAccountContacts(account: Account, dryRun: boolean): Promise<void> {
+  log.info({ dryRun, account: account.name }, 'Merging duplicate contacts...');
+
+  const variantsMerged = await mergeDeviceVariants(dryRun);
+  log.info({ variantsMerged }, 'Device variants merged');
+
+  const stored = await sequelize.query<JidPair>(STORED_PAIRS_SQL, {
+    replacements: { accountId: account.id },
+    type: QueryTypes.SELECT,
+  });
+  const pairs = [...stored, ...(await authStatePairs(account))];
+  log.info({ pairs: pairs.length }, 'Phone number / LID pairs collected');
+
+  let linked = 0;
+  let merged = 0;
+  let failed = 0;
+
+  for (const { jid, alt } of pairs) {
+    const pn = [jid, alt].find((candidate) => candidate && isPnUser(candidate)) || null;
+    const lid = pn === jid ? alt : jid;
+    if (!pn || !lid || !normalizeJid(lid)) continue;
+
+    try {
+      const pnContact = await identityService.resolve(pn);
+      const lidContact = await identityService.resolve(lid);
+      if (pnContact && lidContact && pnContact.id === lidContact.id) continue;
+
+      if (pnContact && lidContact) merged++;
+      linked++;
+
+      if (dryRun) {
+        log.debug({ pn, lid, pnContact: pnContact?.id, lidContact: lidContact?.id }, 'Would link identities');
+        continue;
+      }
+
+      await identityService.link(pn, lid, 'merge');
+      if (linked % BATCH_SIZE === 0) {
+        log.info({ linked, merged }, 'Merge progress');
+      }
+    } catch (err) {
+      failed++;
+      log.error({ err, pn, lid }, 'Failed to link identities');
+    }
+  }
+
+  log.info(
+    { variantsMerged, linked, merged, failed, dryRun },
+    `Merge complete: ${variantsMerged + merged} duplicate contacts ${dryRun ? 'would be ' : ''}merged, ${linked} identities ${dryRun ? 'would be ' : ''}linked`
+  );
+}
+
+mergeContacts().catch((err) => {
+  logger.error({ err }, 'Fatal error during contact merge');
+  process.exit(1);
+});
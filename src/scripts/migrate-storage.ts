@@ -0,0 +1,211 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { Op } from 'sequelize';
+import logger, { createChildLogger } from '../utils/logger.js';
+import { testConnection } from '../config/database.js';
+import { MediaBlob, Message, MessageMedia, sequelize } from '../models/index.js';
+import StorageService from '../services/storage.service.js';
+import { STORAGE_PROVIDERS, getStorageDriver } from '../storage/index.js';
+
+const log = createChildLogger('migrate-storage');
+
+const BATCH_SIZE = 100;
+
+/**
+ * Reads the value following a `--flag` argument.
+ */
+function argValue(flag: string): string | null {
+  const index = process.argv.indexOf(flag);
+  return index !== -1 ? process.argv[index + 1] || null : null;
+}
+
+/**
+ * Copies stored media from one storage backend to another and repoints the
+ * media_blobs and message_media rows (and legacy media_url links) at the new copy.
+ * Source objects are kept unless --delete-source is passed.
+ *
+ * Usage: pnpm migrate-storage --to <provider> [--from <provider>] [--delete-source] [--dry-run]
+ */
+async function migrateStorage(): Promise<void> {
+  const to = argValue('--to');
+  const from = argValue('--from');
+  const deleteSource = process.argv.includes('--delete-source');
+  const dryRun = process.argv.includes('--dry-run');
+
+  const providers: readonly string[] = STORAGE_PROVIDERS;
+  if (!to || !providers.includes(to) || (from && !providers.includes(from))) {
+    log.error(`Usage: pnpm migrate-storage --to <${STORAGE_PROVIDERS.join('|')}> [--from <provider>] [--delete-source] [--dry-run]`);
+    process.exit(1);
+  }
+
+  await testConnection();
+  log.info({ from: from || 'any', to, deleteSource, dryRun }, 'Migrating stored media...');
+
+  const target = getStorageDriver(to);
+  const providerFilter = from ? from : { [Op.ne]: to };
+
+  let migrated = 0;
+  let failed = 0;
+
+  /**
+   * Copies a file (and its thumbnail, if it has one) to the target backend. Returns a
+   * callback that deletes the originals, for use once the rows point at the copies.
+   */
+  const copyObject = async (
+    provider: string,
+    key: string,
+    mimetype: string | null,
+    thumbnailKey: string | null
+  ) => {
+    const source = getStorageDriver(provider);
+    await target.put(key, await source.get(key), mimetype || 'application/octet-stream');
+    if (thumbnailKey) {
+      await target.put(thumbnailKey, await source.get(thumbnailKey), 'image/jpeg');
+    }
+
+    return async () => {
+      await source.delete(key);
+      if (thumbnailKey) await source.delete(thumbnailKey);
+    };
+  };
+
+  const thumbnailKeyOf = (media: MessageMedia | null): string | null => {
+    const key = media?.metadata?.thumbnail_key;
+    return typeof key === 'string' ? key : null;
+  };
+
+  // Deduplicated blobs: one object shared by every message_media row that references it
+  let lastId = 0;
+  for (;;) {
+    const blobs = await MediaBlob.findAll({
+      where: { id: { [Op.gt]: lastId }, storage_provider: providerFilter },
+      order: [['id', 'ASC']],
+      limit: BATCH_SIZE,
+    });
+
+    if (blobs.length === 0) break;
+    lastId = blobs[blobs.length - 1].id;
+
+    for (const blob of blobs) {
+      if (dryRun) {
+        migrated++;
+        continue;
+      }
+
+      try {
+        const processed = await MessageMedia.findOne({ where: { blob_id: blob.id, is_processed: true } });
+        const deleteOriginals = await copyObject(
+          blob.storage_provider,
+          blob.storage_key,
+          blob.mimetype,
+          thumbnailKeyOf(processed)
+        );
+        const location = {
+          storage_provider: target.provider,
+          storage_url: target.getPublicUrl(blob.storage_key),
+        };
+
+        const transaction = await sequelize.transaction();
+        try {
+          await blob.update(location, { transaction });
+          await MessageMedia.update(location, { where: { blob_id: blob.id }, transaction });
+          await transaction.commit();
+        } catch (err) {
+          await transaction.rollback();
+          throw err;
+        }
+
+        if (deleteSource) {
+          await deleteOriginals();
+        }
+
+        migrated++;
+      } catch (err) {
+        failed++;
+        log.error({ err, blobId: blob.id, storageKey: blob.storage_key }, 'Failed to migrate media blob');
+      }
+    }
+
+    log.info({ migrated, failed }, 'Migration progress');
+  }
+
+  // Media stored before deduplication, one object per row
+  lastId = 0;
+  for (;;) {
+    const rows = await MessageMedia.findAll({
+      where: {
+        id: { [Op.gt]: lastId },
+        blob_id: null,
+        storage_provider: providerFilter,
+      },
+      order: [['id', 'ASC']],
+      limit: BATCH_SIZE,
+    });
+
+    if (rows.length === 0) break;
+    lastId = rows[rows.length - 1].id;
+
+    for (const media of rows) {
+      if (dryRun) {
+        migrated++;
+        continue;
+      }
+
+      try {
+        const deleteOriginals = await copyObject(
+          media.storage_provider,
+          media.storage_key,
+          media.mimetype,
+          thumbnailKeyOf(media)
+        );
+
+        const previousUrl = media.storage_url;
+        const transaction = await sequelize.transaction();
+        try {
+          await media.update(
+            { storage_provider: target.provider, storage_url: target.getPublicUrl(media.storage_key) },
+            { transaction }
+          );
+
+          // Messages written before media_url pointed at the API still link to the old backend
+          if (previousUrl) {
+            await Message.update(
+              { media_url: StorageService.getContentPath(media.id) },
+              { where: { id: media.message_id, media_url: previousUrl }, transaction }
+            );
+          }
+
+          await transaction.commit();
+        } catch (err) {
+          await transaction.rollback();
+          throw err;
+        }
+
+        if (deleteSource) {
+          await deleteOriginals();
+        }
+
+        migrated++;
+      } catch (err) {
+        failed++;
+        log.error({ err, mediaId: media.id, storageKey: media.storage_key }, 'Failed to migrate media');
+      }
+    }
+
+    log.info({ migrated, failed }, 'Migration progress');
+  }
+
+  log.info(
+    { migrated, failed, dryRun },
+    `Storage migration complete: ${migrated} migrated to ${to}, ${failed} failed`
+  );
+
+  await sequelize.close();
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+migrateStorage().catch((err) => {
+  logger.error({ err }, 'Fatal error during storage migration');
+  process.exit(1);
+});
@@ -0,0 +1,101 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { Op, type WhereOptions } from 'sequelize';
+import logger, { createChildLogger } from '../utils/logger.js';
+import { testConnection } from '../config/database.js';
+import { Message, MessageMedia, sequelize } from '../models/index.js';
+import OcrService from '../services/ocr.service.js';
+
+const log = createChildLogger('ocr-media');
+
+const BATCH_SIZE = 20;
+
+/**
+ * Reads the value following a `--flag` argument.
+ */
+function argValue(flag: string): string | null {
+  const index = process.argv.indexOf(flag);
+  return index !== -1 ? process.argv[index + 1] || null : null;
+}
+
+/**
+ * Extracts text from stored images and scanned PDFs that have not been read yet (or whose
+ * OCR failed). --rerun reads everything in scope again, e.g. after changing OCR_LANGUAGES.
+ * Runs whether or not OCR_ENABLED is set.
+ *
+ * Usage: pnpm ocr-media [--chat <chat id>] [--from <date>] [--to <date>] [--rerun]
+ */
+async function ocrMedia(): Promise<void> {
+  const chatId = argValue('--chat') ? parseInt(argValue('--chat')!, 10) : null;
+  const from = argValue('--from') ? new Date(argValue('--from')!) : null;
+  const to = argValue('--to') ? new Date(argValue('--to')!) : null;
+  const rerun = process.argv.includes('--rerun');
+
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime())) || (chatId !== null && isNaN(chatId))) {
+    log.error('Usage: pnpm ocr-media [--chat <chat id>] [--from <date>] [--to <date>] [--rerun]');
+    process.exit(1);
+  }
+
+  await testConnection();
+  log.info({ chatId, from, to, rerun }, 'Running OCR on stored media...');
+
+  const messageWhere: WhereOptions = {
+    message_type: ['image', 'document'],
+    ...(chatId ? { chat_id: chatId } : {}),
+    ...(from || to
+      ? { timestamp: { ...(from ? { [Op.gte]: from } : {}), ...(to ? { [Op.lte]: to } : {}) } }
+      : {}),
+  };
+
+  let lastId = 0;
+  let extracted = 0;
+  let failed = 0;
+
+  for (;;) {
+    const rows = await MessageMedia.findAll({
+      where: {
+        id: { [Op.gt]: lastId },
+        [Op.or]: [{ mimetype: { [Op.like]: 'image/%' } }, { mimetype: 'application/pdf' }],
+        ...(rerun ? {} : { [Op.and]: [{ [Op.or]: [{ ocr_status: null }, { ocr_status: 'failed' }] }] }),
+      },
+      include: [
+        {
+          model: Message,
+          as: 'message',
+          attributes: ['id', 'message_type'],
+          where: messageWhere,
+          required: true,
+        },
+      ],
+      order: [['id', 'ASC']],
+      limit: BATCH_SIZE,
+    });
+
+    if (rows.length === 0) break;
+    lastId = rows[rows.length - 1].id;
+
+    for (const media of rows) {
+      try {
+        // Rerunning must not copy a duplicate's old text
+        await OcrService.extract(media, undefined, { reuseDuplicates: !rerun });
+        extracted++;
+      } catch (err) {
+        failed++;
+        log.error({ err, mediaId: media.id }, 'Failed to run OCR on media');
+      }
+    }
+
+    log.info({ extracted, failed }, 'OCR progress');
+  }
+
+  log.info({ extracted, failed }, `OCR complete: ${extracted} read, ${failed} failed`);
+
+  await sequelize.close();
+  process.exit(0);
+}
+
+ocrMedia().catch((err) => {
+  logger.error({ err }, 'Fatal error during OCR');
+  process.exit(1);
+});
@@ -0,0 +1,72 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { Op } from 'sequelize';
+import type { proto } from '@whiskeysockets/baileys';
+import logger, { createChildLogger } from '../utils/logger.js';
+import { testConnection } from '../config/database.js';
+import { Message, MessageMedia, sequelize } from '../models/index.js';
+import StorageService from '../services/storage.service.js';
+import MediaProcessorService from '../services/media-processor.service.js';
+
+const log = createChildLogger('process-media');
+
+const BATCH_SIZE = 100;
+
+/**
+ * Extracts metadata and thumbnails for stored media that has not been processed yet,
+ * e.g. files archived before processing existed or whose processing failed.
+ *
+ * Usage: pnpm process-media [--reprocess]
+ */
+async function processMedia(): Promise<void> {
+  const reprocess = process.argv.includes('--reprocess');
+
+  await testConnection();
+  log.info({ reprocess }, 'Processing stored media...');
+
+  let lastId = 0;
+  let processed = 0;
+  let failed = 0;
+
+  for (;;) {
+    const rows = await MessageMedia.findAll({
+      where: {
+        id: { [Op.gt]: lastId },
+        ...(reprocess ? {} : { is_processed: false }),
+      },
+      include: [{ model: Message, as: 'message', attributes: ['id', 'raw_data'] }],
+      order: [['id', 'ASC']],
+      limit: BATCH_SIZE,
+    });
+
+    if (rows.length === 0) break;
+    lastId = rows[rows.length - 1].id;
+
+    for (const media of rows) {
+      try {
+        const raw = media.message?.raw_data as { message?: proto.IMessage } | null | undefined;
+        const info = StorageService.getMediaInfo(raw?.message);
+
+        // Reprocessing must not reuse a duplicate's old results
+        await MediaProcessorService.process(media, info, undefined, { reuseDuplicates: !reprocess });
+        processed++;
+      } catch (err) {
+        failed++;
+        log.error({ err, mediaId: media.id }, 'Failed to process media');
+      }
+    }
+
+    log.info({ processed, failed }, 'Processing progress');
+  }
+
+  log.info({ processed, failed }, `Media processing complete: ${processed} processed, ${failed} failed`);
+
+  await sequelize.close();
+  process.exit(0);
+}
+
+processMedia().catch((err) => {
+  logger.error({ err }, 'Fatal error during media processing');
+  process.exit(1);
+});
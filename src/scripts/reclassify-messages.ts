@@ -0,0 +1,122 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { Op } from 'sequelize';
+import type { proto } from '@whiskeysockets/baileys';
+import logger, { createChildLogger } from '../utils/logger.js';
+import { testConnection } from '../config/database.js';
+import { Message, sequelize } from '../models/index.js';
+import mediaQueue from '../services/media-queue.service.js';
+import StorageService from '../services/storage.service.js';
+import {
+  extractBody,
+  isMediaType,
+  normalizeContent,
+  resolveMessageType,
+} from '../utils/message-content.js';
+
+const log = createChildLogger('reclassify-messages');
+
+const BATCH_SIZE = 500;
+
+/**
+ * Re-derives message_type and body from the stored raw_data, for messages saved before
+ * wrapped messages were unwrapped and the extended types existed (e.g. 'unknown' view-once
+ * media, voice notes stored as 'audio'). Edited bodies are left alone. Messages that turn out
+ * to carry media are queued for download.
+ *
+ * Usage: pnpm reclassify-messages [--dry-run]
+ */
+async function reclassifyMessages(): Promise<void> {
+  const dryRun = process.argv.includes('--dry-run');
+
+  await testConnection();
+  log.info({ dryRun }, 'Reclassifying messages from raw data...');
+
+  let lastId = 0;
+  let scanned = 0;
+  let updated = 0;
+  let queued = 0;
+  const changes: Record<string, number> = {};
+
+  for (;;) {
+    const rows = await Message.findAll({
+      where: { id: { [Op.gt]: lastId }, raw_data: { [Op.ne]: null } },
+      order: [['id', 'ASC']],
+      limit: BATCH_SIZE,
+    });
+
+    if (rows.length === 0) break;
+    lastId = rows[rows.length - 1].id;
+
+    for (const message of rows) {
+      scanned++;
+
+      try {
+        const raw = message.raw_data as { message?: proto.IMessage } | null;
+        const content = normalizeContent(raw?.message);
+        if (!content) continue;
+
+        const messageType = resolveMessageType(content);
+        const hasMedia = isMediaType(messageType);
+        const fields: Record<string, unknown> = {};
+
+        if (messageType !== message.message_type) {
+          fields.message_type = messageType;
+          changes[`${message.message_type} -> ${messageType}`] =
+            (changes[`${message.message_type} -> ${messageType}`] || 0) + 1;
+        }
+
+        if (hasMedia !== message.has_media) fields.has_media = hasMedia;
+
+        // An edited body came from the edit, not from raw_data
+        if (!message.is_edited) {
+          const body = extractBody(content);
+          if (body !== message.body) fields.body = body;
+          if (hasMedia && body !== message.media_caption) fields.media_caption = body;
+        }
+
+        if (hasMedia && !message.media_mimetype) {
+          const info = StorageService.getMediaInfo(content);
+          if (info) {
+            fields.media_mimetype = info.mimetype;
+            fields.media_filename = message.media_filename || info.filename;
+          }
+        }
+
+        if (Object.keys(fields).length === 0) continue;
+        updated++;
+
+        if (dryRun) {
+          log.debug({ dbId: message.id, fields }, 'Would update message');
+          continue;
+        }
+
+        await message.update(fields);
+
+        // Media hidden behind a wrapper was never downloaded
+        if (hasMedia && !message.media_url && StorageService.isMediaAllowed(messageType)) {
+          await mediaQueue.enqueue(message);
+          queued++;
+        }
+      } catch (err) {
+        log.error({ err, dbId: message.id }, 'Failed to reclassify message');
+      }
+    }
+
+    log.info({ scanned, updated, queued }, 'Reclassification progress');
+  }
+
+  log.info(
+    { scanned, updated, queued, dryRun, changes },
+    `Reclassification complete: ${updated} of ${scanned} messages ${dryRun ? 'would be ' : ''}updated`
+  );
+
+  await sequelize.close();
+  process.exit(0);
+}
+
+reclassifyMessages().catch((err) => {
+  logger.error({ err }, 'Fatal error during reclassification');
+  process.exit(1);
+});
@@ -0,0 +1,65 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import logger, { createChildLogger } from '../utils/logger.js';
+import { testConnection } from '../config/database.js';
+import { sequelize } from '../models/index.js';
+import { WhatsAppService } from '../services/whatsapp.service.js';
+import mediaRecovery from '../services/media-recovery.service.js';
+import { runWithAccount } from '../utils/account-context.js';
+
+const log = createChildLogger('recover-media');
+
+const CONNECT_TIMEOUT_MS = 60_000;
+
+/**
+ * Reads the value following a `--flag` argument.
+ */
+function argValue(flag: string): string | null {
+  const index = process.argv.indexOf(flag);
+  return index !== -1 ? process.argv[index + 1] || null : null;
+}
+
+/**
+ * Asks the phone to re-upload media whose download links have expired (typically old
+ * history) and stores what comes back. Outcomes are recorded per message, so the command
+ * can be stopped and re-run to pick up where it left off.
+ *
+ * Stop the server first: WhatsApp allows one connection per linked device.
+ * While the server is running, use POST /api/media/recovery/start instead.
+ *
+ * Usage: pnpm recover-media [--limit <n>] [--chat <chat id>] [--account <name>]
+ */
+async function recoverMedia(): Promise<void> {
+  const limit = argValue('--limit') ? parseInt(argValue('--limit')!, 10) : undefined;
+  const chatId = argValue('--chat') ? parseInt(argValue('--chat')!, 10) : undefined;
+
+  await testConnection();
+  log.info('Database connection verified');
+
+  const wa = WhatsAppService.getInstance();
+  const account = await wa.findAccount(argValue('--account'));
+  if (!account) {
+    throw new Error(`Account not found: ${argValue('--account')}`);
+  }
+
+  const sock = await wa.connect(account);
+  await sock.waitForConnectionUpdate(async (update) => update.connection === 'open', CONNECT_TIMEOUT_MS);
+  log.info({ account: account.name }, 'Connected to WhatsApp');
+
+  const run = await runWithAccount(account.id, () => mediaRecovery.run({ limit, chatId }));
+
+  log.info(
+    { processed: run.processed, ...run.outcomes },
+    `Media recovery complete: ${run.outcomes.recovered} of ${run.processed} recovered`
+  );
+
+  await wa.disconnect();
+  await sequelize.close();
+  process.exit(0);
+}
+
+recoverMedia().catch((err) => {
+  logger.error({ err }, 'Fatal error during media recovery');
+  process.exit(1);
+});
@@ -7,15 +7,27 @@ import '../models/index.js';
 import { WhatsAppService } from '../services/whatsapp.service.js';
 import HistoryHandler from '../handlers/history.handler.js';
 import MessageHandler from '../handlers/message.handler.js';
+import ReactionHandler from '../handlers/reaction.handler.js';
+import ReceiptHandler from '../handlers/receipt.handler.js';
 import ChatHandler from '../handlers/chat.handler.js';
 import ContactHandler from '../handlers/contact.handler.js';
 
 const log = createChildLogger('sync-history');
 
+/**
+ * Reads the value following a `--flag` argument.
+ */
+function argValue(flag: string): string | null {
+  const index = process.argv.indexOf(flag);
+  return index !== -1 ? process.argv[index + 1] || null : null;
+}
+
 /**
  * One-time bulk history sync script.
  * Connects with syncFullHistory=true, waits for all batches,
  * then exits when sync is complete.
+ *
+ * Usage: pnpm sync-history [--account <name>]
  */
 async function syncHistory(): Promise<void> {
   log.info('Starting historical message sync...');
@@ -26,9 +38,13 @@ async function syncHistory(): Promise<void> {
   await testConnection();
   log.info('Database connection verified');
 
-  // 2. Create a fresh WhatsApp service instance for sync
+  // 2. Pick the account to sync (--account <name>, the default account otherwise)
   const wa = WhatsAppService.getInstance();
-  const sock = await wa.connect({ syncFullHistory: true });
+  const account = await wa.findAccount(argValue('--account'));
+  if (!account) {
+    throw new Error(`Account not found: ${argValue('--account')}`);
+  }
+  log.info({ account: account.name }, 'Syncing account');
 
   let totalMessages = 0;
   let totalChats = 0;
@@ -37,8 +53,8 @@ async function syncHistory(): Promise<void> {
   let lastBatchTime = Date.now();
   let isComplete = false;
 
-  // 3. Register history sync handler
-  sock.ev.on('messaging-history.set', async (data) => {
+  // 3. Register handlers before connecting; they run in the account's context
+  wa.onPersistent('messaging-history.set', async (data) => {
     batchCount++;
     lastBatchTime = Date.now();
 
@@ -73,7 +89,7 @@ async function syncHistory(): Promise<void> {
   });
 
   // Also capture real-time messages during sync
-  sock.ev.on('messages.upsert', async (data) => {
+  wa.onPersistent('messages.upsert', async (data) => {
     try {
       await MessageHandler.handleUpsert(data);
     } catch (err) {
@@ -81,7 +97,31 @@ async function syncHistory(): Promise<void> {
     }
   });
 
-  sock.ev.on('chats.update', async (data) => {
+  wa.onPersistent('messages.update', async (data) => {
+    try {
+      await MessageHandler.handleUpdate(data);
+    } catch (err) {
+      log.error({ err }, 'Error in messages.update during sync');
+    }
+  });
+
+  wa.onPersistent('messages.reaction', async (data) => {
+    try {
+      await ReactionHandler.handleReaction(data);
+    } catch (err) {
+      log.error({ err }, 'Error in messages.reaction during sync');
+    }
+  });
+
+  wa.onPersistent('message-receipt.update', async (data) => {
+    try {
+      await ReceiptHandler.handleReceiptUpdate(data);
+    } catch (err) {
+      log.error({ err }, 'Error in message-receipt.update during sync');
+    }
+  });
+
+  wa.onPersistent('chats.update', async (data) => {
     try {
       await ChatHandler.handleUpdate(data as Parameters<typeof ChatHandler.handleUpdate>[0]);
     } catch (err) {
@@ -89,7 +129,7 @@ async function syncHistory(): Promise<void> {
     }
   });
 
-  sock.ev.on('contacts.update', async (data) => {
+  wa.onPersistent('contacts.update', async (data) => {
     try {
       await ContactHandler.handleUpdate(data as Parameters<typeof ContactHandler.handleUpdate>[0]);
     } catch (err) {
@@ -97,6 +137,16 @@ async function syncHistory(): Promise<void> {
     }
   });
 
+  wa.onPersistent('lid-mapping.update', async (data) => {
+    try {
+      await ContactHandler.handleLidMapping(data);
+    } catch (err) {
+      log.error({ err }, 'Error in lid-mapping.update during sync');
+    }
+  });
+
+  await wa.connect(account, { syncFullHistory: true });
+
   // 4. Wait for sync to complete
   // WhatsApp sends batches for 2-5 minutes, then stops
   const IDLE_TIMEOUT_MS = 60_000; // 60 seconds with no new batches
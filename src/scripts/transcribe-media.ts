@@ -0,0 +1,83 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { Op } from 'sequelize';
+import logger, { createChildLogger } from '../utils/logger.js';
+import { testConnection } from '../config/database.js';
+import { Message, MessageMedia, sequelize } from '../models/index.js';
+import TranscriptionService from '../services/transcription.service.js';
+
+const log = createChildLogger('transcribe-media');
+
+const BATCH_SIZE = 20;
+
+/**
+ * Transcribes stored voice notes and audio that have no transcript yet, e.g. audio
+ * archived before transcription was enabled. Runs whether or not TRANSCRIPTION_ENABLED is set.
+ *
+ * Usage: pnpm transcribe-media [--retry-failed] [--retranscribe]
+ */
+async function transcribeMedia(): Promise<void> {
+  const retryFailed = process.argv.includes('--retry-failed');
+  const retranscribe = process.argv.includes('--retranscribe');
+
+  await testConnection();
+  log.info({ retryFailed, retranscribe }, 'Transcribing stored audio...');
+
+  // Which existing transcripts still count as done
+  const doneFilter = retranscribe ? 'FALSE' : retryFailed ? "t.status = 'completed'" : 'TRUE';
+
+  let lastId = 0;
+  let transcribed = 0;
+  let failed = 0;
+
+  for (;;) {
+    const rows = await MessageMedia.findAll({
+      where: {
+        id: { [Op.gt]: lastId },
+        [Op.and]: [
+          sequelize.literal(
+            `NOT EXISTS (SELECT 1 FROM message_transcripts t WHERE t.message_id = "MessageMedia"."message_id" AND ${doneFilter})`
+          ),
+        ],
+      },
+      include: [
+        {
+          model: Message,
+          as: 'message',
+          attributes: ['id', 'message_type'],
+          where: { message_type: ['audio', 'ptt'] },
+          required: true,
+        },
+      ],
+      order: [['id', 'ASC']],
+      limit: BATCH_SIZE,
+    });
+
+    if (rows.length === 0) break;
+    lastId = rows[rows.length - 1].id;
+
+    for (const media of rows) {
+      try {
+        // Retranscribing must not copy a duplicate's old transcript
+        await TranscriptionService.transcribe(media, undefined, { reuseDuplicates: !retranscribe });
+        transcribed++;
+      } catch (err) {
+        failed++;
+        log.error({ err, mediaId: media.id }, 'Failed to transcribe media');
+      }
+    }
+
+    log.info({ transcribed, failed }, 'Transcription progress');
+  }
+
+  log.info({ transcribed, failed }, `Transcription complete: ${transcribed} transcribed, ${failed} failed`);
+
+  await sequelize.close();
+  process.exit(0);
+}
+
+transcribeMedia().catch((err) => {
+  logger.error({ err }, 'Fatal error during transcription');
+  process.exit(1);
+});
@@ -0,0 +1,282 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { readdir, readFile } from 'fs/promises';
+import { join } from 'path';
+import {
+  BufferJSON,
+  initAuthCreds,
+  proto,
+  type AuthenticationCreds,
+  type AuthenticationState,
+  type SignalDataSet,
+  type SignalDataTypeMap,
+} from '@whiskeysockets/baileys';
+import { AuthKey, sequelize } from '../models/index.js';
+import { AUTH_STATE_ENCRYPTION_KEY } from '../config/auth-state.js';
+import { KeyedMutex } from '../utils/keyed-mutex.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const log = createChildLogger('auth-state');
+
+// The credentials are stored as one more key
+const CREDS_CATEGORY = 'creds';
+const CREDS_KEY_ID = 'creds';
+
+// Longest first, so a 'sender-key-memory-…' file is not taken for a 'sender-key'
+const KEY_CATEGORIES: (keyof SignalDataTypeMap)[] = [
+  'pre-key',
+  'session',
+  'sender-key',
+  'sender-key-memory',
+  'app-state-sync-key',
+  'app-state-sync-version',
+  'lid-mapping',
+  'device-list',
+  'tctoken',
+];
+KEY_CATEGORIES.sort((a, b) => b.length - a.length);
+
+const IMPORT_BATCH_SIZE = 500;
+
+const CIPHER = 'aes-256-gcm';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+type StoredKey = Pick<AuthKey, 'account_id' | 'category' | 'key_id' | 'data' | 'is_encrypted'>;
+
+interface AuthStateImport {
+  keys: number;
+  /** Files that are not part of a Baileys session */
+  skipped: string[];
+}
+
+let encryptionKey: Buffer | null | undefined;
+
+// Derived once: scrypt is slow on purpose
+function getEncryptionKey(): Buffer | null {
+  if (encryptionKey === undefined) {
+    encryptionKey = AUTH_STATE_ENCRYPTION_KEY
+      ? scryptSync(AUTH_STATE_ENCRYPTION_KEY, 'whatsapp-logger-auth-state', 32)
+      : null;
+  }
+  return encryptionKey;
+}
+
+// Ciphertext is bound to its row, so it cannot be copied over another key or account
+function rowIdentity(accountId: number, category: string, keyId: string): Buffer {
+  return Buffer.from(`${Number(accountId)}|${category}|${keyId}`);
+}
+
+/**
+ * Serializes a key the way useMultiFileAuthState does, encrypted when a secret is configured.
+ */
+function encode(accountId: number, category: string, keyId: string, value: unknown): StoredKey {
+  const json = JSON.stringify(value, BufferJSON.replacer);
+  const key = getEncryptionKey();
+  if (!key) {
+    return { account_id: accountId, category, key_id: keyId, data: json, is_encrypted: false };
+  }
+
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  cipher.setAAD(rowIdentity(accountId, category, keyId));
+  const ciphertext = Buffer.concat([cipher.update(json, 'utf8'), cipher.final()]);
+  const data = Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+
+  return { account_id: accountId, category, key_id: keyId, data, is_encrypted: true };
+}
+
+function decode(row: AuthKey): unknown {
+  let json = row.data;
+
+  if (row.is_encrypted) {
+    const key = getEncryptionKey();
+    if (!key) {
+      throw new Error('The WhatsApp session is encrypted; set AUTH_STATE_ENCRYPTION_KEY to read it');
+    }
+    const payload = Buffer.from(row.data, 'base64');
+    const decipher = createDecipheriv(CIPHER, key, payload.subarray(0, IV_BYTES));
+    decipher.setAAD(rowIdentity(row.account_id, row.category, row.key_id));
+    decipher.setAuthTag(payload.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    json = Buffer.concat([decipher.update(payload.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]).toString('utf8');
+  }
+
+  return JSON.parse(json, BufferJSON.reviver);
+}
+
+/**
+ * Maps a useMultiFileAuthState file name back to its key. The files replace '/' in key ids
+ * with '__' and ':' with '-'; the only ids with colons are sender keys (group::user::device).
+ */
+function keyFromFileName(file: string): { category: string; keyId: string } | null {
+  if (!file.endsWith('.json')) return null;
+  const name = file.slice(0, -'.json'.length);
+  if (name === 'creds') return { category: CREDS_CATEGORY, keyId: CREDS_KEY_ID };
+
+  const category = KEY_CATEGORIES.find((candidate) => name.startsWith(`${candidate}-`));
+  if (!category) return null;
+
+  let keyId = name.slice(category.length + 1).replace(/__/g, '/');
+  if (category === 'sender-key') keyId = keyId.replace(/--/g, '::');
+  return { category, keyId };
+}
+
+class AuthStateService {
+  private static instance: AuthStateService | null = null;
+
+  // Writes for an account run one at a time, so a key set and a creds save never interleave
+  private locks = new KeyedMutex();
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  static getInstance(): AuthStateService {
+    if (!AuthStateService.instance) {
+      AuthStateService.instance = new AuthStateService();
+    }
+    return AuthStateService.instance;
+  }
+
+  /**
+   * Loads an account's Baileys auth state from Postgres, starting a new session when it has none.
+   * Key updates Baileys hands over together are written in one transaction.
+   */
+  async load(accountId: number): Promise<{ state: AuthenticationState; saveCreds: () => Promise<void> }> {
+    const stored = await AuthKey.findOne({
+      where: { account_id: accountId, category: CREDS_CATEGORY, key_id: CREDS_KEY_ID },
+    });
+    const creds = stored ? (decode(stored) as AuthenticationCreds) : initAuthCreds();
+
+    const state: AuthenticationState = {
+      creds,
+      keys: {
+        get: async <T extends keyof SignalDataTypeMap>(type: T, ids: string[]) => {
+          const data: { [id: string]: SignalDataTypeMap[T] } = {};
+          if (ids.length === 0) return data;
+
+          const rows = await AuthKey.findAll({ where: { account_id: accountId, category: type, key_id: ids } });
+          for (const row of rows) {
+            let value = decode(row);
+            if (type === 'app-state-sync-key' && value) {
+              value = proto.Message.AppStateSyncKeyData.fromObject(value as Record<string, unknown>);
+            }
+            data[row.key_id] = value as SignalDataTypeMap[T];
+          }
+          return data;
+        },
+        set: async (data: SignalDataSet) => {
+          const upserts: StoredKey[] = [];
+          const removals: { category: string; ids: string[] }[] = [];
+
+          for (const category of Object.keys(data) as (keyof SignalDataTypeMap)[]) {
+            const removed: string[] = [];
+            for (const [id, value] of Object.entries(data[category] || {})) {
+              if (value) upserts.push(encode(accountId, category, id, value));
+              else removed.push(id);
+            }
+            if (removed.length > 0) removals.push({ category, ids: removed });
+          }
+
+          await this.write(accountId, upserts, removals);
+        },
+      },
+    };
+
+    const saveCreds = () =>
+      this.write(accountId, [encode(accountId, CREDS_CATEGORY, CREDS_KEY_ID, creds)], []);
+
+    return { state, saveCreds };
+  }
+
+  /**
+   * Whether the account has a session stored (it has been linked and not logged out since).
+   */
+  async hasCreds(accountId: number): Promise<boolean> {
+    const count = await AuthKey.count({
+      where: { account_id: accountId, category: CREDS_CATEGORY, key_id: CREDS_KEY_ID },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Deletes an account's session, so the next connect shows a QR code. Returns how many keys were removed.
+   */
+  async clear(accountId: number): Promise<number> {
+    return this.locks.runExclusive(String(accountId), async () => {
+      const deleted = await AuthKey.destroy({ where: { account_id: accountId } });
+      log.info({ accountId, deleted }, 'Auth state cleared');
+      return deleted;
+    });
+  }
+
+  /**
+   * Replaces an account's session with the one in a useMultiFileAuthState directory, in one
+   * transaction. Keys are encrypted on the way in when a secret is configured.
+   */
+  async importDirectory(accountId: number, dir: string): Promise<AuthStateImport> {
+    const files = await readdir(dir);
+    if (!files.includes('creds.json')) {
+      throw new Error(`No creds.json in ${dir}; not a Baileys session directory`);
+    }
+
+    const rows: StoredKey[] = [];
+    const skipped: string[] = [];
+    for (const file of files) {
+      const key = keyFromFileName(file);
+      if (!key) {
+        skipped.push(file);
+        continue;
+      }
+      const value = JSON.parse(await readFile(join(dir, file), 'utf-8'), BufferJSON.reviver);
+      rows.push(encode(accountId, key.category, key.keyId, value));
+    }
+
+    await this.locks.runExclusive(String(accountId), async () => {
+      const transaction = await sequelize.transaction();
+      try {
+        await AuthKey.destroy({ where: { account_id: accountId }, transaction });
+        for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+          await AuthKey.bulkCreate(rows.slice(i, i + IMPORT_BATCH_SIZE), { transaction });
+        }
+        await transaction.commit();
+      } catch (err) {
+        await transaction.rollback();
+        throw err;
+      }
+    });
+
+    log.info({ accountId, dir, keys: rows.length, skipped: skipped.length }, 'Auth state imported');
+    return { keys: rows.length, skipped };
+  }
+
+  private async write(
+    accountId: number,
+    upserts: StoredKey[],
+    removals: { category: string; ids: string[] }[]
+  ): Promise<void> {
+    if (upserts.length === 0 && removals.length === 0) return;
+
+    await this.locks.runExclusive(String(accountId), async () => {
+      const transaction = await sequelize.transaction();
+      try {
+        if (upserts.length > 0) {
+          await AuthKey.bulkCreate(upserts, {
+            updateOnDuplicate: ['data', 'is_encrypted', 'updated_at'],
+            conflictAttributes: ['account_id', 'category', 'key_id'],
+            transaction,
+          });
+        }
+        for (const { category, ids } of removals) {
+          await AuthKey.destroy({ where: { account_id: accountId, category, key_id: ids }, transaction });
+        }
+        await transaction.commit();
+      } catch (err) {
+        await transaction.rollback();
+        throw err;
+      }
+    });
+  }
+}
+
+export { AuthStateService, type AuthStateImport };
+export default AuthStateService.getInstance();
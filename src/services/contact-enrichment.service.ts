@@ -0,0 +1,326 @@
+import { Op } from 'sequelize';
+import { isPnUser } from '@whiskeysockets/baileys';
+import { Chat, Contact, sequelize } from '../models/index.js';
+import whatsappService from './whatsapp.service.js';
+import profilePictures from './profile-picture.service.js';
+import { phoneFromJid } from './identity.service.js';
+import {
+  CONTACT_ENRICHMENT_BATCH_SIZE,
+  CONTACT_ENRICHMENT_DELAY_MS,
+  CONTACT_ENRICHMENT_ENABLED,
+  CONTACT_ENRICHMENT_INTERVAL_MS,
+  CONTACT_REFRESH_DAYS,
+} from '../config/enrichment.js';
+import { isRateLimited } from '../utils/wa-errors.js';
+import { requireAccountId, runWithAccount } from '../utils/account-context.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const log = createChildLogger('contact-enrichment');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const REFRESHED_AT_COLUMNS = ['about_refreshed_at', 'avatar_refreshed_at', 'business_profile_refreshed_at'] as const;
+
+// Contacts whose oldest field is the most out of date come first (never fetched = epoch)
+const STALEST_FIRST = `LEAST(${REFRESHED_AT_COLUMNS.map((column) => `COALESCE(${column}, 'epoch')`).join(', ')})`;
+
+type EnrichedField = 'phone_number' | 'about' | 'avatar_url' | 'business_profile';
+
+interface StatusData {
+  /** null when no about text is set, '' when privacy settings hide it from us */
+  status: string | null;
+  setAt: Date;
+}
+
+interface EnrichmentResult {
+  refreshed: EnrichedField[];
+  failed: EnrichedField[];
+}
+
+interface EnrichmentReport {
+  started_at: Date;
+  finished_at: Date | null;
+  contacts: number;
+  refreshed: Record<EnrichedField, number>;
+  failed: number;
+  /** groups whose picture was checked */
+  group_pictures: number;
+  /** WhatsApp throttled us and the pass stopped early */
+  rate_limited: boolean;
+  error: string | null;
+}
+
+class ContactEnrichmentService {
+  private static instance: ContactEnrichmentService | null = null;
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = new Set<number>();
+  // Per number: WhatsApp throttles each of our sessions on its own
+  private lastRequestAt = new Map<number, number>();
+  private lastReports = new Map<number, EnrichmentReport>();
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  static getInstance(): ContactEnrichmentService {
+    if (!ContactEnrichmentService.instance) {
+      ContactEnrichmentService.instance = new ContactEnrichmentService();
+    }
+    return ContactEnrichmentService.instance;
+  }
+
+  /**
+   * Starts refreshing contact details on a schedule. Does nothing unless enrichment is enabled.
+   */
+  start(): void {
+    if (!CONTACT_ENRICHMENT_ENABLED || this.timer) return;
+
+    this.timer = setInterval(() => {
+      for (const accountId of whatsappService.getConnectedAccountIds()) {
+        runWithAccount(accountId, () => this.runPass()).catch((err) =>
+          log.error({ err, accountId }, 'Contact enrichment pass failed')
+        );
+      }
+    }, CONTACT_ENRICHMENT_INTERVAL_MS);
+
+    log.info(
+      {
+        intervalMs: CONTACT_ENRICHMENT_INTERVAL_MS,
+        batchSize: CONTACT_ENRICHMENT_BATCH_SIZE,
+        delayMs: CONTACT_ENRICHMENT_DELAY_MS,
+        refreshDays: CONTACT_REFRESH_DAYS,
+      },
+      'Contact enrichment started'
+    );
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+    log.info('Contact enrichment stopped');
+  }
+
+  /**
+   * Refreshes the group pictures and the contacts whose details are most out of date, up to the
+   * batch size each, for the account in context. About texts for the whole batch are fetched in
+   * one request. Returns null when a pass is already running or the account is not connected.
+   */
+  async runPass(): Promise<EnrichmentReport | null> {
+    const accountId = requireAccountId();
+    if (this.running.has(accountId) || whatsappService.getOwnJids().length === 0) return null;
+    this.running.add(accountId);
+
+    const report: EnrichmentReport = {
+      started_at: new Date(),
+      finished_at: null,
+      contacts: 0,
+      refreshed: { phone_number: 0, about: 0, avatar_url: 0, business_profile: 0 },
+      failed: 0,
+      group_pictures: 0,
+      rate_limited: false,
+      error: null,
+    };
+    this.lastReports.set(accountId, report);
+
+    try {
+      for (const chat of await this.findStaleGroups(CONTACT_ENRICHMENT_BATCH_SIZE)) {
+        await this.throttle();
+        try {
+          await profilePictures.syncChat(chat);
+          report.group_pictures++;
+        } catch (err) {
+          if (isRateLimited(err)) throw err;
+          report.failed++;
+          log.warn({ err, chatId: chat.chat_id }, 'Failed to refresh group picture');
+        }
+      }
+
+      const contacts = await this.findStale(CONTACT_ENRICHMENT_BATCH_SIZE);
+      report.contacts = contacts.length;
+      if (contacts.length === 0) return report;
+
+      const cutoff = Date.now() - CONTACT_REFRESH_DAYS * DAY_MS;
+      const aboutDue = contacts
+        .filter((contact) => !contact.about_refreshed_at || contact.about_refreshed_at.getTime() < cutoff)
+        .map((contact) => contact.contact_id);
+      let statuses: Map<string, StatusData> | undefined;
+      try {
+        statuses = aboutDue.length > 0 ? await this.fetchStatuses(aboutDue) : undefined;
+      } catch (err) {
+        if (isRateLimited(err)) throw err;
+        // Fall back to asking for each contact on its own
+        log.warn({ err, count: aboutDue.length }, 'Failed to fetch about texts for the batch');
+      }
+
+      for (const contact of contacts) {
+        const result = await this.refresh(contact, { statuses });
+        for (const field of result.refreshed) report.refreshed[field]++;
+        if (result.failed.length > 0) report.failed++;
+      }
+    } catch (err) {
+      if (isRateLimited(err)) {
+        report.rate_limited = true;
+        log.warn('WhatsApp rate-limited contact lookups, resuming next pass');
+      } else {
+        report.error = String(err);
+        throw err;
+      }
+    } finally {
+      report.finished_at = new Date();
+      this.running.delete(accountId);
+    }
+
+    log.info({ ...report, accountId }, 'Contact enrichment pass finished');
+    return report;
+  }
+
+  /**
+   * Fetches whichever of the contact's about text, profile picture and business profile are due
+   * (all of them with `force`), and fills in the E.164 phone number of phone-number contacts.
+   * `statuses` carries about texts already fetched for a whole batch; a JID missing from it got
+   * no answer. A rate-limit answer saves what was fetched so far and is then rethrown.
+   */
+  async refresh(
+    contact: Contact,
+    options: { force?: boolean; statuses?: Map<string, StatusData> } = {}
+  ): Promise<EnrichmentResult> {
+    const sock = whatsappService.getSocket();
+    const jid = contact.contact_id;
+    const now = new Date();
+    const cutoff = now.getTime() - CONTACT_REFRESH_DAYS * DAY_MS;
+    const isDue = (refreshedAt: Date | null) => options.force || !refreshedAt || refreshedAt.getTime() < cutoff;
+
+    const fields: Record<string, unknown> = {};
+    const result: EnrichmentResult = { refreshed: [], failed: [] };
+    let rateLimit: unknown = null;
+
+    const attempt = async (field: EnrichedField, fetch: () => Promise<void>) => {
+      if (rateLimit) return;
+      try {
+        await fetch();
+        result.refreshed.push(field);
+      } catch (err) {
+        if (isRateLimited(err)) {
+          rateLimit = err;
+          return;
+        }
+        result.failed.push(field);
+        log.warn({ err, jid, field }, 'Failed to refresh contact field');
+      }
+    };
+
+    if (isPnUser(jid) && contact.phone_number !== phoneFromJid(jid)) {
+      fields.phone_number = phoneFromJid(jid);
+      result.refreshed.push('phone_number');
+    }
+
+    if (isDue(contact.about_refreshed_at)) {
+      await attempt('about', async () => {
+        const status = options.statuses
+          ? options.statuses.get(jid)
+          : (await this.fetchStatuses([jid])).get(jid);
+        // Hidden by privacy settings: keep what contacts.update told us
+        if (status && status.status !== '') {
+          fields.about = status.status;
+          fields.about_set_at = status.setAt.getTime() > 0 ? status.setAt : null;
+        }
+        fields.about_refreshed_at = now;
+      });
+    }
+
+    if (isDue(contact.avatar_refreshed_at)) {
+      await attempt('avatar_url', async () => {
+        await this.throttle();
+        // Stores the picture and updates avatar_url itself
+        await profilePictures.syncContact(contact);
+      });
+    }
+
+    if (isDue(contact.business_profile_refreshed_at)) {
+      await attempt('business_profile', async () => {
+        await this.throttle();
+        const profile = await sock.getBusinessProfile(jid);
+        fields.is_business = !!profile;
+        fields.business_profile = profile ? { ...profile } : null;
+        fields.business_profile_refreshed_at = now;
+      });
+    }
+
+    if (Object.keys(fields).length > 0) {
+      await contact.update(fields);
+    }
+
+    if (rateLimit) throw rateLimit;
+    return result;
+  }
+
+  /**
+   * Returns the current (or most recent) pass of an account, or null when none has run since startup.
+   */
+  getLastReport(accountId: number = requireAccountId()): EnrichmentReport | null {
+    return this.lastReports.get(accountId) || null;
+  }
+
+  isActive(accountId: number = requireAccountId()): boolean {
+    return this.running.has(accountId);
+  }
+
+  /**
+   * About texts for several JIDs in one request. JIDs WhatsApp gave no answer for are absent.
+   */
+  private async fetchStatuses(jids: string[]): Promise<Map<string, StatusData>> {
+    await this.throttle();
+    const list = (await whatsappService.getSocket().fetchStatus(...jids)) || [];
+    const statuses = new Map<string, StatusData>();
+    for (const entry of list) {
+      const status = entry.status as StatusData | undefined;
+      if (status) statuses.set(entry.id, status);
+    }
+    return statuses;
+  }
+
+  private async findStale(limit: number): Promise<Contact[]> {
+    const cutoff = new Date(Date.now() - CONTACT_REFRESH_DAYS * DAY_MS);
+    const ownJids = whatsappService.getOwnJids();
+
+    return Contact.findAll({
+      where: {
+        [Op.and]: [
+          { [Op.or]: [{ contact_id: { [Op.like]: '%@s.whatsapp.net' } }, { contact_id: { [Op.like]: '%@lid' } }] },
+          { [Op.or]: REFRESHED_AT_COLUMNS.flatMap((column) => [{ [column]: null }, { [column]: { [Op.lt]: cutoff } }]) },
+          ...(ownJids.length > 0 ? [{ contact_id: { [Op.notIn]: ownJids } }] : []),
+        ],
+      },
+      order: [[sequelize.literal(STALEST_FIRST), 'ASC'], ['id', 'ASC']],
+      limit,
+    });
+  }
+
+  private async findStaleGroups(limit: number): Promise<Chat[]> {
+    const cutoff = new Date(Date.now() - CONTACT_REFRESH_DAYS * DAY_MS);
+
+    return Chat.findAll({
+      where: {
+        chat_type: 'group',
+        [Op.or]: [{ avatar_refreshed_at: null }, { avatar_refreshed_at: { [Op.lt]: cutoff } }],
+      },
+      order: [[sequelize.literal(`COALESCE(avatar_refreshed_at, 'epoch')`), 'ASC'], ['id', 'ASC']],
+      limit,
+    });
+  }
+
+  // Spaces requests out by CONTACT_ENRICHMENT_DELAY_MS, across passes and on-demand refreshes
+  private async throttle(): Promise<void> {
+    const accountId = requireAccountId();
+    const wait = (this.lastRequestAt.get(accountId) || 0) + CONTACT_ENRICHMENT_DELAY_MS - Date.now();
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+    this.lastRequestAt.set(accountId, Date.now());
+  }
+}
+
+export { ContactEnrichmentService, type EnrichmentReport, type EnrichmentResult };
+export default ContactEnrichmentService.getInstance();
@@ -0,0 +1,119 @@
+import { GroupHandler, type GroupReconcileResult } from '../handlers/group.handler.js';
+import whatsappService from './whatsapp.service.js';
+import { requireAccountId } from '../utils/account-context.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const log = createChildLogger('group-sync');
+
+interface GroupSyncReport {
+  started_at: Date;
+  finished_at: Date | null;
+  /** Groups WhatsApp says we are in */
+  groups: number;
+  chats_created: number;
+  groups_updated: number;
+  participants_added: number;
+  participants_removed: number;
+  role_changes: number;
+  failed: number;
+  /** Per-group detail, only for groups where something changed */
+  changes: GroupReconcileResult[];
+  error: string | null;
+}
+
+function hasChanges(result: GroupReconcileResult): boolean {
+  return (
+    result.chat_created ||
+    result.metadata_created ||
+    result.changed_fields.length > 0 ||
+    result.added.length > 0 ||
+    result.removed.length > 0 ||
+    result.role_changes.length > 0
+  );
+}
+
+class GroupSyncService {
+  private static instance: GroupSyncService | null = null;
+
+  // Keyed by account, since every account reconciles its own groups
+  private lastReports = new Map<number, GroupSyncReport>();
+  private running = new Set<number>();
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  static getInstance(): GroupSyncService {
+    if (!GroupSyncService.instance) {
+      GroupSyncService.instance = new GroupSyncService();
+    }
+    return GroupSyncService.instance;
+  }
+
+  /**
+   * Fetches every group we participate in and reconciles chats, group metadata and members
+   * against it, for the account in context. Runs on each connect; returns null when a sync of
+   * the account is already in progress.
+   */
+  async syncAll(): Promise<GroupSyncReport | null> {
+    const accountId = requireAccountId();
+    if (this.running.has(accountId)) return null;
+    this.running.add(accountId);
+
+    const report: GroupSyncReport = {
+      started_at: new Date(),
+      finished_at: null,
+      groups: 0,
+      chats_created: 0,
+      groups_updated: 0,
+      participants_added: 0,
+      participants_removed: 0,
+      role_changes: 0,
+      failed: 0,
+      changes: [],
+      error: null,
+    };
+    this.lastReports.set(accountId, report);
+
+    try {
+      const groups = Object.values(await whatsappService.getSocket().groupFetchAllParticipating());
+      report.groups = groups.length;
+
+      for (const group of groups) {
+        try {
+          const result = await GroupHandler.reconcileGroup(group);
+          if (!hasChanges(result)) continue;
+
+          report.changes.push(result);
+          if (result.chat_created) report.chats_created++;
+          if (result.metadata_created || result.changed_fields.length > 0) report.groups_updated++;
+          report.participants_added += result.added.length;
+          report.participants_removed += result.removed.length;
+          report.role_changes += result.role_changes.length;
+        } catch (err) {
+          report.failed++;
+          log.error({ err, groupId: group.id }, 'Failed to reconcile group');
+        }
+      }
+    } catch (err) {
+      report.error = String(err);
+      throw err;
+    } finally {
+      report.finished_at = new Date();
+      this.running.delete(accountId);
+    }
+
+    log.info({ ...report, accountId, changes: report.changes.length }, 'Group reconciliation finished');
+    return report;
+  }
+
+  /**
+   * Returns the current (or most recent) sync of an account, or null when none has run since startup.
+   */
+  getLastReport(accountId: number = requireAccountId()): GroupSyncReport | null {
+    return this.lastReports.get(accountId) || null;
+  }
+}
+
+export { GroupSyncService, type GroupSyncReport };
+export default GroupSyncService.getInstance();
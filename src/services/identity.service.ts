@@ -0,0 +1,242 @@
+import type { Transaction } from 'sequelize';
+import { isLidUser, isPnUser, jidNormalizedUser, type WAMessageKey } from '@whiskeysockets/baileys';
+import { Contact, ContactIdentity, ProfilePicture, sequelize } from '../models/index.js';
+import type { IdentityKind } from '../models/ContactIdentity.js';
+import { currentAccountId } from '../utils/account-context.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const log = createChildLogger('identity-service');
+
+interface ContactDefaults {
+  name?: string | null;
+  avatar_url?: string | null;
+  about?: string | null;
+}
+
+// Profile fields a merged contact inherits when the surviving contact has none
+const MERGED_FIELDS = ['name', 'nickname', 'about', 'about_set_at', 'avatar_url', 'business_profile'] as const;
+
+function identityKind(jid: string): IdentityKind | null {
+  if (isLidUser(jid)) return 'lid';
+  if (isPnUser(jid)) return 'pn';
+  return null;
+}
+
+/**
+ * Strips the device (and agent) part from a user JID. Returns null for anything that is not a
+ * person: groups, broadcasts, channels.
+ */
+function normalizeJid(jid: string | null | undefined): string | null {
+  if (!jid) return null;
+  const normalized = jidNormalizedUser(jid);
+  return normalized && identityKind(normalized) ? normalized : null;
+}
+
+/**
+ * The E.164 phone number of a phone-number JID, e.g. 4915112345678@s.whatsapp.net -> +4915112345678.
+ */
+function phoneFromJid(pn: string): string {
+  return `+${pn.split('@')[0]}`;
+}
+
+class IdentityService {
+  private static instance: IdentityService | null = null;
+
+  // account|PN|LID triples already known to point at the same contact
+  private linked = new Set<string>();
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  static getInstance(): IdentityService {
+    if (!IdentityService.instance) {
+      IdentityService.instance = new IdentityService();
+    }
+    return IdentityService.instance;
+  }
+
+  /**
+   * Finds the contact behind a JID in any form: phone number, LID, or either with a device suffix.
+   */
+  async resolve(jid: string, transaction?: Transaction): Promise<Contact | null> {
+    const normalized = normalizeJid(jid);
+    if (!normalized) {
+      return Contact.findOne({ where: { contact_id: jid }, transaction });
+    }
+
+    const identity = await ContactIdentity.findOne({
+      where: { jid: normalized },
+      include: [{ model: Contact, as: 'contact' }],
+      transaction,
+    });
+    if (identity?.contact) return identity.contact;
+
+    // Contacts stored under a device variant before identities were tracked
+    return Contact.findOne({ where: { contact_id: [...new Set([normalized, jid])] }, transaction });
+  }
+
+  /**
+   * Returns every JID the contact is known by, canonical one first.
+   */
+  async getJids(contact: Contact): Promise<string[]> {
+    const identities = await ContactIdentity.findAll({ where: { contact_id: contact.id }, attributes: ['jid'] });
+    return [...new Set([contact.contact_id, ...identities.map((identity) => identity.jid)])];
+  }
+
+  /**
+   * Resolves a JID to its contact, creating one (and its identity) when the person is new.
+   * Replaces Contact.findOrCreate wherever a JID arrives from WhatsApp.
+   */
+  async findOrCreateContact(
+    jid: string,
+    source: string,
+    defaults: ContactDefaults = {},
+    transaction?: Transaction
+  ): Promise<[Contact, boolean]> {
+    const existing = await this.resolve(jid, transaction);
+    const normalized = normalizeJid(jid);
+    const kind = normalized ? identityKind(normalized) : null;
+
+    const [contact, created] = existing
+      ? [existing, false]
+      : await Contact.findOrCreate({
+          where: { contact_id: normalized || jid },
+          defaults: {
+            ...defaults,
+            contact_id: normalized || jid,
+            phone_number: normalized && kind === 'pn' ? phoneFromJid(normalized) : null,
+          },
+          transaction,
+        });
+
+    if (normalized && kind) {
+      await this.attach(contact, normalized, kind, source, transaction);
+    }
+
+    return [contact, created];
+  }
+
+  /**
+   * Records that two JIDs belong to the same person. Takes a phone-number JID and a LID in
+   * either order; anything else is ignored. When each already has its own contact, the LID
+   * contact is merged into the phone-number one. The phone number becomes the canonical JID.
+   */
+  async link(jidA: string | null | undefined, jidB: string | null | undefined, source: string): Promise<Contact | null> {
+    const jids = [normalizeJid(jidA), normalizeJid(jidB)];
+    const pn = jids.find((jid) => jid && identityKind(jid) === 'pn');
+    const lid = jids.find((jid) => jid && identityKind(jid) === 'lid');
+    if (!pn || !lid) return null;
+
+    const pairKey = `${currentAccountId()}|${pn}|${lid}`;
+    if (this.linked.has(pairKey)) return null;
+
+    const transaction = await sequelize.transaction();
+    try {
+      const pnContact = await this.resolve(pn, transaction);
+      const lidContact = await this.resolve(lid, transaction);
+
+      let contact: Contact;
+      if (pnContact && lidContact && pnContact.id !== lidContact.id) {
+        contact = await this.merge(pnContact, lidContact, transaction);
+      } else {
+        contact =
+          pnContact ||
+          lidContact ||
+          (await Contact.create({ contact_id: pn, phone_number: phoneFromJid(pn) }, { transaction }));
+      }
+
+      await this.attach(contact, pn, 'pn', source, transaction);
+      await this.attach(contact, lid, 'lid', source, transaction);
+
+      if (contact.contact_id !== pn || !contact.phone_number) {
+        await contact.update({ contact_id: pn, phone_number: contact.phone_number || phoneFromJid(pn) }, { transaction });
+      }
+
+      await transaction.commit();
+      this.linked.add(pairKey);
+      return contact;
+    } catch (err) {
+      await transaction.rollback();
+      throw err;
+    }
+  }
+
+  /**
+   * Links the alternate JIDs Baileys puts on message keys: the sender's other form in
+   * groups (participantAlt) and the chat's other form in direct chats (remoteJidAlt).
+   */
+  async linkMessageKey(key: WAMessageKey, source: string): Promise<void> {
+    if (key.participant && key.participantAlt) {
+      await this.link(key.participant, key.participantAlt, source);
+    }
+    if (key.remoteJid && key.remoteJidAlt) {
+      await this.link(key.remoteJid, key.remoteJidAlt, source);
+    }
+  }
+
+  /**
+   * Folds `source` into `target`: moves its identities and picture history over, fills profile
+   * fields the target lacks, widens the first/last seen range, and deletes it.
+   */
+  async merge(target: Contact, source: Contact, transaction: Transaction): Promise<Contact> {
+    await ContactIdentity.update({ contact_id: target.id }, { where: { contact_id: source.id }, transaction });
+
+    // The target's own current picture stays current
+    const targetPicture = await ProfilePicture.count({ where: { contact_id: target.id, is_current: true }, transaction });
+    if (targetPicture > 0) {
+      await ProfilePicture.update(
+        { is_current: false, replaced_at: new Date() },
+        { where: { contact_id: source.id, is_current: true }, transaction }
+      );
+    }
+    await ProfilePicture.update({ contact_id: target.id }, { where: { contact_id: source.id }, transaction });
+
+    const fields: Record<string, unknown> = {};
+    for (const field of MERGED_FIELDS) {
+      if (target[field] == null && source[field] != null) fields[field] = source[field];
+    }
+    if (source.is_business && !target.is_business) fields.is_business = true;
+    if (source.is_enterprise && !target.is_enterprise) fields.is_enterprise = true;
+    if (source.first_seen_at && (!target.first_seen_at || source.first_seen_at < target.first_seen_at)) {
+      fields.first_seen_at = source.first_seen_at;
+    }
+    if (source.last_seen_at && (!target.last_seen_at || source.last_seen_at > target.last_seen_at)) {
+      fields.last_seen_at = source.last_seen_at;
+    }
+    if (source.metadata) fields.metadata = { ...source.metadata, ...(target.metadata || {}) };
+
+    // Deleted first: the target may take over the source's JID as its canonical one
+    await source.destroy({ transaction });
+    if (Object.keys(fields).length > 0) {
+      await target.update(fields, { transaction });
+    }
+
+    log.info(
+      { contactId: target.id, canonicalJid: target.contact_id, mergedJid: source.contact_id },
+      'Contacts merged'
+    );
+    return target;
+  }
+
+  private async attach(
+    contact: Contact,
+    jid: string,
+    kind: IdentityKind,
+    source: string,
+    transaction?: Transaction
+  ): Promise<void> {
+    const [identity, created] = await ContactIdentity.findOrCreate({
+      where: { jid },
+      defaults: { contact_id: contact.id, jid, kind, source },
+      transaction,
+    });
+
+    if (!created && identity.contact_id !== contact.id) {
+      await identity.update({ contact_id: contact.id }, { transaction });
+    }
+  }
+}
+
+export { IdentityService, normalizeJid, phoneFromJid, type ContactDefaults };
+export default IdentityService.getInstance();
@@ -0,0 +1,162 @@
+import { Op } from 'sequelize';
+import { extractImageThumb, getAudioDuration } from '@whiskeysockets/baileys';
+import { Message, MessageMedia } from '../models/index.js';
+import { getStorageDriver } from '../storage/index.js';
+import StorageService, { type MediaInfo } from './storage.service.js';
+import { readExifCaptureDate } from '../utils/exif.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const log = createChildLogger('media-processor');
+
+const THUMBNAIL_WIDTH = 320;
+
+// Per-file results kept in message_media.metadata; copied as-is to deduplicated siblings
+const FILE_METADATA_KEYS = ['page_count', 'captured_at', 'thumbnail_key', 'thumbnail_source'] as const;
+
+/**
+ * Counts pages in a PDF by its page objects. Good enough for display when the
+ * sender did not include a page count.
+ */
+function countPdfPages(buffer: Buffer): number | null {
+  const matches = buffer.toString('latin1').match(/\/Type\s*\/Page(?![a-zA-Z])/g);
+  return matches ? matches.length : null;
+}
+
+class MediaProcessorService {
+  /**
+   * Fills in dimensions, duration, page count, capture date and a thumbnail for a stored file,
+   * then marks the row processed. Reads the file back from storage when no buffer is given.
+   * Results for a deduplicated file are copied from another row unless reuseDuplicates is false.
+   */
+  static async process(
+    media: MessageMedia,
+    info: MediaInfo | null,
+    buffer?: Buffer,
+    { reuseDuplicates = true }: { reuseDuplicates?: boolean } = {}
+  ): Promise<void> {
+    // A deduplicated file has already been processed for another message
+    if (media.blob_id && reuseDuplicates) {
+      const sibling = await MessageMedia.findOne({
+        where: { blob_id: media.blob_id, is_processed: true, id: { [Op.ne]: media.id } },
+      });
+      if (sibling) {
+        await MediaProcessorService.copyFrom(media, sibling);
+        return;
+      }
+    }
+
+    const driver = getStorageDriver(media.storage_provider);
+    const data = buffer ?? (await driver.get(media.storage_key));
+    const mimetype = media.mimetype || info?.mimetype || '';
+    const metadata: Record<string, unknown> = { ...(media.metadata || {}) };
+    for (const key of FILE_METADATA_KEYS) delete metadata[key];
+
+    let width = info?.width ?? null;
+    let height = info?.height ?? null;
+    let duration = info?.seconds ?? null;
+    let thumbnail: Buffer | null = null;
+
+    if (mimetype.startsWith('image/')) {
+      // Uses sharp or jimp, whichever is installed
+      try {
+        const { buffer: thumb, original } = await extractImageThumb(data, THUMBNAIL_WIDTH);
+        thumbnail = thumb;
+        metadata.thumbnail_source = 'generated';
+        width = width ?? original.width ?? null;
+        height = height ?? original.height ?? null;
+      } catch (err) {
+        log.debug({ err, mediaId: media.id }, 'Could not generate image thumbnail');
+      }
+
+      if (mimetype === 'image/jpeg') {
+        const capturedAt = readExifCaptureDate(data);
+        if (capturedAt) metadata.captured_at = capturedAt;
+      }
+    }
+
+    if (!duration && (mimetype.startsWith('audio/') || mimetype.startsWith('video/'))) {
+      try {
+        duration = (await getAudioDuration(data)) ?? null;
+      } catch (err) {
+        log.debug({ err, mediaId: media.id }, 'Could not read media duration');
+      }
+    }
+
+    if (mimetype === 'application/pdf') {
+      const pageCount = info?.pageCount || countPdfPages(data);
+      if (pageCount) metadata.page_count = pageCount;
+    }
+
+    // Videos and documents (and images when no image library is installed) use the preview
+    // WhatsApp embeds in the message
+    if (!thumbnail && info?.jpegThumbnail) {
+      thumbnail = info.jpegThumbnail;
+      metadata.thumbnail_source = 'embedded';
+    }
+
+    if (thumbnail) {
+      const thumbnailKey = StorageService.getThumbnailKey(media.storage_key);
+      await driver.put(thumbnailKey, thumbnail, 'image/jpeg');
+      metadata.thumbnail_key = thumbnailKey;
+    }
+
+    await MediaProcessorService.save(media, {
+      width,
+      height,
+      duration_seconds: duration ? Math.round(duration) : null,
+      metadata,
+      hasThumbnail: !!thumbnail,
+    });
+
+    log.info(
+      { mediaId: media.id, width, height, duration, thumbnail: metadata.thumbnail_source ?? null },
+      'Media processed'
+    );
+  }
+
+  private static async copyFrom(media: MessageMedia, sibling: MessageMedia): Promise<void> {
+    const metadata: Record<string, unknown> = { ...(media.metadata || {}) };
+    for (const key of FILE_METADATA_KEYS) {
+      if (sibling.metadata?.[key] !== undefined) metadata[key] = sibling.metadata[key];
+    }
+
+    await MediaProcessorService.save(media, {
+      width: sibling.width,
+      height: sibling.height,
+      duration_seconds: sibling.duration_seconds,
+      metadata,
+      hasThumbnail: !!metadata.thumbnail_key,
+    });
+
+    log.debug({ mediaId: media.id, siblingId: sibling.id }, 'Media processing copied from duplicate');
+  }
+
+  private static async save(
+    media: MessageMedia,
+    fields: {
+      width: number | null;
+      height: number | null;
+      duration_seconds: number | null;
+      metadata: Record<string, unknown>;
+      hasThumbnail: boolean;
+    }
+  ): Promise<void> {
+    const thumbnailUrl = fields.hasThumbnail ? StorageService.getThumbnailPath(media.id) : null;
+
+    await media.update({
+      width: fields.width,
+      height: fields.height,
+      duration_seconds: fields.duration_seconds,
+      metadata: fields.metadata,
+      thumbnail_url: thumbnailUrl,
+      is_processed: true,
+    });
+
+    if (thumbnailUrl) {
+      await Message.update({ thumbnail_url: thumbnailUrl }, { where: { id: media.message_id } });
+    }
+  }
+}
+
+export { MediaProcessorService };
+export default MediaProcessorService;
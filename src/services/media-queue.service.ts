@@ -0,0 +1,403 @@
+import { Op } from 'sequelize';
+import type { WASocket, WAMessage } from '@whiskeysockets/baileys';
+import { Message, MessageMedia, MediaJob, MediaBlob, sequelize } from '../models/index.js';
+import StorageService, { type MediaInfo } from './storage.service.js';
+import MediaProcessorService from './media-processor.service.js';
+import TranscriptionService from './transcription.service.js';
+import OcrService from './ocr.service.js';
+import whatsappService from './whatsapp.service.js';
+import { TRANSCRIPTION_ENABLED } from '../config/transcription.js';
+import { OCR_ENABLED } from '../config/ocr.js';
+import { reviveBytes } from '../utils/bytes.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const log = createChildLogger('media-queue');
+
+const POLL_INTERVAL_MS = parseInt(process.env.MEDIA_QUEUE_POLL_MS || '5000', 10);
+const CONCURRENCY = parseInt(process.env.MEDIA_QUEUE_CONCURRENCY || '2', 10);
+const MAX_ATTEMPTS = parseInt(process.env.MEDIA_JOB_MAX_ATTEMPTS || '5', 10);
+
+const BASE_BACKOFF_MS = 30_000;
+const MAX_BACKOFF_MS = 6 * 60 * 60_000;
+
+// A job still marked processing after this long belongs to a worker that died
+const STALE_LOCK_MS = 10 * 60_000;
+
+class MediaQueueService {
+  private static instance: MediaQueueService | null = null;
+
+  private timer: NodeJS.Timeout | null = null;
+  private isTicking = false;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  static getInstance(): MediaQueueService {
+    if (!MediaQueueService.instance) {
+      MediaQueueService.instance = new MediaQueueService();
+    }
+    return MediaQueueService.instance;
+  }
+
+  /**
+   * Queues a message's media for download. Messages that already have a job are left alone.
+   */
+  async enqueue(message: Message): Promise<void> {
+    const [, created] = await MediaJob.findOrCreate({
+      where: { message_id: message.id },
+      defaults: {
+        message_id: message.id,
+        account_id: message.account_id,
+        max_attempts: MAX_ATTEMPTS,
+      },
+    });
+
+    if (created) {
+      log.debug({ messageId: message.message_id }, 'Media job queued');
+    }
+  }
+
+  /**
+   * Starts polling for due jobs. Safe to call more than once.
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, POLL_INTERVAL_MS);
+
+    log.info({ pollIntervalMs: POLL_INTERVAL_MS, concurrency: CONCURRENCY }, 'Media queue started');
+  }
+
+  /**
+   * Stops polling. Jobs already in flight finish on their own.
+   */
+  stop(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+    log.info('Media queue stopped');
+  }
+
+  /**
+   * Puts a failed or skipped job back in the queue with a fresh set of attempts.
+   * Returns null when the job does not exist, false when it is not in a retryable state.
+   */
+  async retry(jobId: number): Promise<MediaJob | false | null> {
+    const job = await MediaJob.findByPk(jobId);
+    if (!job) return null;
+    if (job.status !== 'failed' && job.status !== 'skipped') return false;
+
+    await job.update({
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: new Date(),
+      completed_at: null,
+    });
+
+    log.info({ jobId }, 'Media job requeued');
+    return job;
+  }
+
+  /**
+   * Requeues every permanently failed job. Returns how many were requeued.
+   */
+  async retryFailed(): Promise<number> {
+    const [count] = await MediaJob.update(
+      { status: 'pending', attempts: 0, next_attempt_at: new Date(), completed_at: null },
+      { where: { status: 'failed' } }
+    );
+
+    log.info({ count }, 'Failed media jobs requeued');
+    return count;
+  }
+
+  /**
+   * Processes a message's media job right away instead of waiting for the poller, with a fresh
+   * set of attempts. Returns the job in its resulting state; a job that is completed or already
+   * being processed by another worker is returned untouched.
+   */
+  async runNow(message: Message): Promise<MediaJob> {
+    await this.enqueue(message);
+
+    const transaction = await sequelize.transaction();
+    let job: MediaJob;
+    let claimed = false;
+
+    try {
+      job = await MediaJob.findOne({
+        where: { message_id: message.id },
+        lock: transaction.LOCK.UPDATE,
+        transaction,
+        rejectOnEmpty: true,
+      });
+
+      if (job.status !== 'completed' && job.status !== 'processing') {
+        await job.update({ status: 'processing', attempts: 0, locked_at: new Date() }, { transaction });
+        claimed = true;
+      }
+
+      await transaction.commit();
+    } catch (err) {
+      await transaction.rollback();
+      throw err;
+    }
+
+    if (claimed) {
+      await this.processJob(job);
+    }
+    return job;
+  }
+
+  /**
+   * Claims the jobs that are due and processes them concurrently.
+   * Skipped while the previous tick is still running.
+   */
+  private async tick(): Promise<void> {
+    if (this.isTicking) return;
+    this.isTicking = true;
+
+    try {
+      await this.releaseStaleJobs();
+
+      const jobs = await this.claimDueJobs(CONCURRENCY);
+      await Promise.all(jobs.map((job) => this.processJob(job)));
+    } catch (err) {
+      log.error({ err }, 'Media queue tick failed');
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  private async releaseStaleJobs(): Promise<void> {
+    const [count] = await MediaJob.update(
+      { status: 'pending', locked_at: null },
+      {
+        where: {
+          status: 'processing',
+          locked_at: { [Op.lt]: new Date(Date.now() - STALE_LOCK_MS) },
+        },
+      }
+    );
+
+    if (count > 0) {
+      log.warn({ count }, 'Released stale media jobs');
+    }
+  }
+
+  /**
+   * Marks up to `limit` due jobs as processing. SKIP LOCKED lets several
+   * processes (server and sync script) share the queue without double work.
+   */
+  private async claimDueJobs(limit: number): Promise<MediaJob[]> {
+    const transaction = await sequelize.transaction();
+
+    try {
+      const jobs = await MediaJob.findAll({
+        where: {
+          status: 'pending',
+          next_attempt_at: { [Op.lte]: new Date() },
+        },
+        order: [['next_attempt_at', 'ASC']],
+        limit,
+        lock: transaction.LOCK.UPDATE,
+        skipLocked: true,
+        transaction,
+      });
+
+      for (const job of jobs) {
+        await job.update({ status: 'processing', locked_at: new Date() }, { transaction });
+      }
+
+      await transaction.commit();
+      return jobs;
+    } catch (err) {
+      await transaction.rollback();
+      throw err;
+    }
+  }
+
+  private async processJob(job: MediaJob): Promise<void> {
+    const message = await Message.findByPk(job.message_id);
+    const raw = message?.raw_data ? reviveBytes(message.raw_data as unknown as WAMessage) : null;
+
+    if (!message || !raw?.key) {
+      await this.skip(job, 'Message has no raw data to download from');
+      return;
+    }
+
+    const skipReason = StorageService.getSkipReason(raw.message);
+    if (skipReason) {
+      await this.skip(job, skipReason);
+      return;
+    }
+
+    const info = StorageService.getMediaInfo(raw.message);
+    const attempts = job.attempts + 1;
+
+    try {
+      // The same file forwarded elsewhere is already stored; link it without downloading
+      const existing = info?.fileSha256
+        ? await MediaBlob.findOne({ where: { sha256: info.fileSha256 } })
+        : null;
+
+      if (existing) {
+        const media = await this.complete(job, message, existing, info?.filename || null, attempts);
+        await this.postProcess(message, media, info);
+        log.info({ jobId: job.id, messageId: message.message_id, blobId: existing.id }, 'Media deduplicated');
+        return;
+      }
+
+      // Downloads need the socket of the message's account for media re-upload requests; wait
+      // for a connection without using up an attempt
+      let sock: WASocket;
+      try {
+        sock = whatsappService.getSocket(message.account_id);
+      } catch {
+        await job.update({
+          status: 'pending',
+          locked_at: null,
+          next_attempt_at: new Date(Date.now() + POLL_INTERVAL_MS),
+        });
+        return;
+      }
+
+      const download = await StorageService.downloadMedia(raw, sock);
+      if (!download) {
+        await this.skip(job, 'Media not eligible for download');
+        return;
+      }
+
+      const blob = await StorageService.storeBlob(download.buffer, download.sha256, download.mimetype);
+      const media = await this.complete(job, message, blob, download.filename, attempts);
+      await this.postProcess(message, media, info, download.buffer);
+
+      log.info({ jobId: job.id, messageId: message.message_id, blobId: blob.id, attempts }, 'Media job completed');
+    } catch (err) {
+      const isPermanent = attempts >= job.max_attempts;
+      const delay = Math.min(BASE_BACKOFF_MS * Math.pow(2, attempts - 1), MAX_BACKOFF_MS);
+
+      await job.update({
+        status: isPermanent ? 'failed' : 'pending',
+        attempts,
+        locked_at: null,
+        last_error: err instanceof Error ? err.message : String(err),
+        next_attempt_at: new Date(Date.now() + delay),
+      });
+
+      if (isPermanent) {
+        log.error({ err, jobId: job.id, messageId: message.message_id, attempts }, 'Media job failed permanently');
+      } else {
+        log.warn(
+          { err, jobId: job.id, messageId: message.message_id, attempts, retryInMs: delay },
+          'Media job failed, will retry'
+        );
+      }
+    }
+  }
+
+  /**
+   * Links the message to its stored blob and marks the job completed.
+   */
+  private async complete(
+    job: MediaJob,
+    message: Message,
+    blob: MediaBlob,
+    filename: string | null,
+    attempts: number
+  ): Promise<MessageMedia> {
+    const transaction = await sequelize.transaction();
+    try {
+      const media = await MessageMedia.create(
+        {
+          message_id: message.id,
+          account_id: message.account_id,
+          blob_id: blob.id,
+          storage_provider: blob.storage_provider,
+          storage_key: blob.storage_key,
+          storage_url: blob.storage_url,
+          filename,
+          mimetype: blob.mimetype,
+          size_bytes: blob.size_bytes,
+        },
+        { transaction }
+      );
+
+      await message.update(
+        {
+          media_url: StorageService.getContentPath(media.id),
+          media_size: blob.size_bytes,
+          media_mimetype: message.media_mimetype || blob.mimetype,
+          media_filename: message.media_filename || filename,
+        },
+        { transaction }
+      );
+
+      await job.update(
+        {
+          status: 'completed',
+          attempts,
+          locked_at: null,
+          last_error: null,
+          completed_at: new Date(),
+        },
+        { transaction }
+      );
+
+      await transaction.commit();
+      return media;
+    } catch (err) {
+      await transaction.rollback();
+      throw err;
+    }
+  }
+
+  /**
+   * Extracts metadata and thumbnails once the file is stored, transcribes voice notes and
+   * reads the text in images and scans. The file itself is already archived, so failures here
+   * are logged and left for process-media, transcribe-media and ocr-media to pick up later.
+   */
+  private async postProcess(
+    message: Message,
+    media: MessageMedia,
+    info: MediaInfo | null,
+    buffer?: Buffer
+  ): Promise<void> {
+    try {
+      await MediaProcessorService.process(media, info, buffer);
+    } catch (err) {
+      log.warn({ err, mediaId: media.id }, 'Media processing failed');
+    }
+
+    if (TRANSCRIPTION_ENABLED && TranscriptionService.isTranscribable(message.message_type)) {
+      try {
+        await TranscriptionService.transcribe(media, buffer);
+      } catch (err) {
+        log.warn({ err, mediaId: media.id }, 'Transcription failed');
+      }
+    }
+
+    if (OCR_ENABLED && OcrService.isEligible(message.message_type, media.mimetype)) {
+      try {
+        await OcrService.extract(media, buffer);
+      } catch (err) {
+        log.warn({ err, mediaId: media.id }, 'OCR failed');
+      }
+    }
+  }
+
+  private async skip(job: MediaJob, reason: string): Promise<void> {
+    await job.update({
+      status: 'skipped',
+      locked_at: null,
+      last_error: reason,
+      completed_at: new Date(),
+    });
+    log.debug({ jobId: job.id, reason }, 'Media job skipped');
+  }
+}
+
+export { MediaQueueService };
+export default MediaQueueService.getInstance();
@@ -0,0 +1,257 @@
+import { Op } from 'sequelize';
+import type { WAMessage } from '@whiskeysockets/baileys';
+import type { Boom } from '@hapi/boom';
+import { Message, MediaBlob, MediaRecovery, sequelize } from '../models/index.js';
+import type { MediaRecoveryStatus } from '../models/MediaRecovery.js';
+import StorageService from './storage.service.js';
+import mediaQueue from './media-queue.service.js';
+import whatsappService from './whatsapp.service.js';
+import { reviveBytes } from '../utils/bytes.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const log = createChildLogger('media-recovery');
+
+// Each request wakes the phone; spacing them out keeps the account from looking abusive
+const REQUEST_DELAY_MS = parseInt(process.env.MEDIA_RECOVERY_DELAY_MS || '5000', 10);
+const MAX_ATTEMPTS = parseInt(process.env.MEDIA_RECOVERY_MAX_ATTEMPTS || '3', 10);
+
+const BATCH_SIZE = 50;
+
+// Outcomes worth asking the phone about again on a later run
+const RETRYABLE_STATUSES: MediaRecoveryStatus[] = ['no_response', 'failed'];
+
+interface RecoveryOptions {
+  /** Stop after this many messages have been tried */
+  limit?: number;
+  /** Only recover media from this chat (chats.id) */
+  chatId?: number;
+}
+
+interface RecoveryRun {
+  started_at: Date;
+  finished_at: Date | null;
+  options: RecoveryOptions;
+  processed: number;
+  outcomes: Record<MediaRecoveryStatus, number>;
+  error: string | null;
+}
+
+class MediaRecoveryService {
+  private static instance: MediaRecoveryService | null = null;
+
+  private currentRun: RecoveryRun | null = null;
+  private isRunning = false;
+  private stopRequested = false;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  static getInstance(): MediaRecoveryService {
+    if (!MediaRecoveryService.instance) {
+      MediaRecoveryService.instance = new MediaRecoveryService();
+    }
+    return MediaRecoveryService.instance;
+  }
+
+  /**
+   * Starts a recovery run in the background. Returns false when one is already running.
+   */
+  start(options: RecoveryOptions = {}): boolean {
+    if (this.isRunning) return false;
+
+    void this.run(options).catch((err) => {
+      log.error({ err }, 'Media recovery run failed');
+    });
+    return true;
+  }
+
+  /**
+   * Asks the current run to stop after the message it is working on.
+   */
+  stop(): boolean {
+    if (!this.isRunning) return false;
+    this.stopRequested = true;
+    return true;
+  }
+
+  /**
+   * Returns the current (or most recent) run, or null when none has run since startup.
+   */
+  getStatus(): (RecoveryRun & { running: boolean }) | null {
+    return this.currentRun ? { ...this.currentRun, running: this.isRunning } : null;
+  }
+
+  /**
+   * Walks media messages that have nothing stored, oldest first, and asks the phone to
+   * re-upload each one. Outcomes are recorded in media_recoveries, so an interrupted run
+   * resumes where it left off and settled messages (recovered, gone, too large) are not asked again.
+   */
+  async run(options: RecoveryOptions = {}): Promise<RecoveryRun> {
+    if (this.isRunning) {
+      throw new Error('A media recovery run is already in progress');
+    }
+
+    this.isRunning = true;
+    this.stopRequested = false;
+    const run: RecoveryRun = {
+      started_at: new Date(),
+      finished_at: null,
+      options,
+      processed: 0,
+      outcomes: { recovered: 0, gone: 0, too_large: 0, no_response: 0, failed: 0 },
+      error: null,
+    };
+    this.currentRun = run;
+
+    log.info({ ...options, delayMs: REQUEST_DELAY_MS }, 'Media recovery started');
+
+    try {
+      let lastId = 0;
+      let lastRequestAt = 0;
+
+      while (!this.stopRequested && (!options.limit || run.processed < options.limit)) {
+        const messages = await this.findCandidates(lastId, options.chatId);
+        if (messages.length === 0) break;
+        lastId = messages[messages.length - 1].id;
+
+        for (const message of messages) {
+          if (this.stopRequested || (options.limit && run.processed >= options.limit)) break;
+
+          const wait = lastRequestAt + REQUEST_DELAY_MS - Date.now();
+          if (wait > 0) {
+            await new Promise((resolve) => setTimeout(resolve, wait));
+          }
+
+          const { status, askedPhone } = await this.recover(message);
+          if (askedPhone) lastRequestAt = Date.now();
+
+          run.processed++;
+          run.outcomes[status]++;
+        }
+
+        log.info({ processed: run.processed, ...run.outcomes }, 'Media recovery progress');
+      }
+    } catch (err) {
+      run.error = err instanceof Error ? err.message : String(err);
+      throw err;
+    } finally {
+      run.finished_at = new Date();
+      this.isRunning = false;
+      log.info(
+        { processed: run.processed, ...run.outcomes, stopped: this.stopRequested },
+        'Media recovery finished'
+      );
+    }
+
+    return run;
+  }
+
+  /**
+   * Media messages of a saved type with no stored file, whose download is not still
+   * queued and that have not already reached a final recovery outcome.
+   */
+  private async findCandidates(afterId: number, chatId?: number): Promise<Message[]> {
+    const retryable = RETRYABLE_STATUSES.map((s) => sequelize.escape(s)).join(', ');
+
+    return Message.findAll({
+      where: {
+        id: { [Op.gt]: afterId },
+        has_media: true,
+        message_type: StorageService.getAllowedMediaTypes(),
+        ...(chatId ? { chat_id: chatId } : {}),
+        [Op.and]: [
+          sequelize.literal('NOT EXISTS (SELECT 1 FROM message_media mm WHERE mm.message_id = "Message"."id")'),
+          sequelize.literal(
+            `NOT EXISTS (SELECT 1 FROM media_jobs mj WHERE mj.message_id = "Message"."id" AND mj.status IN ('pending', 'processing'))`
+          ),
+          sequelize.literal(
+            `NOT EXISTS (SELECT 1 FROM media_recoveries mr WHERE mr.message_id = "Message"."id" AND (mr.status NOT IN (${retryable}) OR mr.attempts >= ${MAX_ATTEMPTS}))`
+          ),
+        ],
+      },
+      order: [['id', 'ASC']],
+      limit: BATCH_SIZE,
+    });
+  }
+
+  /**
+   * Recovers one message's media and records the outcome. askedPhone tells the caller
+   * whether a re-upload request was sent, for throttling.
+   */
+  private async recover(message: Message): Promise<{ status: MediaRecoveryStatus; askedPhone: boolean }> {
+    const raw = message.raw_data ? reviveBytes(message.raw_data as unknown as WAMessage) : null;
+    const info = StorageService.getMediaInfo(raw?.message);
+
+    if (!raw?.key || !info) {
+      return { status: await this.record(message, 'failed', 'Message has no raw data to recover from'), askedPhone: false };
+    }
+
+    const maxSize = StorageService.getMaxMediaSize();
+    if (info.fileLength !== null && info.fileLength > maxSize) {
+      const reason = `Media size ${info.fileLength} bytes exceeds max allowed ${maxSize} bytes`;
+      return { status: await this.record(message, 'too_large', reason), askedPhone: false };
+    }
+
+    // Already stored for another message: the queue links it without asking the phone
+    const existing = info.fileSha256 ? await MediaBlob.findOne({ where: { sha256: info.fileSha256 } }) : null;
+    if (existing) {
+      return { status: await this.store(message), askedPhone: false };
+    }
+
+    try {
+      const sock = whatsappService.getSocket(message.account_id);
+      const refreshed = await StorageService.requestMediaReupload(raw, sock);
+
+      // Keep the fresh CDN path so the download (and any later retry) uses it
+      await message.update({ raw_data: refreshed as unknown as Record<string, unknown> });
+    } catch (err) {
+      const statusCode = (err as Boom).output?.statusCode;
+      const reason = err instanceof Error ? err.message : String(err);
+
+      // 404 is the phone saying it no longer has the file; 408 is our own timeout
+      if (statusCode === 404) {
+        return { status: await this.record(message, 'gone', reason), askedPhone: true };
+      }
+      if (statusCode === 408) {
+        return { status: await this.record(message, 'no_response', reason), askedPhone: true };
+      }
+      return { status: await this.record(message, 'failed', reason), askedPhone: true };
+    }
+
+    return { status: await this.store(message), askedPhone: true };
+  }
+
+  /**
+   * Downloads and stores the media through the media queue, then records whether it worked.
+   */
+  private async store(message: Message): Promise<MediaRecoveryStatus> {
+    const job = await mediaQueue.runNow(message);
+
+    if (job.status === 'completed') {
+      return this.record(message, 'recovered', null);
+    }
+    return this.record(message, 'failed', job.last_error || `Media job is ${job.status}`);
+  }
+
+  private async record(message: Message, status: MediaRecoveryStatus, reason: string | null): Promise<MediaRecoveryStatus> {
+    const [recovery] = await MediaRecovery.findOrCreate({
+      where: { message_id: message.id },
+      defaults: { message_id: message.id, status },
+    });
+
+    await recovery.update({
+      status,
+      attempts: recovery.attempts + 1,
+      last_error: reason,
+      last_attempt_at: new Date(),
+      recovered_at: status === 'recovered' ? new Date() : null,
+    });
+
+    log.debug({ messageId: message.message_id, status, reason }, 'Media recovery attempt recorded');
+    return status;
+  }
+}
+
+export { MediaRecoveryService, type RecoveryOptions };
+export default MediaRecoveryService.getInstance();
@@ -0,0 +1,114 @@
+import { Chat } from '../models/index.js';
+import whatsappService from './whatsapp.service.js';
+import { requireAccountId } from '../utils/account-context.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const log = createChildLogger('newsletter-service');
+
+// Used when WhatsApp does not say how long live updates last
+const DEFAULT_RENEW_MS = 60 * 60 * 1000;
+
+// Renew a little before the subscription runs out
+const RENEW_MARGIN_MS = 30 * 1000;
+
+class NewsletterService {
+  private static instance: NewsletterService | null = null;
+
+  // One renewal per account, each with the subscriptions of its own connection
+  private renewTimers = new Map<number, ReturnType<typeof setTimeout>>();
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  static getInstance(): NewsletterService {
+    if (!NewsletterService.instance) {
+      NewsletterService.instance = new NewsletterService();
+    }
+    return NewsletterService.instance;
+  }
+
+  /**
+   * Subscribes the account in context to live reaction and view updates for each of its channels
+   * and refreshes their metadata. Live updates expire after the duration WhatsApp grants, so this
+   * re-runs itself shortly before then; it also runs each time the connection opens.
+   */
+  async subscribeAll(): Promise<void> {
+    const accountId = requireAccountId();
+    this.clearRenewal(accountId);
+
+    const sock = whatsappService.getSocket();
+    const chats = await Chat.findAll({ where: { chat_type: 'newsletter' } });
+
+    let renewMs = DEFAULT_RENEW_MS;
+    for (const chat of chats) {
+      try {
+        const result = await sock.subscribeNewsletterUpdates(chat.chat_id);
+        const durationSeconds = result ? parseInt(result.duration, 10) : NaN;
+        if (durationSeconds > 0) {
+          renewMs = Math.min(renewMs, durationSeconds * 1000);
+        }
+      } catch (err) {
+        log.warn({ err, chatJid: chat.chat_id }, 'Failed to subscribe to newsletter updates');
+      }
+
+      await this.refreshMetadata(chat);
+    }
+
+    if (chats.length > 0) {
+      // The timer keeps the account context it was set in
+      this.renewTimers.set(accountId, setTimeout(() => {
+        this.renewTimers.delete(accountId);
+        this.subscribeAll().catch((err) => log.error({ err }, 'Failed to renew newsletter subscriptions'));
+      }, Math.max(RENEW_MARGIN_MS, renewMs - RENEW_MARGIN_MS)));
+    }
+
+    log.info({ accountId, channels: chats.length, renewInMs: renewMs }, 'Subscribed to newsletter updates');
+  }
+
+  /**
+   * Fetches a channel's name, description, subscriber count and verification state.
+   * Name and description go on the chat; the rest is kept in its metadata.
+   */
+  async refreshMetadata(chat: Chat): Promise<void> {
+    try {
+      const meta = await whatsappService.getSocket().newsletterMetadata('jid', chat.chat_id);
+      if (!meta) return;
+
+      const name = meta.thread_metadata?.name || meta.name;
+      const description = meta.thread_metadata?.description ?? meta.description;
+
+      await chat.update({
+        name: typeof name === 'string' && name ? name : chat.name,
+        description: typeof description === 'string' ? description || null : chat.description,
+        metadata: {
+          ...(chat.metadata || {}),
+          newsletter: {
+            subscribers: meta.subscribers ?? null,
+            verification: meta.verification ?? null,
+            invite: meta.invite ?? null,
+            creation_time: meta.creation_time ?? meta.thread_metadata?.creation_time ?? null,
+          },
+        },
+      });
+    } catch (err) {
+      log.warn({ err, chatJid: chat.chat_id }, 'Failed to fetch newsletter metadata');
+    }
+  }
+
+  stop(): void {
+    for (const accountId of [...this.renewTimers.keys()]) {
+      this.clearRenewal(accountId);
+    }
+  }
+
+  private clearRenewal(accountId: number): void {
+    const timer = this.renewTimers.get(accountId);
+    if (!timer) return;
+    clearTimeout(timer);
+    this.renewTimers.delete(accountId);
+  }
+}
+
+export { NewsletterService };
+export default NewsletterService.getInstance();
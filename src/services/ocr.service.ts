@@ -0,0 +1,96 @@
+import { Op } from 'sequelize';
+import { MessageMedia } from '../models/index.js';
+import { getOcrEngine } from '../ocr/index.js';
+import { getStorageDriver } from '../storage/index.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const log = createChildLogger('ocr');
+
+// Stickers are images too, but never worth reading
+const OCR_MESSAGE_TYPES = ['image', 'document'];
+
+/**
+ * Whether a PDF has a text layer of its own. Scans are pages of images with no fonts.
+ * Fonts referenced only inside compressed object streams are missed, so some text PDFs
+ * are OCRed needlessly; that costs time but not correctness.
+ */
+function pdfHasText(buffer: Buffer): boolean {
+  return /\/Font\b/.test(buffer.toString('latin1'));
+}
+
+class OcrService {
+  static isEligible(messageType: string, mimetype: string | null): boolean {
+    if (!OCR_MESSAGE_TYPES.includes(messageType) || !mimetype) return false;
+    return mimetype.startsWith('image/') || mimetype === 'application/pdf';
+  }
+
+  /**
+   * Extracts the text from a stored image or scanned PDF into message_media.ocr_text,
+   * reading the file back from storage when no buffer is given. PDFs with a text layer are
+   * marked skipped. A failure is saved, then rethrown. The result for a deduplicated file is
+   * copied from another row unless reuseDuplicates is false.
+   */
+  static async extract(
+    media: MessageMedia,
+    buffer?: Buffer,
+    { reuseDuplicates = true }: { reuseDuplicates?: boolean } = {}
+  ): Promise<void> {
+    if (media.blob_id && reuseDuplicates) {
+      const sibling = await MessageMedia.findOne({
+        where: { blob_id: media.blob_id, ocr_status: { [Op.in]: ['completed', 'skipped'] }, id: { [Op.ne]: media.id } },
+      });
+      if (sibling) {
+        await media.update({
+          ocr_status: sibling.ocr_status,
+          ocr_engine: sibling.ocr_engine,
+          ocr_text: sibling.ocr_text,
+          ocr_error: sibling.ocr_error,
+          ocr_at: new Date(),
+        });
+        log.debug({ mediaId: media.id, siblingId: sibling.id }, 'OCR result copied from duplicate');
+        return;
+      }
+    }
+
+    const engine = getOcrEngine();
+    const mimetype = media.mimetype || '';
+
+    try {
+      const file = buffer ?? (await getStorageDriver(media.storage_provider).get(media.storage_key));
+
+      if (mimetype === 'application/pdf' && pdfHasText(file)) {
+        await media.update({
+          ocr_status: 'skipped',
+          ocr_engine: engine.name,
+          ocr_text: null,
+          ocr_error: 'PDF has a text layer',
+          ocr_at: new Date(),
+        });
+        return;
+      }
+
+      const text = await engine.recognize(file, mimetype);
+      await media.update({
+        ocr_status: 'completed',
+        ocr_engine: engine.name,
+        ocr_text: text || null,
+        ocr_error: null,
+        ocr_at: new Date(),
+      });
+
+      log.info({ mediaId: media.id, engine: engine.name, length: text.length }, 'OCR text extracted');
+    } catch (err) {
+      await media.update({
+        ocr_status: 'failed',
+        ocr_engine: engine.name,
+        ocr_text: null,
+        ocr_error: err instanceof Error ? err.message : String(err),
+        ocr_at: new Date(),
+      });
+      throw err;
+    }
+  }
+}
+
+export { OcrService };
+export default OcrService;
@@ -0,0 +1,252 @@
+import { Op } from 'sequelize';
+import { jidNormalizedUser, type PresenceData } from '@whiskeysockets/baileys';
+import { PresenceEvent } from '../models/index.js';
+import type { PresenceState } from '../models/PresenceEvent.js';
+import whatsappService from './whatsapp.service.js';
+import {
+  PRESENCE_CHATS,
+  PRESENCE_MAX_SESSION_MINUTES,
+  PRESENCE_RETENTION_DAYS,
+  PRESENCE_TRACKING_ENABLED,
+} from '../config/presence.js';
+import { requireAccountId } from '../utils/account-context.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const log = createChildLogger('presence-tracker');
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Every UTC offset in use is a multiple of 15 minutes, so 15-minute slices never straddle a local hour
+const SLICE_MS = 15 * 60 * 1000;
+
+const TYPING_STATES: PresenceState[] = ['composing', 'recording'];
+
+interface HeatmapOptions {
+  /** How many days back to look (capped at the retention period) */
+  days?: number;
+  /** IANA time zone the hours are reported in */
+  timeZone?: string;
+  /** Other JIDs the same person is known by (their LID or phone number) */
+  aliases?: string[];
+}
+
+interface PresenceHeatmap {
+  jid: string;
+  time_zone: string;
+  from: Date;
+  to: Date;
+  /** Minutes online per [weekday][hour], weekday 0 = Sunday */
+  online_minutes: number[][];
+  /** Times typing or recording started per [weekday][hour] */
+  typing: number[][];
+  total_online_minutes: number;
+}
+
+function emptyGrid(): number[][] {
+  return Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Returns a function mapping an instant to its [weekday, hour] in a time zone.
+ */
+function localSlot(timeZone: string): (date: Date) => [number, number] {
+  const format = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short', hour: 'numeric', hourCycle: 'h23' });
+  return (date) => {
+    const parts = format.formatToParts(date);
+    const weekday = WEEKDAYS.indexOf(parts.find((p) => p.type === 'weekday')?.value || 'Sun');
+    const hour = parseInt(parts.find((p) => p.type === 'hour')?.value || '0', 10) % 24;
+    return [weekday, hour];
+  };
+}
+
+/**
+ * Whether a string is a time zone Intl understands.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+class PresenceTrackerService {
+  private static instance: PresenceTrackerService | null = null;
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private tracked = new Set(PRESENCE_CHATS.map((jid) => jidNormalizedUser(jid)));
+  // Last presence recorded per account, chat and participant, so repeats are not stored
+  private lastKnown = new Map<string, PresenceState>();
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  static getInstance(): PresenceTrackerService {
+    if (!PresenceTrackerService.instance) {
+      PresenceTrackerService.instance = new PresenceTrackerService();
+    }
+    return PresenceTrackerService.instance;
+  }
+
+  /**
+   * Starts pruning presence older than the retention period. Does nothing unless tracking is enabled.
+   */
+  start(): void {
+    if (!PRESENCE_TRACKING_ENABLED || this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.prune();
+    }, PRUNE_INTERVAL_MS);
+    void this.prune();
+
+    log.info({ chats: this.tracked.size, retentionDays: PRESENCE_RETENTION_DAYS }, 'Presence tracker started');
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+    log.info('Presence tracker stopped');
+  }
+
+  isTracked(chatJid: string): boolean {
+    return PRESENCE_TRACKING_ENABLED && this.tracked.has(jidNormalizedUser(chatJid));
+  }
+
+  /**
+   * Subscribes the account in context to presence for every tracked chat. Subscriptions do not
+   * survive a reconnect, so this runs each time the connection opens.
+   */
+  async subscribeAll(): Promise<void> {
+    if (!PRESENCE_TRACKING_ENABLED) return;
+
+    const sock = whatsappService.getSocket();
+    // Whatever we knew before the connection dropped is stale now
+    const prefix = `${requireAccountId()}|`;
+    for (const key of this.lastKnown.keys()) {
+      if (key.startsWith(prefix)) this.lastKnown.delete(key);
+    }
+
+    for (const jid of this.tracked) {
+      try {
+        await sock.presenceSubscribe(jid);
+      } catch (err) {
+        log.warn({ err, jid }, 'Failed to subscribe to presence');
+      }
+    }
+
+    log.info({ chats: this.tracked.size }, 'Subscribed to presence');
+  }
+
+  /**
+   * Stores the presence of each participant in a tracked chat, skipping repeats of the
+   * presence already recorded. Going offline is dated by the reported last-seen time when there is one.
+   */
+  async record(chatJid: string, presences: Record<string, PresenceData>): Promise<number> {
+    const now = new Date();
+    const accountId = requireAccountId();
+    const rows: { jid: string; chat_jid: string; presence: PresenceState; observed_at: Date }[] = [];
+
+    for (const [participant, data] of Object.entries(presences)) {
+      const jid = jidNormalizedUser(participant);
+      const key = `${accountId}|${chatJid}|${jid}`;
+      if (this.lastKnown.get(key) === data.lastKnownPresence) continue;
+      this.lastKnown.set(key, data.lastKnownPresence);
+
+      const lastSeen = data.lastSeen ? new Date(data.lastSeen * 1000) : null;
+      rows.push({
+        jid,
+        chat_jid: chatJid,
+        presence: data.lastKnownPresence,
+        observed_at: data.lastKnownPresence === 'unavailable' && lastSeen && lastSeen < now ? lastSeen : now,
+      });
+    }
+
+    if (rows.length > 0) {
+      await PresenceEvent.bulkCreate(rows);
+    }
+    return rows.length;
+  }
+
+  /**
+   * Deletes presence transitions older than the retention period.
+   */
+  async prune(): Promise<number> {
+    try {
+      const cutoff = new Date(Date.now() - PRESENCE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      const deleted = await PresenceEvent.destroy({ where: { observed_at: { [Op.lt]: cutoff } } });
+      if (deleted > 0) {
+        log.info({ deleted, cutoff }, 'Pruned old presence events');
+      }
+      return deleted;
+    } catch (err) {
+      log.error({ err }, 'Failed to prune presence events');
+      return 0;
+    }
+  }
+
+  /**
+   * Builds an hour-of-week heatmap of when a contact was online and typing. Online time runs
+   * from any non-'unavailable' presence to the next transition, capped at PRESENCE_MAX_SESSION_MINUTES
+   * when the closing transition was never seen.
+   */
+  async getHeatmap(
+    jid: string,
+    { days = PRESENCE_RETENTION_DAYS, timeZone = 'UTC', aliases = [] }: HeatmapOptions = {}
+  ): Promise<PresenceHeatmap> {
+    const to = new Date();
+    const from = new Date(to.getTime() - Math.min(days, PRESENCE_RETENTION_DAYS) * 24 * 60 * 60 * 1000);
+    const maxSessionMs = PRESENCE_MAX_SESSION_MINUTES * 60 * 1000;
+
+    const events = await PresenceEvent.findAll({
+      where: { jid: [jid, ...aliases], observed_at: { [Op.gte]: from } },
+      attributes: ['presence', 'observed_at'],
+      order: [['observed_at', 'ASC'], ['id', 'ASC']],
+    });
+
+    const slot = localSlot(timeZone);
+    const online = emptyGrid();
+    const typing = emptyGrid();
+    let totalMs = 0;
+
+    events.forEach((event, index) => {
+      const start = event.observed_at.getTime();
+
+      if (TYPING_STATES.includes(event.presence)) {
+        const [weekday, hour] = slot(event.observed_at);
+        typing[weekday][hour]++;
+      }
+
+      if (event.presence === 'unavailable') return;
+
+      const next = events[index + 1];
+      const end = Math.min(next ? next.observed_at.getTime() : to.getTime(), start + maxSessionMs);
+
+      // Split the stretch at quarter-hour boundaries so each piece lands in one local hour
+      for (let t = start; t < end; ) {
+        const sliceEnd = Math.min(end, (Math.floor(t / SLICE_MS) + 1) * SLICE_MS);
+        const [weekday, hour] = slot(new Date(t));
+        online[weekday][hour] += (sliceEnd - t) / 60000;
+        totalMs += sliceEnd - t;
+        t = sliceEnd;
+      }
+    });
+
+    return {
+      jid,
+      time_zone: timeZone,
+      from,
+      to,
+      online_minutes: online.map((row) => row.map((minutes) => Math.round(minutes))),
+      typing,
+      total_online_minutes: Math.round(totalMs / 60000),
+    };
+  }
+}
+
+export { PresenceTrackerService, type PresenceHeatmap };
+export default PresenceTrackerService.getInstance();
@@ -0,0 +1,157 @@
+import { createHash } from 'crypto';
+import type { Transaction } from 'sequelize';
+import { Chat, Contact, MediaBlob, ProfilePicture, sequelize } from '../models/index.js';
+import whatsappService from './whatsapp.service.js';
+import StorageService from './storage.service.js';
+import identityService from './identity.service.js';
+import { errorCode, NOT_AUTHORIZED, NOT_FOUND } from '../utils/wa-errors.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const log = createChildLogger('profile-pictures');
+
+const DOWNLOAD_TIMEOUT_MS = 30000;
+
+/**
+ * stored: a new picture was saved; unchanged: same picture as last time; removed: the owner
+ * has no picture; hidden: privacy settings keep it from us, the last known one is kept.
+ */
+type PictureSyncResult = 'stored' | 'unchanged' | 'removed' | 'hidden';
+
+type PictureOwner = { contact: Contact } | { chat: Chat };
+
+interface AvatarFields {
+  avatar_url?: string | null;
+  avatar_refreshed_at: Date;
+}
+
+class ProfilePictureService {
+  private static instance: ProfilePictureService | null = null;
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  static getInstance(): ProfilePictureService {
+    if (!ProfilePictureService.instance) {
+      ProfilePictureService.instance = new ProfilePictureService();
+    }
+    return ProfilePictureService.instance;
+  }
+
+  /**
+   * Brings a contact's stored picture up to date. Without `url` the current one is asked for
+   * from WhatsApp; null means the contact removed theirs.
+   */
+  async syncContact(contact: Contact, url?: string | null): Promise<PictureSyncResult> {
+    return this.sync({ contact }, contact.contact_id, url);
+  }
+
+  /**
+   * Brings a group's stored picture up to date, like syncContact.
+   */
+  async syncChat(chat: Chat, url?: string | null): Promise<PictureSyncResult> {
+    return this.sync({ chat }, chat.chat_id, url);
+  }
+
+  /**
+   * Every picture a contact or group has had, newest first, each with the URL it is served at.
+   */
+  async getHistory(owner: { contact_id: number } | { chat_id: number }): Promise<Record<string, unknown>[]> {
+    const pictures = await ProfilePicture.findAll({
+      where: owner,
+      include: [{ model: MediaBlob, as: 'blob', attributes: ['mimetype', 'size_bytes'] }],
+      order: [['first_seen_at', 'DESC'], ['id', 'DESC']],
+    });
+    return pictures.map((picture) => ({
+      ...picture.toJSON(),
+      url: StorageService.getProfilePicturePath(picture.id),
+    }));
+  }
+
+  private async sync(owner: PictureOwner, jid: string, url?: string | null): Promise<PictureSyncResult> {
+    const ownerWhere = 'contact' in owner ? { contact_id: owner.contact.id } : { chat_id: owner.chat.id };
+    const now = new Date();
+    const setAvatar = async (fields: AvatarFields, transaction?: Transaction) => {
+      if ('chat' in owner) {
+        await owner.chat.update(fields, { transaction });
+        return;
+      }
+      await owner.contact.update(fields, { transaction });
+      // Direct chats show the contact's picture
+      if (fields.avatar_url !== undefined) {
+        await Chat.update(
+          { avatar_url: fields.avatar_url },
+          { where: { chat_id: await identityService.getJids(owner.contact), chat_type: 'private' }, transaction }
+        );
+      }
+    };
+
+    if (url === undefined) {
+      try {
+        url = (await whatsappService.getSocket().profilePictureUrl(jid, 'image')) || null;
+      } catch (err) {
+        const code = errorCode(err);
+        if (code === NOT_AUTHORIZED) {
+          await setAvatar({ avatar_refreshed_at: now });
+          return 'hidden';
+        }
+        if (code !== NOT_FOUND) throw err;
+        url = null;
+      }
+    }
+
+    const current = await ProfilePicture.findOne({
+      where: { ...ownerWhere, is_current: true },
+      include: [{ model: MediaBlob, as: 'blob', attributes: ['id', 'sha256'] }],
+    });
+
+    if (url === null) {
+      const transaction = await sequelize.transaction();
+      try {
+        if (current) await current.update({ is_current: false, replaced_at: now }, { transaction });
+        await setAvatar({ avatar_url: null, avatar_refreshed_at: now }, transaction);
+        await transaction.commit();
+      } catch (err) {
+        await transaction.rollback();
+        throw err;
+      }
+      if (current) log.info({ jid }, 'Profile picture removed');
+      return 'removed';
+    }
+
+    const response = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`Profile picture download failed with HTTP ${response.status}`);
+    }
+    const buffer = Buffer.from(await response.arrayBuffer());
+    const sha256 = createHash('sha256').update(buffer).digest('hex');
+    const mimetype = response.headers.get('content-type')?.split(';')[0] || 'image/jpeg';
+
+    if (current?.blob?.sha256 === sha256) {
+      await setAvatar({ avatar_url: StorageService.getProfilePicturePath(current.id), avatar_refreshed_at: now });
+      return 'unchanged';
+    }
+
+    const blob = await StorageService.storeBlob(buffer, sha256, mimetype);
+
+    const transaction = await sequelize.transaction();
+    try {
+      if (current) await current.update({ is_current: false, replaced_at: now }, { transaction });
+      const picture = await ProfilePicture.create(
+        { ...ownerWhere, jid, blob_id: blob.id, is_current: true, first_seen_at: now },
+        { transaction }
+      );
+      await setAvatar({ avatar_url: StorageService.getProfilePicturePath(picture.id), avatar_refreshed_at: now }, transaction);
+      await transaction.commit();
+    } catch (err) {
+      await transaction.rollback();
+      throw err;
+    }
+
+    log.info({ jid, sha256, replaced: !!current }, 'Profile picture stored');
+    return 'stored';
+  }
+}
+
+export { ProfilePictureService, type PictureSyncResult };
+export default ProfilePictureService.getInstance();
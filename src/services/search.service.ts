@@ -1,5 +1,28 @@
 import { QueryTypes } from 'sequelize';
 import { sequelize } from '../models/index.js';
+import { currentAccountId } from '../utils/account-context.js';
+
+// All OCR text of a message's media, as one document; joined only to shape the results
+const OCR_JOIN = `
+  LEFT JOIN LATERAL (
+    SELECT string_agg(mm.ocr_text, E'\n\n' ORDER BY mm.id) AS text
+    FROM message_media mm
+    WHERE mm.message_id = m.id AND mm.ocr_status = 'completed'
+  ) o ON TRUE
+`;
+
+// Ids of messages whose body, voice note transcript or media OCR text matches, each found
+// through its own full-text index; an OR across outer joins would scan every message instead
+const MATCHING_MESSAGE_IDS = `
+  SELECT id FROM messages
+  WHERE to_tsvector('english', COALESCE(body, '')) @@ to_tsquery('english', :query)
+  UNION
+  SELECT message_id FROM message_transcripts
+  WHERE status = 'completed' AND to_tsvector('english', COALESCE(text, '')) @@ to_tsquery('english', :query)
+  UNION
+  SELECT message_id FROM message_media
+  WHERE ocr_status = 'completed' AND to_tsvector('english', COALESCE(ocr_text, '')) @@ to_tsquery('english', :query)
+`;
 
 interface SearchOptions {
   chatId?: number;
@@ -27,13 +50,22 @@ class SearchService {
       .join(' & ');
 
     try {
+      // Voice notes have no body; they match on their transcript instead.
+      // Images and scans also match on the text OCR found in them
       let whereClause = `
-        WHERE to_tsvector('english', COALESCE(m.body, '')) @@ to_tsquery('english', :query)
+        WHERE m.id IN (${MATCHING_MESSAGE_IDS})
           AND m.is_deleted = FALSE
       `;
 
       const replacements: Record<string, unknown> = { query: tsQuery };
 
+      // Raw SQL bypasses the model scoping, so confine it to the account here
+      const accountId = currentAccountId();
+      if (accountId !== null) {
+        whereClause += ' AND m.account_id = :accountId';
+        replacements.accountId = accountId;
+      }
+
       if (chatId) {
         whereClause += ' AND m.chat_id = :chatId';
         replacements.chatId = chatId;
@@ -56,9 +88,18 @@ class SearchService {
 
       const resultsQuery = `
         SELECT m.*, c.name as chat_name, c.chat_type,
-          ts_rank(to_tsvector('english', COALESCE(m.body, '')), to_tsquery('english', :query)) as rank
+          t.text as transcript, t.language as transcript_language,
+          o.text as ocr_text,
+          to_tsvector('english', COALESCE(o.text, '')) @@ to_tsquery('english', :query) as found_in_image,
+          GREATEST(
+            ts_rank(to_tsvector('english', COALESCE(m.body, '')), to_tsquery('english', :query)),
+            ts_rank(to_tsvector('english', COALESCE(t.text, '')), to_tsquery('english', :query)),
+            ts_rank(to_tsvector('english', COALESCE(o.text, '')), to_tsquery('english', :query))
+          ) as rank
         FROM messages m
         JOIN chats c ON m.chat_id = c.id
+        LEFT JOIN message_transcripts t ON t.message_id = m.id AND t.status = 'completed'
+        ${OCR_JOIN}
         ${whereClause}
         ORDER BY rank DESC, m.timestamp DESC
         LIMIT :limit OFFSET :offset
@@ -1,8 +1,11 @@
-import { PutObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3';
-import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
-import { downloadMediaMessage } from '@whiskeysockets/baileys';
-import type { WASocket, WAMessage } from '@whiskeysockets/baileys';
-import s3Client, { S3_BUCKET } from '../config/s3.js';
+import { createHash } from 'crypto';
+import { downloadMediaMessage, toNumber } from '@whiskeysockets/baileys';
+import type { WASocket, WAMessage, proto } from '@whiskeysockets/baileys';
+import { Boom } from '@hapi/boom';
+import { MediaBlob } from '../models/index.js';
+import { getDefaultStorageDriver, getStorageDriver } from '../storage/index.js';
+import { bytesFromJson } from '../utils/bytes.js';
+import { normalizeContent } from '../utils/message-content.js';
 import { createChildLogger } from '../utils/logger.js';
 
 const logger = createChildLogger('StorageService');
@@ -27,6 +30,9 @@ const MIMETYPE_EXTENSIONS: Record<string, string> = {
   'text/plain': 'txt',
 };
 
+// The phone may be offline; Baileys would otherwise wait for its answer forever
+const REUPLOAD_TIMEOUT_MS = parseInt(process.env.MEDIA_REUPLOAD_TIMEOUT_MS || '30000', 10);
+
 const MEDIA_MESSAGE_KEYS = [
   'imageMessage',
   'videoMessage',
@@ -44,24 +50,55 @@ const MEDIA_KEY_TO_TYPE: Record<MediaMessageKey, string> = {
   audioMessage: 'audio',
   documentMessage: 'document',
   stickerMessage: 'sticker',
-  ptvMessage: 'video',
+  ptvMessage: 'ptv',
+};
+
+// Voice notes and video notes are saved when their parent type is
+const MEDIA_SUBTYPES: Record<string, string> = {
+  ptt: 'audio',
+  ptv: 'video',
 };
 
+interface MediaInfo {
+  mediaKey: MediaMessageKey;
+  mediaType: string;
+  mimetype: string;
+  filename: string | null;
+  fileLength: number | null;
+  // Hex SHA-256 of the decrypted file, as announced by the sender
+  fileSha256: string | null;
+  // Details the sender's client already worked out
+  width: number | null;
+  height: number | null;
+  seconds: number | null;
+  pageCount: number | null;
+  jpegThumbnail: Buffer | null;
+}
+
 interface UploadResult {
+  storageProvider: string;
   storageKey: string;
-  storageUrl: string;
+  storageUrl: string | null;
   sizeBytes: number;
 }
 
-interface DownloadAndUploadResult extends UploadResult {
+interface DownloadResult {
+  buffer: Buffer;
+  sha256: string;
+  mediaType: string;
   mimetype: string;
   filename: string | null;
 }
 
 class StorageService {
+  /**
+   * Message types whose media is saved (SAVE_MEDIA_TYPES). Listing audio includes voice
+   * notes (ptt) and listing video includes video notes (ptv); either can also be listed alone.
+   */
   static getAllowedMediaTypes(): string[] {
-    const types = process.env.SAVE_MEDIA_TYPES || 'image,video,document';
-    return types.split(',').map((t) => t.trim().toLowerCase());
+    const types = (process.env.SAVE_MEDIA_TYPES || 'image,video,document').split(',').map((t) => t.trim().toLowerCase());
+    const subtypes = Object.keys(MEDIA_SUBTYPES).filter((subtype) => types.includes(MEDIA_SUBTYPES[subtype]));
+    return [...new Set([...types, ...subtypes])];
   }
 
   static getMaxMediaSize(): number {
@@ -74,12 +111,11 @@ class StorageService {
     return allowed.includes(messageType.toLowerCase());
   }
 
-  static generateS3Key(chatId: string, messageId: string, ext: string): string {
-    const now = new Date();
-    const year = now.getFullYear();
-    const month = String(now.getMonth() + 1).padStart(2, '0');
-    const sanitizedChatId = chatId.replace(/[@.]/g, '_');
-    return `${year}/${month}/${sanitizedChatId}/${messageId}.${ext}`;
+  /**
+   * Media is stored content-addressed, so every copy of the same file shares one object.
+   */
+  static generateBlobKey(sha256: string, ext: string): string {
+    return `blobs/${sha256.slice(0, 2)}/${sha256.slice(2, 4)}/${sha256}.${ext}`;
   }
 
   static getExtensionFromMimetype(mimetype: string): string {
@@ -89,8 +125,7 @@ class StorageService {
   static async uploadMedia(
     buffer: Buffer,
     mimetype: string,
-    chatId: string,
-    messageId: string,
+    sha256: string,
   ): Promise<UploadResult> {
     const maxSize = StorageService.getMaxMediaSize();
     if (buffer.length > maxSize) {
@@ -100,136 +135,216 @@ class StorageService {
     }
 
     const ext = StorageService.getExtensionFromMimetype(mimetype);
-    const storageKey = StorageService.generateS3Key(chatId, messageId, ext);
-    const region = process.env.AWS_REGION || 'us-east-1';
-
-    const command = new PutObjectCommand({
-      Bucket: S3_BUCKET,
-      Key: storageKey,
-      Body: buffer,
-      ContentType: mimetype,
-    });
+    const storageKey = StorageService.generateBlobKey(sha256, ext);
+    const driver = getDefaultStorageDriver();
 
-    await s3Client.send(command);
+    await driver.put(storageKey, buffer, mimetype);
 
-    const storageUrl = `https://${S3_BUCKET}.s3.${region}.amazonaws.com/${storageKey}`;
-
-    logger.info({ storageKey, sizeBytes: buffer.length }, 'Media uploaded to S3');
+    logger.info(
+      { storageProvider: driver.provider, storageKey, sizeBytes: buffer.length },
+      'Media uploaded',
+    );
 
     return {
+      storageProvider: driver.provider,
       storageKey,
-      storageUrl,
+      storageUrl: driver.getPublicUrl(storageKey),
       sizeBytes: buffer.length,
     };
   }
 
-  static async getPresignedUrl(storageKey: string, expiresIn = 604800): Promise<string> {
-    const command = new GetObjectCommand({
-      Bucket: S3_BUCKET,
-      Key: storageKey,
+  /**
+   * Returns the blob for a file, uploading it first unless an identical file is already stored.
+   * A concurrent upload of the same file writes the same key, so losing the race is harmless.
+   */
+  static async storeBlob(buffer: Buffer, sha256: string, mimetype: string): Promise<MediaBlob> {
+    const existing = await MediaBlob.findOne({ where: { sha256 } });
+    if (existing) return existing;
+
+    const upload = await StorageService.uploadMedia(buffer, mimetype, sha256);
+    const [blob] = await MediaBlob.findOrCreate({
+      where: { sha256 },
+      defaults: {
+        sha256,
+        storage_provider: upload.storageProvider,
+        storage_key: upload.storageKey,
+        storage_url: upload.storageUrl,
+        mimetype,
+        size_bytes: upload.sizeBytes,
+      },
     });
+    return blob;
+  }
 
-    return getSignedUrl(s3Client, command, { expiresIn });
+  /**
+   * Returns a short-lived URL for a stored object, or null when its provider
+   * cannot sign URLs and reads must go through the API.
+   */
+  static async getPresignedUrl(
+    storageProvider: string,
+    storageKey: string,
+    expiresIn = 604800,
+  ): Promise<string | null> {
+    return getStorageDriver(storageProvider).getSignedUrl(storageKey, expiresIn);
   }
 
-  static async downloadAndUploadMedia(
-    msg: WAMessage,
-    sock: WASocket,
-  ): Promise<DownloadAndUploadResult | null> {
-    try {
-      if (!msg.message) {
-        logger.warn({ messageId: msg.key.id }, 'No message content found');
-        return null;
-      }
+  /**
+   * API path that serves a message_media row, whichever backend holds it.
+   * Stored in messages.media_url so the link survives moving media between backends.
+   */
+  static getContentPath(mediaId: number): string {
+    return `/api/media/${mediaId}/content`;
+  }
 
-      // Determine media type from message keys
-      let mediaKey: MediaMessageKey | null = null;
-      for (const key of MEDIA_MESSAGE_KEYS) {
-        if (msg.message[key]) {
-          mediaKey = key;
-          break;
-        }
-      }
+  /**
+   * API path that serves a message_media row's thumbnail.
+   */
+  static getThumbnailPath(mediaId: number): string {
+    return `/api/media/${mediaId}/thumbnail`;
+  }
 
-      if (!mediaKey) {
-        logger.debug({ messageId: msg.key.id }, 'No media content in message');
-        return null;
-      }
+  /**
+   * API path that serves a stored profile or group picture. Stored in contacts.avatar_url and
+   * chats.avatar_url in place of WhatsApp's own picture URLs, which expire within days.
+   */
+  static getProfilePicturePath(pictureId: number): string {
+    return `/api/media/profile-pictures/${pictureId}/content`;
+  }
 
-      const mediaType = MEDIA_KEY_TO_TYPE[mediaKey];
+  /**
+   * Thumbnails sit next to the original, so deduplicated copies share one thumbnail too.
+   */
+  static getThumbnailKey(storageKey: string): string {
+    return `${storageKey.replace(/\.[^./]+$/, '')}.thumb.jpg`;
+  }
 
-      if (!StorageService.isMediaAllowed(mediaType)) {
-        logger.debug(
-          { messageId: msg.key.id, mediaType },
-          'Media type not in allowed list, skipping',
-        );
-        return null;
-      }
+  /**
+   * Finds the downloadable media in a message, unwrapping ephemeral, view-once,
+   * document-with-caption and other envelopes.
+   */
+  static getMediaInfo(message: proto.IMessage | null | undefined): MediaInfo | null {
+    const content = normalizeContent(message);
+    if (!content) return null;
 
+    for (const mediaKey of MEDIA_MESSAGE_KEYS) {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const mediaMessage = msg.message[mediaKey] as Record<string, any>;
-      const mimetype: string = mediaMessage.mimetype || 'application/octet-stream';
-      const filename: string | null = mediaMessage.fileName || null;
-
-      // Check file size if available before downloading
-      const fileLength = mediaMessage.fileLength
-        ? typeof mediaMessage.fileLength === 'object'
-          ? Number(mediaMessage.fileLength)
-          : Number(mediaMessage.fileLength)
-        : null;
-
-      if (fileLength !== null && fileLength > StorageService.getMaxMediaSize()) {
-        logger.warn(
-          { messageId: msg.key.id, fileLength, maxSize: StorageService.getMaxMediaSize() },
-          'Media file too large, skipping download',
-        );
+      const mediaMessage = content[mediaKey] as Record<string, any> | null | undefined;
+      if (!mediaMessage) continue;
+
+      return {
+        mediaKey,
+        mediaType: mediaKey === 'audioMessage' && mediaMessage.ptt ? 'ptt' : MEDIA_KEY_TO_TYPE[mediaKey],
+        mimetype: mediaMessage.mimetype || 'application/octet-stream',
+        filename: mediaMessage.fileName || null,
+        fileLength: mediaMessage.fileLength ? toNumber(mediaMessage.fileLength) : null,
+        fileSha256: bytesFromJson(mediaMessage.fileSha256)?.toString('hex') || null,
+        width: mediaMessage.width || null,
+        height: mediaMessage.height || null,
+        seconds: mediaMessage.seconds || null,
+        pageCount: mediaMessage.pageCount || null,
+        jpegThumbnail: bytesFromJson(mediaMessage.jpegThumbnail),
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Returns why a message's media should not be saved (no media, type not in
+   * SAVE_MEDIA_TYPES, larger than MAX_MEDIA_SIZE_MB), or null when it is eligible.
+   */
+  static getSkipReason(message: proto.IMessage | null | undefined): string | null {
+    const info = StorageService.getMediaInfo(message);
+    if (!info) return 'No media content in message';
+
+    if (!StorageService.isMediaAllowed(info.mediaType)) {
+      return `Media type ${info.mediaType} is not in SAVE_MEDIA_TYPES`;
+    }
+
+    const maxSize = StorageService.getMaxMediaSize();
+    if (info.fileLength !== null && info.fileLength > maxSize) {
+      return `Media size ${info.fileLength} bytes exceeds max allowed ${maxSize} bytes`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Asks the phone to re-upload media whose CDN link has expired. Resolves with the message
+   * pointing at the fresh upload; rejects with a Boom carrying the phone's answer
+   * (404 when the file is no longer on the phone), or with a 408 after REUPLOAD_TIMEOUT_MS without one.
+   */
+  static async requestMediaReupload(msg: WAMessage, sock: WASocket): Promise<WAMessage> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Boom(`No re-upload response from phone within ${REUPLOAD_TIMEOUT_MS}ms`, { statusCode: 408 })),
+        REUPLOAD_TIMEOUT_MS,
+      );
+    });
+
+    try {
+      return await Promise.race([sock.updateMediaMessage(msg), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Downloads and decrypts a message's media from WhatsApp, checking it against the
+   * sender's fileSha256 when one was sent. Returns null when the media is not eligible;
+   * download failures and hash mismatches are thrown so the caller can retry them.
+   */
+  static async downloadMedia(
+    msg: WAMessage,
+    sock: WASocket,
+  ): Promise<DownloadResult | null> {
+    try {
+      const skipReason = StorageService.getSkipReason(msg.message);
+      const info = StorageService.getMediaInfo(msg.message);
+      if (skipReason || !info) {
+        logger.debug({ messageId: msg.key.id, reason: skipReason }, 'Media not eligible, skipping');
         return null;
       }
 
+      const { mediaType, mimetype, filename } = info;
+
       // Download media buffer
+      // Baileys only unwraps the common envelopes itself
       const buffer = await downloadMediaMessage(
-        msg,
+        { ...msg, message: normalizeContent(msg.message) },
         'buffer',
         {},
         {
           logger: logger as unknown as Parameters<typeof downloadMediaMessage>[3] extends { logger: infer L } ? L : never,
-          reuploadRequest: sock.updateMediaMessage,
+          reuploadRequest: (m) => StorageService.requestMediaReupload(m, sock),
         },
       );
 
       if (!Buffer.isBuffer(buffer)) {
-        logger.error({ messageId: msg.key.id }, 'Downloaded media is not a Buffer');
-        return null;
+        throw new Error('Downloaded media is not a Buffer');
       }
 
-      const chatId = msg.key.remoteJid || 'unknown';
-      const messageId = msg.key.id || `msg_${Date.now()}`;
-
-      const uploadResult = await StorageService.uploadMedia(
-        buffer,
-        mimetype,
-        chatId,
-        messageId,
-      );
+      const sha256 = createHash('sha256').update(buffer).digest('hex');
+      if (info.fileSha256 && info.fileSha256 !== sha256) {
+        throw new Error(`Downloaded media hash ${sha256} does not match fileSha256 ${info.fileSha256}`);
+      }
 
       logger.info(
-        { messageId: msg.key.id, mediaType, storageKey: uploadResult.storageKey },
-        'Media downloaded and uploaded successfully',
+        { messageId: msg.key.id, mediaType, sizeBytes: buffer.length },
+        'Media downloaded successfully',
       );
 
-      return {
-        ...uploadResult,
-        mimetype,
-        filename,
-      };
+      return { buffer, sha256, mediaType, mimetype, filename };
     } catch (error) {
       logger.error(
         { messageId: msg.key?.id, error },
-        'Failed to download and upload media',
+        'Failed to download media',
       );
-      return null;
+      throw error;
     }
   }
 }
 
+export { StorageService, type MediaInfo };
 export default StorageService;
@@ -0,0 +1,91 @@
+import { MessageMedia, MessageTranscript } from '../models/index.js';
+import { getStorageDriver } from '../storage/index.js';
+import { getTranscriptionProvider } from '../transcription/index.js';
+import { createChildLogger } from '../utils/logger.js';
+
+const log = createChildLogger('transcription');
+
+// Message types whose media is speech worth transcribing
+const TRANSCRIBABLE_TYPES = ['audio', 'ptt'];
+
+class TranscriptionService {
+  static isTranscribable(messageType: string): boolean {
+    return TRANSCRIBABLE_TYPES.includes(messageType);
+  }
+
+  /**
+   * Transcribes a stored voice note or audio file and saves the transcript for its message,
+   * reading the file back from storage when no buffer is given. A failure is saved too, then
+   * rethrown. The transcript of a deduplicated file is copied from another message unless
+   * reuseDuplicates is false.
+   */
+  static async transcribe(
+    media: MessageMedia,
+    buffer?: Buffer,
+    { reuseDuplicates = true }: { reuseDuplicates?: boolean } = {}
+  ): Promise<MessageTranscript> {
+    if (media.blob_id && reuseDuplicates) {
+      const sibling = await MessageTranscript.findOne({
+        where: { status: 'completed' },
+        include: [{ model: MessageMedia, as: 'media', where: { blob_id: media.blob_id }, required: true }],
+      });
+      if (sibling) {
+        log.debug({ mediaId: media.id, siblingId: sibling.id }, 'Transcript copied from duplicate');
+        return TranscriptionService.save(media, {
+          status: 'completed',
+          provider: sibling.provider,
+          language: sibling.language,
+          text: sibling.text,
+          last_error: null,
+        });
+      }
+    }
+
+    const provider = getTranscriptionProvider();
+
+    try {
+      const audio = buffer ?? (await getStorageDriver(media.storage_provider).get(media.storage_key));
+      const result = await provider.transcribe(audio, media.mimetype || 'audio/ogg');
+
+      log.info(
+        { mediaId: media.id, provider: provider.name, language: result.language, length: result.text.length },
+        'Audio transcribed'
+      );
+
+      return await TranscriptionService.save(media, {
+        status: 'completed',
+        provider: provider.name,
+        language: result.language,
+        text: result.text,
+        last_error: null,
+      });
+    } catch (err) {
+      await TranscriptionService.save(media, {
+        status: 'failed',
+        provider: provider.name,
+        language: null,
+        text: null,
+        last_error: err instanceof Error ? err.message : String(err),
+      });
+      throw err;
+    }
+  }
+
+  private static async save(
+    media: MessageMedia,
+    fields: Pick<MessageTranscript, 'status' | 'provider' | 'language' | 'text' | 'last_error'>
+  ): Promise<MessageTranscript> {
+    const [transcript, created] = await MessageTranscript.findOrCreate({
+      where: { message_id: media.message_id },
+      defaults: { message_id: media.message_id, media_id: media.id, ...fields },
+    });
+
+    if (!created) {
+      await transcript.update({ media_id: media.id, ...fields });
+    }
+    return transcript;
+  }
+}
+
+export { TranscriptionService };
+export default TranscriptionService;
@@ -1,12 +1,18 @@
 import makeWASocket, {
   DisconnectReason,
+  jidNormalizedUser,
   type WASocket,
   type BaileysEventMap,
   type UserFacingSocketConfig,
 } from '@whiskeysockets/baileys';
 import { Boom } from '@hapi/boom';
 import QRCode from 'qrcode';
-import { createBaileysConfig, createAuthState } from '../config/baileys.js';
+import { Op } from 'sequelize';
+import { Account } from '../models/index.js';
+import type { AccountStatus } from '../models/Account.js';
+import { createBaileysConfig, createAuthState, DEFAULT_ACCOUNT_NAME } from '../config/baileys.js';
+import authStateService from './auth-state.service.js';
+import { currentAccountId, requireAccountId, runWithAccount } from '../utils/account-context.js';
 import { createChildLogger } from '../utils/logger.js';
 
 const log = createChildLogger('whatsapp-service');
@@ -22,51 +28,50 @@ type EventHandler<T extends keyof BaileysEventMap> = {
   handler: (data: BaileysEventMap[T]) => void;
 };
 
-class WhatsAppService {
-  private static instance: WhatsAppService | null = null;
+interface ConnectionState {
+  status: AccountStatus;
+  /** The QR code to scan while the account is waiting to be linked */
+  qr: string | null;
+  own_jids: string[];
+}
+
+/**
+ * Where an account's QR code is saved. The default account keeps the original path.
+ */
+function qrImagePath(account: Account): string {
+  return account.name === DEFAULT_ACCOUNT_NAME ? QR_IMAGE_PATH : `./whatsapp-qr-${account.name}.png`;
+}
+
+/**
+ * The socket of one account: its auth state, QR pairing, and reconnection.
+ */
+class AccountConnection {
+  sock: WASocket | null = null;
+  status: AccountStatus = 'disconnected';
+  qr: string | null = null;
 
-  private sock: WASocket | null = null;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 10;
   private isConnecting = false;
-  // Store registered handlers so they survive reconnects
-  private registeredHandlers: EventHandler<any>[] = [];
-
-  private constructor() {
-    // Private constructor for singleton
-  }
-
-  static getInstance(): WhatsAppService {
-    if (!WhatsAppService.instance) {
-      WhatsAppService.instance = new WhatsAppService();
-    }
-    return WhatsAppService.instance;
-  }
+  // Set by disconnect() so the close it causes is not answered with a reconnect
+  private isStopped = false;
+  private log;
 
-  /**
-   * Register an event handler that persists across reconnects.
-   * Call this instead of sock.ev.on() directly.
-   */
-  onPersistent<T extends keyof BaileysEventMap>(
-    event: T,
-    handler: (data: BaileysEventMap[T]) => void
-  ): void {
-    this.registeredHandlers.push({ event, handler });
-    // If already connected, register immediately
-    if (this.sock) {
-      this.sock.ev.on(event, handler);
-    }
+  constructor(
+    readonly account: Account,
+    private readonly handlers: EventHandler<any>[]
+  ) {
+    this.log = log.child({ account: account.name });
   }
 
   /**
-   * Apply all registered handlers to the current socket.
+   * Registers an event handler on the current socket. It runs in the account's context, so
+   * everything it stores belongs to this account.
    */
-  private applyHandlers(): void {
+  applyHandler<T extends keyof BaileysEventMap>({ event, handler }: EventHandler<T>): void {
     if (!this.sock) return;
-    for (const { event, handler } of this.registeredHandlers) {
-      this.sock.ev.on(event, handler);
-    }
-    log.info({ handlerCount: this.registeredHandlers.length }, 'Event handlers registered on socket');
+    const accountId = this.account.id;
+    this.sock.ev.on(event, (data) => runWithAccount(accountId, () => handler(data)));
   }
 
   /**
@@ -76,15 +81,16 @@ class WhatsAppService {
    */
   async connect(options?: ConnectOptions): Promise<WASocket> {
     if (this.isConnecting) {
-      log.warn('Connection attempt already in progress');
+      this.log.warn('Connection attempt already in progress');
       if (this.sock) return this.sock;
       throw new Error('Connection in progress, socket not yet available');
     }
 
     this.isConnecting = true;
+    this.isStopped = false;
 
     try {
-      const { state, saveCreds } = await createAuthState();
+      const { state, saveCreds } = await createAuthState(this.account);
       const configOverrides: Record<string, unknown> = {};
 
       if (options?.syncFullHistory !== undefined) {
@@ -96,11 +102,12 @@ class WhatsAppService {
         ...configOverrides,
       });
 
-      log.info(
+      this.log.info(
         { version: config.version, syncFullHistory: config.syncFullHistory },
         'Creating WhatsApp socket'
       );
 
+      await this.setStatus('connecting');
       this.sock = makeWASocket(config as UserFacingSocketConfig);
 
       // Save credentials on update
@@ -111,12 +118,14 @@ class WhatsAppService {
         const { connection, lastDisconnect, qr } = update;
 
         if (qr) {
-          log.info('QR code received, saving as image...');
+          this.qr = qr;
+          await this.setStatus('qr');
+          this.log.info('QR code received, saving as image...');
           try {
-            await QRCode.toFile(QR_IMAGE_PATH, qr, { width: 600 });
-            log.info({ path: QR_IMAGE_PATH }, 'QR code saved as PNG');
+            await QRCode.toFile(qrImagePath(this.account), qr, { width: 600 });
+            this.log.info({ path: qrImagePath(this.account) }, 'QR code saved as PNG');
           } catch (err) {
-            log.error({ err }, 'Failed to save QR code as image');
+            this.log.error({ err }, 'Failed to save QR code as image');
           }
         }
 
@@ -125,16 +134,28 @@ class WhatsAppService {
             ?.statusCode;
           const isLoggedOut = statusCode === DisconnectReason.loggedOut;
 
-          log.warn(
+          this.log.warn(
             { statusCode, isLoggedOut },
             'Connection closed'
           );
 
           this.isConnecting = false;
 
+          if (this.isStopped) {
+            await this.setStatus('disconnected');
+            return;
+          }
+
           if (isLoggedOut) {
-            log.error('Logged out from WhatsApp. Manual re-authentication required.');
+            this.log.error('Logged out from WhatsApp. Manual re-authentication required.');
             this.sock = null;
+            // The session is dead; dropping it makes the next connect show a QR code
+            try {
+              await authStateService.clear(this.account.id);
+            } catch (err) {
+              this.log.error({ err }, 'Failed to clear auth state');
+            }
+            await this.setStatus('logged_out');
             return;
           }
 
@@ -144,7 +165,7 @@ class WhatsAppService {
               1000 * Math.pow(2, this.reconnectAttempts),
               60000
             );
-            log.info(
+            this.log.info(
               {
                 attempt: this.reconnectAttempts,
                 maxAttempts: this.maxReconnectAttempts,
@@ -152,27 +173,40 @@ class WhatsAppService {
               },
               'Reconnecting with exponential backoff...'
             );
+            await this.setStatus('connecting');
             setTimeout(() => {
+              if (this.isStopped) return;
               this.connect(options).catch((err) => {
-                log.error({ err }, 'Reconnection failed');
+                this.log.error({ err }, 'Reconnection failed');
               });
             }, delay);
           } else {
-            log.error(
+            this.log.error(
               { maxAttempts: this.maxReconnectAttempts },
               'Max reconnection attempts reached. Giving up.'
             );
             this.sock = null;
+            await this.setStatus('disconnected');
           }
         } else if (connection === 'open') {
           this.reconnectAttempts = 0;
           this.isConnecting = false;
-          log.info('Connected to WhatsApp successfully');
+          this.qr = null;
+          const [phoneJid, lidJid] = this.getOwnJids();
+          await this.setStatus('open', {
+            phone_jid: phoneJid || null,
+            lid_jid: lidJid || null,
+            last_connected_at: new Date(),
+          });
+          this.log.info('Connected to WhatsApp successfully');
         }
       });
 
       // Apply all persistent handlers to the new socket
-      this.applyHandlers();
+      for (const handler of this.handlers) {
+        this.applyHandler(handler);
+      }
+      this.log.info({ handlerCount: this.handlers.length }, 'Event handlers registered on socket');
 
       return this.sock;
     } catch (err) {
@@ -182,43 +216,192 @@ class WhatsAppService {
   }
 
   /**
-   * Returns the active WhatsApp socket.
-   * Throws if not connected.
+   * Returns our own user JIDs (phone-number JID first, then LID), normalized without device suffix.
+   * Empty before the account has been paired.
    */
-  getSocket(): WASocket {
-    if (!this.sock) {
-      throw new Error(
-        'WhatsApp socket not available. Call connect() first.'
-      );
-    }
-    return this.sock;
+  getOwnJids(): string[] {
+    const user = this.sock?.user;
+    if (!user) return [];
+    return [user.id, user.lid]
+      .filter((jid): jid is string => !!jid)
+      .map((jid) => jidNormalizedUser(jid));
   }
 
   /**
-   * Disconnects the WhatsApp socket gracefully.
+   * Disconnects the socket gracefully, without reconnecting.
    */
   async disconnect(): Promise<void> {
+    this.isStopped = true;
     if (this.sock) {
-      log.info('Disconnecting WhatsApp socket...');
+      this.log.info('Disconnecting WhatsApp socket...');
       this.sock.end(undefined);
       this.sock = null;
       this.isConnecting = false;
-      log.info('WhatsApp socket disconnected');
+      this.log.info('WhatsApp socket disconnected');
+    }
+    await this.setStatus('disconnected');
+  }
+
+  private async setStatus(
+    status: AccountStatus,
+    fields: { phone_jid?: string | null; lid_jid?: string | null; last_connected_at?: Date } = {}
+  ): Promise<void> {
+    this.status = status;
+    try {
+      await this.account.update({ status, ...fields });
+    } catch (err) {
+      this.log.warn({ err, status }, 'Failed to record account status');
+    }
+  }
+}
+
+class WhatsAppService {
+  private static instance: WhatsAppService | null = null;
+
+  private connections = new Map<number, AccountConnection>();
+  // Store registered handlers so they survive reconnects and apply to every account
+  private registeredHandlers: EventHandler<any>[] = [];
+
+  private constructor() {
+    // Private constructor for singleton
+  }
+
+  static getInstance(): WhatsAppService {
+    if (!WhatsAppService.instance) {
+      WhatsAppService.instance = new WhatsAppService();
+    }
+    return WhatsAppService.instance;
+  }
+
+  /**
+   * Register an event handler that persists across reconnects, on every account's socket.
+   * The handler runs in the context of the account the event came from.
+   * Call this instead of sock.ev.on() directly.
+   */
+  onPersistent<T extends keyof BaileysEventMap>(
+    event: T,
+    handler: (data: BaileysEventMap[T]) => void
+  ): void {
+    const registered: EventHandler<T> = { event, handler };
+    this.registeredHandlers.push(registered);
+    // Accounts already connected get it immediately
+    for (const connection of this.connections.values()) {
+      connection.applyHandler(registered);
+    }
+  }
+
+  /**
+   * Connects every enabled account. An account that fails to connect is logged and skipped.
+   */
+  async connectAll(options?: ConnectOptions): Promise<void> {
+    const accounts = await Account.findAll({ where: { is_enabled: true }, order: [['id', 'ASC']] });
+
+    for (const account of accounts) {
+      try {
+        await this.connect(account, options);
+      } catch (err) {
+        log.error({ err, account: account.name }, 'Failed to connect account');
+      }
+    }
+
+    log.info({ accounts: accounts.length }, 'WhatsApp accounts connecting');
+  }
+
+  /**
+   * Connects one account, reusing its connection when it already has one.
+   */
+  async connect(account: Account, options?: ConnectOptions): Promise<WASocket> {
+    let connection = this.connections.get(Number(account.id));
+    if (!connection) {
+      connection = new AccountConnection(account, this.registeredHandlers);
+      this.connections.set(Number(account.id), connection);
+    }
+    return connection.connect(options);
+  }
+
+  /**
+   * Returns the WhatsApp socket of an account, by default the one in context.
+   * Throws if it is not connected.
+   */
+  getSocket(accountId: number = requireAccountId()): WASocket {
+    const sock = this.connections.get(Number(accountId))?.sock;
+    if (!sock) {
+      throw new Error(
+        'WhatsApp socket not available. Call connect() first.'
+      );
+    }
+    return sock;
+  }
+
+  /**
+   * Returns our own user JIDs on an account (by default the one in context), phone-number JID
+   * first, then LID. Empty before the account has been paired or outside an account.
+   */
+  getOwnJids(accountId: number | null = currentAccountId()): string[] {
+    if (accountId === null) return [];
+    return this.connections.get(Number(accountId))?.getOwnJids() || [];
+  }
+
+  /**
+   * Accounts whose socket is currently open.
+   */
+  getConnectedAccountIds(): number[] {
+    return [...this.connections.values()]
+      .filter((connection) => connection.status === 'open')
+      .map((connection) => Number(connection.account.id));
+  }
+
+  /**
+   * Live connection state of an account; disconnected when it has never been connected.
+   */
+  getState(accountId: number): ConnectionState {
+    const connection = this.connections.get(Number(accountId));
+    return {
+      status: connection?.status || 'disconnected',
+      qr: connection?.qr || null,
+      own_jids: connection?.getOwnJids() || [],
+    };
+  }
+
+  /**
+   * Finds an account by id or name; without one, the first account (the default one).
+   */
+  async findAccount(ref?: string | null): Promise<Account | null> {
+    if (!ref) {
+      return Account.findOne({ order: [['id', 'ASC']] });
+    }
+    return Account.findOne({
+      where: /^\d+$/.test(ref) ? { [Op.or]: [{ id: parseInt(ref, 10) }, { name: ref }] } : { name: ref },
+    });
+  }
+
+  /**
+   * Disconnects one account's socket gracefully, or every account's without an id.
+   */
+  async disconnect(accountId?: number): Promise<void> {
+    const connections = accountId !== undefined
+      ? [this.connections.get(Number(accountId))].filter((connection): connection is AccountConnection => !!connection)
+      : [...this.connections.values()];
+
+    for (const connection of connections) {
+      await connection.disconnect();
+      this.connections.delete(Number(connection.account.id));
     }
   }
 
   /**
-   * Proxy to register event handlers on the Baileys socket.
+   * Proxy to register event handlers on the socket of the account in context.
    * NOTE: These handlers do NOT survive reconnects. Use onPersistent() instead.
    */
   on<T extends keyof BaileysEventMap>(
     event: T,
     handler: (data: BaileysEventMap[T]) => void
   ): void {
-    const socket = this.getSocket();
-    socket.ev.on(event, handler);
+    const accountId = requireAccountId();
+    const socket = this.getSocket(accountId);
+    socket.ev.on(event, (data) => runWithAccount(accountId, () => handler(data)));
   }
 }
 
-export { WhatsAppService };
+export { WhatsAppService, type ConnectionState };
 export default WhatsAppService.getInstance();
@@ -0,0 +1,67 @@
+import { S3Client } from '@aws-sdk/client-s3';
+import s3Client, { S3_BUCKET } from '../config/s3.js';
+import { LOCAL_STORAGE_DIR, S3_COMPATIBLE, STORAGE_DRIVER } from '../config/storage.js';
+import { LocalStorageDriver } from './local.driver.js';
+import { S3StorageDriver } from './s3.driver.js';
+import type { StorageDriver } from './storage-driver.js';
+
+const STORAGE_PROVIDERS = ['s3', 's3-compatible', 'local'] as const;
+
+const drivers = new Map<string, StorageDriver>();
+
+function createDriver(provider: string): StorageDriver {
+  switch (provider) {
+    case 's3':
+      return new S3StorageDriver({
+        provider,
+        client: s3Client,
+        bucket: S3_BUCKET,
+        publicBaseUrl: `https://${S3_BUCKET}.s3.${process.env.AWS_REGION || 'us-east-1'}.amazonaws.com`,
+      });
+    case 's3-compatible':
+      if (!S3_COMPATIBLE.endpoint) {
+        throw new Error('S3_COMPAT_ENDPOINT must be set to use the s3-compatible storage driver');
+      }
+      return new S3StorageDriver({
+        provider,
+        client: new S3Client({
+          endpoint: S3_COMPATIBLE.endpoint,
+          region: S3_COMPATIBLE.region,
+          forcePathStyle: S3_COMPATIBLE.forcePathStyle,
+          credentials: {
+            accessKeyId: S3_COMPATIBLE.accessKeyId,
+            secretAccessKey: S3_COMPATIBLE.secretAccessKey,
+          },
+        }),
+        bucket: S3_COMPATIBLE.bucket,
+        publicBaseUrl: S3_COMPATIBLE.publicUrl || null,
+      });
+    case 'local':
+      return new LocalStorageDriver(LOCAL_STORAGE_DIR);
+    default:
+      throw new Error(
+        `Unknown storage provider "${provider}" (expected one of: ${STORAGE_PROVIDERS.join(', ')})`,
+      );
+  }
+}
+
+/**
+ * Returns the driver for a storage provider, as recorded in message_media.storage_provider.
+ */
+function getStorageDriver(provider: string): StorageDriver {
+  let driver = drivers.get(provider);
+  if (!driver) {
+    driver = createDriver(provider);
+    drivers.set(provider, driver);
+  }
+  return driver;
+}
+
+/**
+ * Returns the driver new media is written to (STORAGE_DRIVER).
+ */
+function getDefaultStorageDriver(): StorageDriver {
+  return getStorageDriver(STORAGE_DRIVER);
+}
+
+export { STORAGE_PROVIDERS, getStorageDriver, getDefaultStorageDriver, type StorageDriver };
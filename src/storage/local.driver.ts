@@ -0,0 +1,61 @@
+import { createReadStream } from 'fs';
+import { mkdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import type { Readable } from 'stream';
+import type { StorageDriver } from './storage-driver.js';
+
+/**
+ * Stores media on the local filesystem under a root directory.
+ * Files are not served directly; the API proxies reads.
+ */
+class LocalStorageDriver implements StorageDriver {
+  readonly provider = 'local';
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return readFile(this.resolve(key));
+  }
+
+  async createReadStream(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+    // Fail before streaming starts so callers can still send a 404
+    await stat(filePath);
+    return createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  getPublicUrl(): string | null {
+    return null;
+  }
+
+  async getSignedUrl(): Promise<string | null> {
+    return null;
+  }
+
+  /**
+   * Maps a key to a path inside the root, rejecting keys that would escape it.
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Storage key escapes the storage directory: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+export { LocalStorageDriver };
+export default LocalStorageDriver;
@@ -0,0 +1,73 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  type S3Client,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import type { Readable } from 'stream';
+import type { StorageDriver } from './storage-driver.js';
+
+interface S3DriverOptions {
+  provider: string;
+  client: S3Client;
+  bucket: string;
+  // Base URL objects are publicly reachable under, if any
+  publicBaseUrl: string | null;
+}
+
+/**
+ * Stores media in an S3 bucket: AWS itself, or any S3-compatible store
+ * when the client is built with a custom endpoint.
+ */
+class S3StorageDriver implements StorageDriver {
+  readonly provider: string;
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly publicBaseUrl: string | null;
+
+  constructor(options: S3DriverOptions) {
+    this.provider = options.provider;
+    this.client = options.client;
+    this.bucket = options.bucket;
+    this.publicBaseUrl = options.publicBaseUrl?.replace(/\/+$/, '') || null;
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+      }),
+    );
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const { Body } = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+    if (!Body) throw new Error(`Empty body for ${this.provider} object ${key}`);
+    return Buffer.from(await Body.transformToByteArray());
+  }
+
+  async createReadStream(key: string): Promise<Readable> {
+    const { Body } = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+    if (!Body) throw new Error(`Empty body for ${this.provider} object ${key}`);
+    return Body as Readable;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  getPublicUrl(key: string): string | null {
+    return this.publicBaseUrl ? `${this.publicBaseUrl}/${key}` : null;
+  }
+
+  async getSignedUrl(key: string, expiresIn: number): Promise<string | null> {
+    return getSignedUrl(this.client, new GetObjectCommand({ Bucket: this.bucket, Key: key }), { expiresIn });
+  }
+}
+
+export { S3StorageDriver };
+export default S3StorageDriver;
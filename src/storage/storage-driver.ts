@@ -0,0 +1,21 @@
+import type { Readable } from 'stream';
+
+/**
+ * A backend that media files can be written to and read back from.
+ * Keys are relative paths such as `2024/05/123_s_whatsapp_net/ABCDEF.jpg`.
+ */
+export interface StorageDriver {
+  /** Value recorded in message_media.storage_provider for objects written by this driver */
+  readonly provider: string;
+
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  createReadStream(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+
+  /** Permanent URL for the object, or null when the backend is not publicly reachable */
+  getPublicUrl(key: string): string | null;
+
+  /** Short-lived URL to fetch the object, or null when reads have to be proxied through the API */
+  getSignedUrl(key: string, expiresIn: number): Promise<string | null>;
+}
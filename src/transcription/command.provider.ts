@@ -0,0 +1,71 @@
+import { exec } from 'child_process';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import type { TranscriptionProvider, TranscriptionResult } from './transcription-provider.js';
+
+const execAsync = promisify(exec);
+
+// Engines sniff the container from the extension
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+  'audio/wav': 'wav',
+  'audio/webm': 'webm',
+};
+
+/**
+ * Runs a local speech engine (whisper.cpp, openai-whisper, vosk, ...) as a shell command.
+ * The audio is written to a temporary file whose path replaces `{input}` in the command.
+ */
+class CommandTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'command';
+
+  constructor(
+    private readonly command: string,
+    private readonly timeoutMs: number,
+    private readonly defaultLanguage: string | null
+  ) {}
+
+  async transcribe(audio: Buffer, mimetype: string): Promise<TranscriptionResult> {
+    const dir = await mkdtemp(path.join(tmpdir(), 'transcribe-'));
+    const ext = AUDIO_EXTENSIONS[mimetype.split(';')[0].trim()] || 'bin';
+    const input = path.join(dir, `audio.${ext}`);
+
+    try {
+      await writeFile(input, audio);
+      const { stdout } = await execAsync(this.command.replaceAll('{input}', JSON.stringify(input)), {
+        timeout: this.timeoutMs,
+        maxBuffer: 10 * 1024 * 1024,
+      });
+      return this.parse(stdout);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  private parse(stdout: string): TranscriptionResult {
+    const output = stdout.trim();
+
+    if (output.startsWith('{')) {
+      try {
+        const json = JSON.parse(output) as { text?: unknown; language?: unknown };
+        if (typeof json.text === 'string') {
+          return {
+            text: json.text.trim(),
+            language: typeof json.language === 'string' ? json.language : this.defaultLanguage,
+          };
+        }
+      } catch {
+        // Not JSON after all; treat it as the transcript
+      }
+    }
+
+    return { text: output.replace(/\s*\n\s*/g, ' '), language: this.defaultLanguage };
+  }
+}
+
+export { CommandTranscriptionProvider };
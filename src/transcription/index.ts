@@ -0,0 +1,38 @@
+import {
+  TRANSCRIPTION_COMMAND,
+  TRANSCRIPTION_LANGUAGE,
+  TRANSCRIPTION_PROVIDER,
+  TRANSCRIPTION_TIMEOUT_MS,
+} from '../config/transcription.js';
+import { CommandTranscriptionProvider } from './command.provider.js';
+import { StubTranscriptionProvider } from './stub.provider.js';
+import type { TranscriptionProvider, TranscriptionResult } from './transcription-provider.js';
+
+const TRANSCRIPTION_PROVIDERS = ['command', 'stub'] as const;
+
+let provider: TranscriptionProvider | null = null;
+
+function createProvider(name: string): TranscriptionProvider {
+  switch (name) {
+    case 'command':
+      return new CommandTranscriptionProvider(TRANSCRIPTION_COMMAND, TRANSCRIPTION_TIMEOUT_MS, TRANSCRIPTION_LANGUAGE);
+    case 'stub':
+      return new StubTranscriptionProvider();
+    default:
+      throw new Error(
+        `Unknown transcription provider "${name}" (expected one of: ${TRANSCRIPTION_PROVIDERS.join(', ')})`,
+      );
+  }
+}
+
+/**
+ * Returns the configured transcription provider (TRANSCRIPTION_PROVIDER).
+ */
+function getTranscriptionProvider(): TranscriptionProvider {
+  if (!provider) {
+    provider = createProvider(TRANSCRIPTION_PROVIDER);
+  }
+  return provider;
+}
+
+export { TRANSCRIPTION_PROVIDERS, getTranscriptionProvider, type TranscriptionProvider, type TranscriptionResult };
@@ -0,0 +1,17 @@
+import type { TranscriptionProvider, TranscriptionResult } from './transcription-provider.js';
+
+/**
+ * Returns a fixed transcript without running any engine, for tests and local development.
+ */
+class StubTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'stub';
+
+  async transcribe(audio: Buffer, mimetype: string): Promise<TranscriptionResult> {
+    return {
+      text: process.env.TRANSCRIPTION_STUB_TEXT || `[${mimetype} voice note, ${audio.length} bytes]`,
+      language: 'en',
+    };
+  }
+}
+
+export { StubTranscriptionProvider };
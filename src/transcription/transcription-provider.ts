@@ -0,0 +1,15 @@
+export interface TranscriptionResult {
+  text: string;
+  /** Language code detected by (or configured for) the engine, when known */
+  language: string | null;
+}
+
+/**
+ * A speech-to-text engine that voice notes can be handed to.
+ */
+export interface TranscriptionProvider {
+  /** Value recorded in message_transcripts.provider for transcripts produced by this provider */
+  readonly name: string;
+
+  transcribe(audio: Buffer, mimetype: string): Promise<TranscriptionResult>;
+}
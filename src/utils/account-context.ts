@@ -0,0 +1,28 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+const storage = new AsyncLocalStorage<number>();
+
+/**
+ * Runs `fn` on behalf of a WhatsApp account. Everything it awaits, including queries on
+ * account-scoped models and whatsappService.getSocket(), applies to that account.
+ */
+export function runWithAccount<T>(accountId: number, fn: () => T): T {
+  // BIGINT ids come back from pg as strings
+  return storage.run(Number(accountId), fn);
+}
+
+/**
+ * The account the current event or request belongs to, or null outside of one
+ * (timers, scripts, unscoped API routes).
+ */
+export function currentAccountId(): number | null {
+  return storage.getStore() ?? null;
+}
+
+export function requireAccountId(): number {
+  const accountId = currentAccountId();
+  if (accountId === null) {
+    throw new Error('No WhatsApp account in context');
+  }
+  return accountId;
+}
@@ -0,0 +1,45 @@
+/**
+ * Recovers binary fields (keys, hashes, secrets) from stored raw_data JSON.
+ * Depending on how a proto was serialized, bytes end up as a Node Buffer JSON
+ * ({ type: 'Buffer', data }), an index-keyed object, a number array, or base64.
+ */
+export function bytesFromJson(value: unknown): Buffer | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Uint8Array) return Buffer.from(value);
+  if (typeof value === 'string') return value.length > 0 ? Buffer.from(value, 'base64') : null;
+  if (Array.isArray(value)) return Buffer.from(value as number[]);
+
+  if (typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    if (obj.type === 'Buffer' && Array.isArray(obj.data)) {
+      return Buffer.from(obj.data as number[]);
+    }
+    if (obj.type === 'Buffer' && typeof obj.data === 'string') {
+      return Buffer.from(obj.data, 'base64');
+    }
+
+    const keys = Object.keys(obj);
+    if (keys.length > 0 && keys.every((k) => /^\d+$/.test(k))) {
+      return Buffer.from(keys.sort((a, b) => Number(a) - Number(b)).map((k) => Number(obj[k])));
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Deep-copies stored raw_data, turning serialized byte fields back into Buffers so the
+ * result can be handed to Baileys (media keys, hashes) as if it had just been received.
+ */
+export function reviveBytes<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value), (_key, field: unknown) => {
+    if (!field || typeof field !== 'object' || Array.isArray(field)) return field;
+
+    const obj = field as Record<string, unknown>;
+    const keys = Object.keys(obj);
+    const isBufferJson = obj.type === 'Buffer' && obj.data !== undefined;
+    const isIndexed = keys.length > 0 && keys.every((k) => /^\d+$/.test(k)) && keys.every((k) => typeof obj[k] === 'number');
+
+    return isBufferJson || isIndexed ? bytesFromJson(obj) : field;
+  }) as T;
+}
@@ -0,0 +1,79 @@
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TYPE_ASCII = 2;
+const TYPE_LONG = 4;
+
+/**
+ * Reads the capture time from a JPEG's EXIF block (DateTimeOriginal, falling back to DateTime).
+ * EXIF times have no zone unless OffsetTimeOriginal is present, so the result is an
+ * ISO-8601 local time such as `2024-05-01T18:30:12`, with `+05:30` appended when known.
+ * Returns null for non-JPEG input or when no date is recorded.
+ */
+export function readExifCaptureDate(buffer: Buffer): string | null {
+  const tiff = findExifTiff(buffer);
+  if (!tiff) return null;
+
+  try {
+    const littleEndian = tiff.toString('latin1', 0, 2) === 'II';
+    const u16 = (offset: number) => (littleEndian ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset));
+    const u32 = (offset: number) => (littleEndian ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset));
+
+    const readIfd = (ifdOffset: number): Map<number, { type: number; count: number; valueOffset: number }> => {
+      const entries = new Map<number, { type: number; count: number; valueOffset: number }>();
+      const count = u16(ifdOffset);
+      for (let i = 0; i < count; i++) {
+        const entry = ifdOffset + 2 + i * 12;
+        entries.set(u16(entry), { type: u16(entry + 2), count: u32(entry + 4), valueOffset: entry + 8 });
+      }
+      return entries;
+    };
+
+    const readAscii = (entry: { type: number; count: number; valueOffset: number } | undefined) => {
+      if (!entry || entry.type !== TYPE_ASCII) return null;
+      const start = entry.count > 4 ? u32(entry.valueOffset) : entry.valueOffset;
+      return tiff.toString('latin1', start, start + entry.count).replace(/\0+$/, '').trim() || null;
+    };
+
+    const ifd0 = readIfd(u32(4));
+    const exifPointer = ifd0.get(TAG_EXIF_IFD);
+    const exifIfd = exifPointer?.type === TYPE_LONG ? readIfd(u32(exifPointer.valueOffset)) : null;
+
+    const raw = readAscii(exifIfd?.get(TAG_DATE_TIME_ORIGINAL)) || readAscii(ifd0.get(TAG_DATE_TIME));
+    const match = raw?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})$/);
+    if (!match || match[1] === '0000') return null;
+
+    const offset = readAscii(exifIfd?.get(TAG_OFFSET_TIME_ORIGINAL));
+    const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+
+    return `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}${zone}`;
+  } catch {
+    // Truncated or malformed EXIF
+    return null;
+  }
+}
+
+/**
+ * Returns the TIFF structure inside a JPEG's APP1 Exif segment.
+ */
+function findExifTiff(buffer: Buffer): Buffer | null {
+  if (buffer.length < 4 || buffer[0] !== 0xff || buffer[1] !== 0xd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1];
+    const length = buffer.readUInt16BE(offset + 2);
+
+    // Start of scan: image data follows, no more metadata segments
+    if (marker === 0xda) return null;
+
+    if (marker === 0xe1 && buffer.toString('latin1', offset + 4, offset + 10) === 'Exif\0\0') {
+      return buffer.subarray(offset + 10, offset + 2 + length);
+    }
+
+    offset += 2 + length;
+  }
+
+  return null;
+}
@@ -0,0 +1,24 @@
+/**
+ * Runs async work one at a time per key, in the order it was queued. Work under different
+ * keys runs concurrently.
+ */
+export class KeyedMutex {
+  // The last queued work per key; removed once the queue for the key drains
+  private tails = new Map<string, Promise<void>>();
+
+  async runExclusive<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) || Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>((resolve) => (release = resolve));
+    const tail = previous.then(() => current);
+    this.tails.set(key, tail);
+
+    await previous;
+    try {
+      return await fn();
+    } finally {
+      release();
+      if (this.tails.get(key) === tail) this.tails.delete(key);
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import type { proto } from '@whiskeysockets/baileys';
+
+/**
+ * Every value messages.message_type can take (kept in sync with the valid_message_type constraint).
+ */
+export const MESSAGE_TYPES = [
+  'chat', 'image', 'video', 'ptv', 'audio', 'ptt', 'document', 'sticker',
+  'location', 'contact', 'poll', 'event', 'pin', 'keep', 'call', 'group_invite',
+  'buttons', 'buttons_response', 'list', 'list_response', 'template', 'template_response',
+  'interactive', 'interactive_response', 'product', 'order', 'payment', 'comment',
+  'system', 'reaction', 'protocol', 'revoke', 'unknown',
+] as const;
+
+export type MessageType = typeof MESSAGE_TYPES[number];
+
+// Message types whose content is a downloadable file
+const MEDIA_TYPES: readonly string[] = ['image', 'video', 'ptv', 'audio', 'ptt', 'document', 'sticker'];
+
+/**
+ * Envelopes whose only content is another message. Baileys' normalizeMessageContent
+ * unwraps the first six; the rest arrive from newer clients and bots.
+ */
+const WRAPPER_KEYS = [
+  'ephemeralMessage',
+  'viewOnceMessage',
+  'documentWithCaptionMessage',
+  'viewOnceMessageV2',
+  'viewOnceMessageV2Extension',
+  'editedMessage',
+  'deviceSentMessage',
+  'groupMentionedMessage',
+  'botInvokeMessage',
+  'botForwardedMessage',
+  'lottieStickerMessage',
+  'associatedChildMessage',
+  'statusMentionMessage',
+  'groupStatusMentionMessage',
+  'groupStatusMessage',
+  'groupStatusMessageV2',
+  'limitSharingMessage',
+  'pollCreationMessageV4',
+] as const;
+
+/**
+ * Content keys in the order they are checked, with the message_type each maps to.
+ * Order matters where a message carries more than one key (e.g. a poll with messageContextInfo).
+ */
+const CONTENT_TYPES: [keyof proto.IMessage, MessageType][] = [
+  ['conversation', 'chat'],
+  ['extendedTextMessage', 'chat'],
+  ['imageMessage', 'image'],
+  ['videoMessage', 'video'],
+  ['ptvMessage', 'ptv'],
+  ['audioMessage', 'audio'],
+  ['documentMessage', 'document'],
+  ['stickerMessage', 'sticker'],
+  ['locationMessage', 'location'],
+  ['liveLocationMessage', 'location'],
+  ['contactMessage', 'contact'],
+  ['contactsArrayMessage', 'contact'],
+  ['pollCreationMessage', 'poll'],
+  ['pollCreationMessageV2', 'poll'],
+  ['pollCreationMessageV3', 'poll'],
+  ['pollCreationMessageV5', 'poll'],
+  ['pollUpdateMessage', 'poll'],
+  ['eventMessage', 'event'],
+  ['pinInChatMessage', 'pin'],
+  ['keepInChatMessage', 'keep'],
+  ['callLogMesssage', 'call'],
+  ['scheduledCallCreationMessage', 'call'],
+  ['groupInviteMessage', 'group_invite'],
+  ['buttonsMessage', 'buttons'],
+  ['buttonsResponseMessage', 'buttons_response'],
+  ['listMessage', 'list'],
+  ['listResponseMessage', 'list_response'],
+  ['templateMessage', 'template'],
+  ['templateButtonReplyMessage', 'template_response'],
+  ['interactiveMessage', 'interactive'],
+  ['interactiveResponseMessage', 'interactive_response'],
+  ['productMessage', 'product'],
+  ['orderMessage', 'order'],
+  ['sendPaymentMessage', 'payment'],
+  ['requestPaymentMessage', 'payment'],
+  ['declinePaymentRequestMessage', 'payment'],
+  ['cancelPaymentRequestMessage', 'payment'],
+  ['paymentInviteMessage', 'payment'],
+  ['commentMessage', 'comment'],
+  ['reactionMessage', 'reaction'],
+  ['protocolMessage', 'protocol'],
+  ['senderKeyDistributionMessage', 'protocol'],
+];
+
+/**
+ * Unwraps ephemeral, view-once, edited, document-with-caption and similar envelopes
+ * down to the message that actually carries the content.
+ */
+export function normalizeContent(message: proto.IMessage | null | undefined): proto.IMessage | null {
+  let content = message || null;
+
+  // Bounded so a malformed message cannot loop forever
+  for (let i = 0; i < 5 && content; i++) {
+    const wrapperKey = WRAPPER_KEYS.find((key) => content?.[key]?.message);
+    if (!wrapperKey) break;
+    content = (content[wrapperKey] as { message?: proto.IMessage | null }).message || null;
+  }
+
+  return content;
+}
+
+/**
+ * Maps normalized message content to our message_type. Voice notes (audio with the
+ * ptt flag) are 'ptt'; anything unrecognized is 'unknown'.
+ */
+export function resolveMessageType(content: proto.IMessage | null | undefined): MessageType {
+  if (!content) return 'unknown';
+
+  for (const [key, type] of CONTENT_TYPES) {
+    if (!content[key]) continue;
+    if (type === 'audio' && content.audioMessage?.ptt) return 'ptt';
+    return type;
+  }
+
+  return 'unknown';
+}
+
+/**
+ * Extracts the human-readable text of normalized message content: the text itself,
+ * a media caption, or the title/label of a poll, event, button, list or template reply.
+ */
+export function extractBody(content: proto.IMessage | null | undefined): string | null {
+  if (!content) return null;
+
+  const template = content.templateMessage?.hydratedTemplate || content.templateMessage?.hydratedFourRowTemplate;
+
+  return (
+    content.conversation ||
+    content.extendedTextMessage?.text ||
+    content.imageMessage?.caption ||
+    content.videoMessage?.caption ||
+    content.ptvMessage?.caption ||
+    content.documentMessage?.caption ||
+    content.pollCreationMessage?.name ||
+    content.pollCreationMessageV2?.name ||
+    content.pollCreationMessageV3?.name ||
+    content.pollCreationMessageV5?.name ||
+    content.eventMessage?.name ||
+    content.reactionMessage?.text ||
+    content.contactMessage?.displayName ||
+    content.locationMessage?.name ||
+    content.liveLocationMessage?.caption ||
+    content.groupInviteMessage?.caption ||
+    content.groupInviteMessage?.groupName ||
+    content.buttonsMessage?.contentText ||
+    content.buttonsResponseMessage?.selectedDisplayText ||
+    content.listMessage?.description ||
+    content.listMessage?.title ||
+    content.listResponseMessage?.title ||
+    template?.hydratedContentText ||
+    content.templateButtonReplyMessage?.selectedDisplayText ||
+    content.interactiveMessage?.body?.text ||
+    content.interactiveResponseMessage?.body?.text ||
+    content.productMessage?.product?.title ||
+    content.orderMessage?.message ||
+    content.requestPaymentMessage?.noteMessage?.extendedTextMessage?.text ||
+    content.sendPaymentMessage?.noteMessage?.extendedTextMessage?.text ||
+    extractBody(content.commentMessage?.message) ||
+    null
+  );
+}
+
+/**
+ * Returns the contextInfo (quoted message, mentions, forwarding) of normalized content,
+ * wherever the content type keeps it.
+ */
+export function extractContextInfo(content: proto.IMessage | null | undefined): proto.IContextInfo | null {
+  if (!content) return null;
+
+  for (const [key] of CONTENT_TYPES) {
+    const value = content[key] as { contextInfo?: proto.IContextInfo | null } | null | undefined;
+    if (value && typeof value === 'object' && value.contextInfo) return value.contextInfo;
+  }
+
+  return null;
+}
+
+/**
+ * Whether a message_type carries a downloadable file.
+ */
+export function isMediaType(messageType: string): boolean {
+  return MEDIA_TYPES.includes(messageType);
+}
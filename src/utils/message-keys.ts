@@ -0,0 +1,10 @@
+import type { WAMessageKey } from '@whiskeysockets/baileys';
+
+/**
+ * Identifies who sent a message from its key. Our own messages are recorded as 'me'.
+ */
+export function authorFromKey(key: WAMessageKey | null | undefined): string | null {
+  if (!key) return null;
+  if (key.fromMe) return 'me';
+  return key.participant || key.remoteJid || null;
+}
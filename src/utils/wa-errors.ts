@@ -0,0 +1,22 @@
+import type { Boom } from '@hapi/boom';
+
+// Error codes WhatsApp answers queries with
+export const NOT_AUTHORIZED = 401;
+export const NOT_FOUND = 404;
+export const RATE_LIMITED = 429;
+
+/**
+ * The code of an error from a WhatsApp query. Baileys puts the server's code in the Boom's data;
+ * its own errors (timeouts, closed connection) only carry an HTTP-style status.
+ */
+export function errorCode(err: unknown): number | undefined {
+  const data = (err as Boom<unknown>)?.data;
+  return typeof data === 'number' ? data : (err as Boom)?.output?.statusCode;
+}
+
+/**
+ * Whether an error is WhatsApp telling us to slow down.
+ */
+export function isRateLimited(err: unknown): boolean {
+  return errorCode(err) === RATE_LIMITED;
+}